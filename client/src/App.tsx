@@ -7,6 +7,10 @@ import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
 import ContentGenerator from "./pages/ContentGenerator";
 import Results from "./pages/Results";
+import VisionPipeline from "./pages/VisionPipeline";
+import JobHistory from "./pages/JobHistory";
+import { JobDetailPage } from "./pages/JobDetail";
+import Workspaces from "./pages/Workspaces";
 
 function Router() {
   // make sure to consider if you need authentication for certain routes
@@ -15,6 +19,10 @@ function Router() {
       <Route path={"/"} component={Home} />
       <Route path="/generate" component={ContentGenerator} />
       <Route path="/results/:inputId" component={Results} />
+      <Route path="/vision-pipeline" component={VisionPipeline} />
+      <Route path="/jobs" component={JobHistory} />
+      <Route path="/jobs/:id" component={JobDetailPage} />
+      <Route path="/workspaces" component={Workspaces} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -7,7 +7,9 @@ interface GranularProgressBarProps {
     | "gemini_analyzing"
     | "deepseek_generating"
     | "complete"
-    | "error";
+    | "error"
+    | "failed"
+    | "cancelled";
   progress: number; // 0-100
   errorMessage?: string;
 }
@@ -34,10 +36,20 @@ const statusConfig = {
     progress: 100,
   },
   error: {
+    label: "Retrying Shortly...",
+    color: DESIGN_TOKENS.errorRed,
+    progress: 0,
+  },
+  failed: {
     label: "Processing Failed",
     color: DESIGN_TOKENS.errorRed,
     progress: 0,
   },
+  cancelled: {
+    label: "Cancelled",
+    color: DESIGN_TOKENS.lvNavy,
+    progress: 0,
+  },
 };
 
 export function GranularProgressBar({
@@ -46,7 +58,8 @@ export function GranularProgressBar({
   errorMessage,
 }: GranularProgressBarProps) {
   const config = statusConfig[status];
-  const displayProgress = status === "error" ? 0 : Math.max(progress, config.progress);
+  const displayProgress =
+    status === "error" || status === "failed" ? 0 : Math.max(progress, config.progress);
 
   return (
     <div className="w-full space-y-2">
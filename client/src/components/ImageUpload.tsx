@@ -1,18 +1,27 @@
 import { useState, useRef } from "react";
 import { Upload, X, Image as ImageIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import { ASSET_FILE_TYPES } from "@shared/assets";
+
+// The image types the server accepts, see shared/assets.ts
+const ACCEPTED_IMAGE_TYPES = Object.entries(ASSET_FILE_TYPES)
+  .filter(([, fileType]) => fileType.assetType === "photo")
+  .map(([mimeType]) => mimeType);
 
 interface ImageUploadProps {
   onImagesChange: (files: File[]) => void;
   maxFiles?: number;
   maxSizeMB?: number;
+  uploadProgress?: number[]; // Percent uploaded per selected file, while uploading
 }
 
 export default function ImageUpload({ 
   onImagesChange, 
   maxFiles = 5, 
-  maxSizeMB = 10 
+  maxSizeMB = 10,
+  uploadProgress,
 }: ImageUploadProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
@@ -21,8 +30,8 @@ export default function ImageUpload({
 
   const validateFile = (file: File): boolean => {
     // Check file type
-    if (!file.type.startsWith('image/')) {
-      toast.error(`${file.name} is not an image file`);
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast.error(`${file.name} is not a supported image file`);
       return false;
     }
 
@@ -109,7 +118,7 @@ export default function ImageUpload({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
           multiple
           onChange={handleFileInputChange}
           className="hidden"
@@ -126,7 +135,7 @@ export default function ImageUpload({
         </p>
         
         <p className="text-xs text-muted-foreground">
-          Maximum {maxFiles} images • Up to {maxSizeMB}MB each • JPG, PNG, WEBP
+          Maximum {maxFiles} images • Up to {maxSizeMB}MB each • JPG, PNG, WEBP, GIF, AVIF, HEIC
         </p>
       </div>
 
@@ -143,10 +152,17 @@ export default function ImageUpload({
                 />
               </div>
               
+              {uploadProgress?.[index] !== undefined && (
+                <div className="absolute inset-x-2 bottom-9">
+                  <Progress value={uploadProgress[index]} className="h-1.5 bg-white/60" />
+                </div>
+              )}
+
               <Button
                 type="button"
                 variant="destructive"
                 size="icon"
+                disabled={uploadProgress !== undefined}
                 className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
                 onClick={(e) => {
                   e.stopPropagation();
@@ -0,0 +1,76 @@
+import { Clapperboard, Mic, Music, Type } from "lucide-react";
+import { storyboardDurationSeconds, type StoryboardShot } from "@shared/contentPieces";
+
+interface StoryboardTimelineProps {
+  shots: StoryboardShot[];
+}
+
+/**
+ * Shot-by-shot storyboard: a proportional timeline strip plus one row per shot
+ */
+export function StoryboardTimeline({ shots }: StoryboardTimelineProps) {
+  const totalSeconds = storyboardDurationSeconds(shots);
+  let elapsed = 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Timeline strip - each segment's width is its share of the runtime */}
+      <div className="flex h-8 w-full overflow-hidden rounded-md border">
+        {shots.map((shot, index) => (
+          <div
+            key={index}
+            className="flex items-center justify-center border-r last:border-r-0 bg-primary/10 text-xs font-medium text-primary"
+            style={{ width: `${(shot.durationSeconds / totalSeconds) * 100}%` }}
+            title={`Shot ${index + 1}: ${shot.durationSeconds}s`}
+          >
+            {index + 1}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground text-right">
+        {shots.length} shots · {totalSeconds}s total
+      </p>
+
+      <ol className="space-y-3">
+        {shots.map((shot, index) => {
+          const start = elapsed;
+          elapsed += shot.durationSeconds;
+          return (
+            <li key={index} className="rounded-lg border bg-muted/30 p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-sm">Shot {index + 1}</span>
+                <span className="text-xs text-muted-foreground">
+                  {start}s - {elapsed}s ({shot.durationSeconds}s)
+                </span>
+              </div>
+              <div className="grid gap-2 text-sm md:grid-cols-2">
+                <div className="flex items-start gap-2">
+                  <Clapperboard className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                  <span>
+                    {shot.framing} · {shot.cameraMotion}
+                  </span>
+                </div>
+                <div className="flex items-start gap-2">
+                  <Music className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                  <span>{shot.musicCue}</span>
+                </div>
+                {shot.onScreenText && (
+                  <div className="flex items-start gap-2">
+                    <Type className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    <span>{shot.onScreenText}</span>
+                  </div>
+                )}
+                {shot.voiceover && (
+                  <div className="flex items-start gap-2">
+                    <Mic className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    <span>{shot.voiceover}</span>
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { parseStoryboardShots, parseStringList } from "@shared/contentPieces";
+import { diffText } from "@shared/textDiff";
+import type { GeneratedContent } from "@shared/types";
+import { cn } from "@/lib/utils";
+
+type VersionFields = Pick<
+  GeneratedContent,
+  "version" | "storyboardMandarin" | "storyboardShots" | "captionMandarin" | "hashtags" | "coverText"
+>;
+
+interface VersionDiffProps {
+  before: VersionFields;
+  after: VersionFields;
+}
+
+// One line per shot so shot edits line up in the diff
+function describeShots(raw: string | null) {
+  return (parseStoryboardShots(raw) ?? [])
+    .map((shot, index) =>
+      `${index + 1}. ${shot.durationSeconds}s ${shot.framing} · ${shot.cameraMotion} | ${shot.onScreenText} | ${shot.voiceover}`
+    )
+    .join("\n");
+}
+
+function formatHashtags(raw: string | null) {
+  return parseStringList(raw).map((tag) => `#${tag}`).join(" ");
+}
+
+/**
+ * Character-level diff between two versions of a content piece
+ * Only fields that changed are shown.
+ */
+export function VersionDiff({ before, after }: VersionDiffProps) {
+  const fields = [
+    { label: "Cover text", before: before.coverText ?? "", after: after.coverText ?? "" },
+    { label: "Caption", before: before.captionMandarin, after: after.captionMandarin },
+    { label: "Hashtags", before: formatHashtags(before.hashtags), after: formatHashtags(after.hashtags) },
+    { label: "Storyboard", before: before.storyboardMandarin, after: after.storyboardMandarin },
+    { label: "Shots", before: describeShots(before.storyboardShots), after: describeShots(after.storyboardShots) },
+  ].filter((field) => field.before !== field.after);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <p className="text-sm font-semibold">
+        Changes from v{before.version} to v{after.version}
+      </p>
+      {fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes to the copy.</p>
+      ) : (
+        fields.map((field) => (
+          <div key={field.label}>
+            <p className="text-xs font-medium text-muted-foreground mb-1">{field.label}</p>
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+              {diffText(field.before, field.after).map((segment, index) => (
+                <span
+                  key={index}
+                  className={cn(
+                    segment.type === "added" && "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+                    segment.type === "removed" && "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300"
+                  )}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
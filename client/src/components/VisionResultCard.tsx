@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { Copy, Info } from "lucide-react";
 import { DESIGN_TOKENS } from "@/const";
+import type { BrandVisionAnalysis } from "@shared/brandVisionAnalysis";
 import {
   Tooltip,
   TooltipContent,
@@ -8,19 +9,14 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 
-interface ContentPiece {
+export interface ContentPiece {
   storyboardMandarin: string;
   captionMandarin: string;
   explanationEnglish: string;
 }
 
 interface VisionResultCardProps {
-  colors?: {
-    primary: string[];
-    secondary: string[];
-    accent?: string[];
-    description?: string;
-  };
+  colors?: BrandVisionAnalysis["colors"];
   contentPieces?: ContentPiece[];
   isLoading?: boolean;
 }
@@ -38,39 +34,15 @@ export function VisionResultCard({
     setTimeout(() => setCopiedIndex(null), 2000);
   };
 
-  // Parse color hex codes from strings like "White (Purity, Modernity)"
-  const extractHexColor = (colorStr: string): string | null => {
-    // Try to find hex color in the string
-    const hexMatch = colorStr.match(/#[0-9A-F]{6}/i);
-    if (hexMatch) return hexMatch[0];
-
-    // Fallback: map common color names to hex
-    const colorMap: Record<string, string> = {
-      white: "#FFFFFF",
-      black: "#000000",
-      gray: "#808080",
-      red: "#FF0000",
-      blue: "#0000FF",
-      green: "#00FF00",
-      yellow: "#FFFF00",
-      orange: "#FFA500",
-      purple: "#800080",
-      pink: "#FFC0CB",
-      brown: "#A52A2A",
-      navy: "#000080",
-      teal: "#008080",
-      mint: "#98FF98",
-      beige: "#F5F5DC",
-      cream: "#FFFDD0",
-    };
+  // Colors measured from the images (older analyses have none)
+  const palette = colors?.palette ?? [];
 
-    const lowerStr = colorStr.toLowerCase();
-    for (const [name, hex] of Object.entries(colorMap)) {
-      if (lowerStr.includes(name)) return hex;
-    }
-
-    return null;
-  };
+  // Swatch for a color the model listed, e.g. "White (Purity, Modernity)": the measured
+  // color matched to it, or for older analyses the hex code it contains, if any
+  const swatchFor = (color: string): string | null =>
+    palette.length > 0
+      ? (palette.find((measured) => measured.label === color)?.hex ?? null)
+      : (color.match(/#[0-9A-F]{6}\b/i)?.[0] ?? null);
 
   if (isLoading) {
     return (
@@ -108,6 +80,41 @@ export function VisionResultCard({
           </h3>
 
           <div className="space-y-4">
+            {/* Measured Colors */}
+            {palette.length > 0 && (
+              <div>
+                <p
+                  className="text-sm font-medium mb-2"
+                  style={{ color: DESIGN_TOKENS.lvNavy }}
+                >
+                  Measured from Your Images
+                </p>
+                <div className="flex gap-3 flex-wrap">
+                  {palette.map((measured) => (
+                    <div key={measured.hex} className="flex flex-col items-center gap-1">
+                      <div
+                        className="w-12 h-12 rounded-full border-2 shadow-sm"
+                        style={{
+                          backgroundColor: measured.hex,
+                          borderColor: DESIGN_TOKENS.lvTeal,
+                        }}
+                        title={`RGB ${measured.rgb.join(", ")} · HSL ${measured.hsl[0]}° ${measured.hsl[1]}% ${measured.hsl[2]}%`}
+                      />
+                      <span className="text-xs font-medium">{measured.hex}</span>
+                      <span className="text-xs text-center max-w-[72px]">
+                        {measured.name} · {measured.coverage}%
+                      </span>
+                      {measured.role && (
+                        <span className="text-[10px] uppercase" style={{ color: DESIGN_TOKENS.lvTeal }}>
+                          {measured.role}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Primary Colors */}
             {colors.primary && colors.primary.length > 0 && (
               <div>
@@ -119,7 +126,7 @@ export function VisionResultCard({
                 </p>
                 <div className="flex gap-3 flex-wrap">
                   {colors.primary.map((color, idx) => {
-                    const hexColor = extractHexColor(color);
+                    const hexColor = swatchFor(color);
                     return (
                       <div key={idx} className="flex flex-col items-center gap-2">
                         <div
@@ -151,7 +158,7 @@ export function VisionResultCard({
                 </p>
                 <div className="flex gap-3 flex-wrap">
                   {colors.secondary.map((color, idx) => {
-                    const hexColor = extractHexColor(color);
+                    const hexColor = swatchFor(color);
                     return (
                       <div key={idx} className="flex flex-col items-center gap-2">
                         <div
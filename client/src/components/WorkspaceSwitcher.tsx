@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { useLocation } from "wouter";
+import type { useActiveWorkspace } from "@/hooks/useActiveWorkspace";
+
+type WorkspaceSwitcherProps = Pick<
+  ReturnType<typeof useActiveWorkspace>,
+  "workspaces" | "activeWorkspace" | "setActiveWorkspaceId"
+>;
+
+export function WorkspaceSwitcher({ workspaces, activeWorkspace, setActiveWorkspaceId }: WorkspaceSwitcherProps) {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeWorkspace ? activeWorkspace.id.toString() : undefined}
+        onValueChange={(value) => setActiveWorkspaceId(Number(value))}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select a workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id.toString()}>
+              {workspace.name} · {workspace.role}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="icon" onClick={() => setLocation("/workspaces")} title="Manage workspaces">
+        <Users className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
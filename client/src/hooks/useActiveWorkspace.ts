@@ -0,0 +1,32 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+
+const ACTIVE_WORKSPACE_KEY = "activeWorkspaceId";
+
+/**
+ * The workspace new briefs, jobs and lists are scoped to
+ * Remembered across pages; falls back to the user's first owned workspace
+ */
+export function useActiveWorkspace() {
+  const { isAuthenticated } = useAuth();
+  const { data: workspaces, isLoading } = trpc.workspace.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const [selectedId, setSelectedId] = useState<number | null>(() => {
+    const stored = Number(localStorage.getItem(ACTIVE_WORKSPACE_KEY));
+    return Number.isInteger(stored) && stored > 0 ? stored : null;
+  });
+
+  const activeWorkspace =
+    workspaces?.find((workspace) => workspace.id === selectedId) ??
+    workspaces?.find((workspace) => workspace.role === "owner") ??
+    workspaces?.[0];
+
+  const setActiveWorkspaceId = (workspaceId: number) => {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId.toString());
+    setSelectedId(workspaceId);
+  };
+
+  return { workspaces: workspaces ?? [], activeWorkspace, setActiveWorkspaceId, isLoading };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import {
+  contentGenerationEventsPath,
+  type ContentGenerationEvent,
+  type ContentGenerationPieceEvent,
+  type ContentGenerationStatusEvent,
+} from "@shared/contentGenerationEvents";
+import { usePersistFn } from "./usePersistFn";
+
+/**
+ * Follow a streamed content generation over SSE
+ * `pieces` fills in as the server saves each one; `finalStatus` is set once it finishes
+ */
+export function useContentGenerationEvents(
+  inputId: number | undefined,
+  onEvent?: (event: ContentGenerationEvent) => void
+) {
+  const [pieces, setPieces] = useState<ContentGenerationPieceEvent[]>([]);
+  const [finalStatus, setFinalStatus] = useState<ContentGenerationStatusEvent | null>(null);
+  const handleEvent = usePersistFn((event: ContentGenerationEvent) => onEvent?.(event));
+
+  useEffect(() => {
+    setPieces([]);
+    setFinalStatus(null);
+    if (!inputId || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(contentGenerationEventsPath(inputId), { withCredentials: true });
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ContentGenerationEvent;
+
+      if (event.type === "piece") {
+        // Reconnects replay saved pieces
+        setPieces((prev) =>
+          prev.some((piece) => piece.contentId === event.contentId) ? prev : [...prev, event]
+        );
+      } else if (event.status !== "generating") {
+        setFinalStatus(event);
+        // The server ends the stream; stop EventSource from reconnecting
+        source.close();
+      }
+
+      handleEvent(event);
+    };
+
+    return () => source.close();
+  }, [inputId, handleEvent]);
+
+  return { pieces, finalStatus };
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+
+type UploadTarget = { uploadUrl: string; headers: Record<string, string> };
+
+// fetch can't report upload progress, so PUT with XHR
+function putFile(file: File, target: UploadTarget, onProgress: (percent: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", target.uploadUrl);
+    Object.entries(target.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload of ${file.name} failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(file);
+  });
+}
+
+/**
+ * Uploads images straight to storage on presigned URLs, then confirms them with the server
+ * progress holds a percentage per file, in the order they were passed to upload.
+ * upload resolves to each file's key, for the server to refer to it by, and a URL to show
+ * it with; with private storage the URL expires.
+ */
+export function useImageUploads() {
+  const createUploadUrls = trpc.imageUpload.createUploadUrls.useMutation();
+  const confirmUploads = trpc.imageUpload.confirmUploads.useMutation();
+  const [progress, setProgress] = useState<number[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const upload = async (files: File[]): Promise<{ keys: string[]; urls: string[] }> => {
+    setIsUploading(true);
+    setProgress(files.map(() => 0));
+    try {
+      const { uploads } = await createUploadUrls.mutateAsync({
+        files: files.map((file) => ({ fileName: file.name, mimeType: file.type, size: file.size })),
+      });
+      await Promise.all(
+        uploads.map((target, index) =>
+          putFile(files[index], target, (percent) =>
+            setProgress((prev) => prev.map((value, i) => (i === index ? percent : value)))
+          )
+        )
+      );
+      const keys = uploads.map((target) => target.key);
+      const { urls } = await confirmUploads.mutateAsync({ keys });
+      return { keys, urls };
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return { upload, progress, isUploading };
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import {
+  TERMINAL_VISION_JOB_STATUSES,
+  visionJobEventsPath,
+  type VisionJobEvent,
+  type VisionJobStatusEvent,
+} from "@shared/visionJobEvents";
+import { usePersistFn } from "./usePersistFn";
+
+/**
+ * Subscribe to a vision job's SSE stream
+ * `isStreaming` is false while disconnected, so callers can fall back to polling
+ */
+export function useVisionJobEvents(
+  jobId: number | undefined,
+  onEvent?: (event: VisionJobEvent) => void
+) {
+  const [latestStatus, setLatestStatus] = useState<VisionJobStatusEvent | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Bumped to reopen a stream that ended on a terminal status (e.g. after a retry)
+  const [connection, setConnection] = useState(0);
+  const handleEvent = usePersistFn((event: VisionJobEvent) => onEvent?.(event));
+
+  useEffect(() => {
+    if (!jobId || typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+
+    const connect = () => {
+      source = new EventSource(visionJobEventsPath(jobId), { withCredentials: true });
+      source.onopen = () => setIsStreaming(true);
+      // EventSource reconnects by itself; polling covers the gap meanwhile
+      source.onerror = () => setIsStreaming(false);
+      source.onmessage = (message) => {
+        const event = JSON.parse(message.data) as VisionJobEvent;
+
+        if (event.type === "expired") {
+          // Session hit its expiresAt - open a fresh one
+          source?.close();
+          connect();
+          return;
+        }
+
+        if (event.type === "status") {
+          setLatestStatus(event);
+          if (TERMINAL_VISION_JOB_STATUSES.includes(event.status)) {
+            // The server ends the stream; stop EventSource from reconnecting
+            source?.close();
+            setIsStreaming(false);
+          }
+        }
+
+        handleEvent(event);
+      };
+    };
+
+    connect();
+
+    return () => {
+      source?.close();
+      setIsStreaming(false);
+    };
+  }, [jobId, handleEvent, connection]);
+
+  const reconnect = usePersistFn(() => {
+    setLatestStatus(null);
+    setConnection((count) => count + 1);
+  });
+
+  return { latestStatus, isStreaming, reconnect };
+}
@@ -5,14 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Sparkles, ImageIcon } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Sparkles, ImageIcon, Check } from "lucide-react";
 import ImageUpload from "@/components/ImageUpload";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useActiveWorkspace } from "@/hooks/useActiveWorkspace";
+import { useImageUploads } from "@/hooks/useImageUploads";
+import { useContentGenerationEvents } from "@/hooks/useContentGenerationEvents";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
+import { CONTENT_PLATFORMS, PLATFORM_RULES, type ContentPlatform } from "@shared/contentPlatforms";
+
+const PIECE_COUNT = 5; // Pieces per generation, see server/aiContentGenerator.ts
 
 export default function ContentGenerator() {
   const { isAuthenticated, loading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId } = useActiveWorkspace();
   
   const [formData, setFormData] = useState({
     productInfo: "",
@@ -24,19 +34,41 @@ export default function ContentGenerator() {
   });
   
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
+  const [platforms, setPlatforms] = useState<ContentPlatform[]>([...CONTENT_PLATFORMS]);
+
+  const imageUploads = useImageUploads();
 
-  const uploadMutation = trpc.imageUpload.uploadImages.useMutation();
+  const [streamingInputId, setStreamingInputId] = useState<number | undefined>();
 
-  const generateMutation = trpc.contentGeneration.generate.useMutation({
+  const generateMutation = trpc.contentGeneration.generateStreaming.useMutation({
     onSuccess: (data) => {
-      toast.success("Content generated successfully!");
-      setLocation(`/results/${data.inputId}`);
+      setStreamingInputId(data.inputId);
     },
     onError: (error) => {
       toast.error(`Failed to generate content: ${error.message}`);
     },
   });
 
+  const { pieces: streamedPieces, finalStatus } = useContentGenerationEvents(
+    streamingInputId,
+    (event) => {
+      if (event.type !== "status" || !streamingInputId) return;
+      if (event.status === "complete") {
+        toast.success("Content generated successfully!");
+        setLocation(`/results/${streamingInputId}`);
+      } else if (event.status === "failed" && event.pieceCount > 0) {
+        // Pieces saved before the failure are still usable
+        toast.warning(`Generation stopped after ${event.pieceCount} of ${PIECE_COUNT} pieces`);
+        setLocation(`/results/${streamingInputId}`);
+      } else if (event.status === "failed") {
+        toast.error(`Failed to generate content: ${event.errorMessage ?? "Unknown error"}`);
+        setStreamingInputId(undefined);
+      }
+    }
+  );
+
+  const isGenerating = imageUploads.isUploading || generateMutation.isPending || (streamingInputId !== undefined && !finalStatus);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -45,33 +77,17 @@ export default function ContentGenerator() {
       return;
     }
 
+    if (platforms.length === 0) {
+      toast.error("Please choose at least one platform");
+      return;
+    }
+
     // If images are uploaded, upload them to S3 first
     let imageUrls: string[] = [];
     if (uploadedImages.length > 0) {
       try {
-        toast.info("Uploading images...");
-        
-        // Convert images to base64
-        const imageDataPromises = uploadedImages.map(file => {
-          return new Promise<{fileName: string, fileData: string, mimeType: string}>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = () => {
-              resolve({
-                fileName: file.name,
-                fileData: reader.result as string,
-                mimeType: file.type,
-              });
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(file);
-          });
-        });
-        
-        const imageData = await Promise.all(imageDataPromises);
-        
-        // Upload to S3
-        const uploadResult = await uploadMutation.mutateAsync({ images: imageData });
-        imageUrls = uploadResult.urls;
+        // Straight to storage, with per-file progress shown on the previews
+        ({ urls: imageUrls } = await imageUploads.upload(uploadedImages));
         
         toast.success(`${imageUrls.length} images uploaded successfully`);
       } catch (error) {
@@ -81,7 +97,14 @@ export default function ContentGenerator() {
     }
 
     // Generate content with or without images
-    generateMutation.mutate(formData);
+    generateMutation.mutate({ ...formData, platforms, workspaceId: activeWorkspace?.id });
+  };
+
+  const togglePlatform = (platform: ContentPlatform, checked: boolean) => {
+    // Keep CONTENT_PLATFORMS order so pieces are spread predictably
+    setPlatforms(prev =>
+      CONTENT_PLATFORMS.filter(p => (p === platform ? checked : prev.includes(p)))
+    );
   };
 
   const handleChange = (field: keyof typeof formData) => (
@@ -121,6 +144,13 @@ export default function ContentGenerator() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
       <div className="container max-w-4xl py-12">
+        <div className="flex justify-end mb-4">
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeWorkspace={activeWorkspace}
+            setActiveWorkspaceId={setActiveWorkspaceId}
+          />
+        </div>
         <div className="text-center mb-8">
           <div className="inline-flex items-center gap-2 bg-primary/10 text-primary px-4 py-2 rounded-full text-sm font-medium mb-4">
             <Sparkles className="h-4 w-4" />
@@ -161,6 +191,7 @@ export default function ContentGenerator() {
                   onImagesChange={setUploadedImages}
                   maxFiles={5}
                   maxSizeMB={10}
+                  uploadProgress={imageUploads.isUploading ? imageUploads.progress : undefined}
                 />
               </div>
 
@@ -254,17 +285,37 @@ export default function ContentGenerator() {
                 </div>
               </div>
 
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">
+                  Target Platforms <span className="text-destructive">*</span>
+                </Label>
+                <div className="flex flex-wrap gap-6">
+                  {CONTENT_PLATFORMS.map(platform => (
+                    <label key={platform} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={platforms.includes(platform)}
+                        onCheckedChange={(checked) => togglePlatform(platform, checked === true)}
+                      />
+                      {PLATFORM_RULES[platform].label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Each piece is written to its platform's length, hashtag and cover-text conventions.
+                </p>
+              </div>
+
               <div className="pt-4">
                 <Button
                   type="submit"
                   size="lg"
                   className="w-full text-lg h-14"
-                  disabled={generateMutation.isPending}
+                  disabled={isGenerating}
                 >
-                  {generateMutation.isPending ? (
+                  {isGenerating ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Generating Your Content...
+                      Generating Your Content... ({streamedPieces.length}/{PIECE_COUNT})
                     </>
                   ) : (
                     <>
@@ -276,6 +327,23 @@ export default function ContentGenerator() {
                 <p className="text-sm text-muted-foreground text-center mt-3">
                   This usually takes 15-30 seconds. Your content will be saved to your account.
                 </p>
+                {/* Pieces appear here as soon as each one is written and saved */}
+                {streamedPieces.length > 0 && (
+                  <ul className="mt-4 space-y-2">
+                    {streamedPieces.map((piece, index) => (
+                      <li key={piece.contentId} className="flex items-start gap-3 rounded-lg border bg-muted/30 p-3 text-sm">
+                        <Check className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                        <span className="font-medium shrink-0">#{index + 1}</span>
+                        {piece.platform && piece.platform in PLATFORM_RULES && (
+                          <Badge variant="outline" className="shrink-0">
+                            {PLATFORM_RULES[piece.platform as ContentPlatform].label}
+                          </Badge>
+                        )}
+                        <span className="line-clamp-2">{piece.captionMandarin}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </form>
           </CardContent>
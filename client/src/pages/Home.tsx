@@ -1,7 +1,7 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, Sparkles, Globe, Zap, Target, ArrowRight } from "lucide-react";
+import { Loader2, Sparkles, Globe, Zap, Target, ArrowRight, Eye } from "lucide-react";
 import { APP_LOGO, APP_TITLE, getLoginUrl } from "@/const";
 import { useLocation } from "wouter";
 
@@ -37,6 +37,10 @@ export default function Home() {
                 <Button variant="outline" size="sm" onClick={() => logout()}>
                   Logout
                 </Button>
+                <Button variant="outline" size="sm" onClick={() => setLocation("/vision-pipeline")}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  Brand Vision
+                </Button>
                 <Button size="sm" onClick={() => setLocation("/generate")}>
                   <Sparkles className="mr-2 h-4 w-4" />
                   Generate Content
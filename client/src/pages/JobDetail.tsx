@@ -2,9 +2,13 @@ import React, { useEffect } from "react";
 import { useRoute, useLocation } from "wouter";
 import { DESIGN_TOKENS } from "@/const";
 import { GranularProgressBar } from "@/components/GranularProgressBar";
-import { VisionResultCard } from "@/components/VisionResultCard";
+import { VisionResultCard, type ContentPiece } from "@/components/VisionResultCard";
 import { trpc } from "@/lib/trpc";
+import { useVisionJobEvents } from "@/hooks/useVisionJobEvents";
+import { TERMINAL_VISION_JOB_STATUSES } from "@shared/visionJobEvents";
+import { parseBrandVisionAnalysis } from "@shared/brandVisionAnalysis";
 import { Loader } from "lucide-react";
+import { toast } from "sonner";
 
 interface JobDetailPageProps {
   jobId: string;
@@ -14,16 +18,59 @@ export function JobDetailPage() {
   const [, params] = useRoute("/jobs/:id");
   const [, navigate] = useLocation();
   const jobId = params?.id;
+  const utils = trpc.useUtils();
+
+  // Live progress over SSE; stage outputs and terminal states need the full row
+  const { latestStatus, isStreaming, reconnect } = useVisionJobEvents(
+    jobId ? Number(jobId) : undefined,
+    (event) => {
+      if (
+        event.type === "stage_output" ||
+        (event.type === "status" && TERMINAL_VISION_JOB_STATUSES.includes(event.status))
+      ) {
+        utils.visionPipeline.getJobStatus.invalidate({ jobId: Number(jobId) });
+      }
+    }
+  );
 
   // Parse job data from URL or database
   const { data: jobData, isLoading, refetch } = trpc.visionPipeline.getJobStatus.useQuery(
     { jobId: Number(jobId) },
     {
       enabled: !!jobId,
-      refetchInterval: 2000, // Poll every 2 seconds
+      // Poll every 2 seconds only while the stream is unavailable
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        if (isStreaming || (status && TERMINAL_VISION_JOB_STATUSES.includes(status))) {
+          return false;
+        }
+        return 2000;
+      },
     }
   );
 
+  const cancelMutation = trpc.visionPipeline.cancelJob.useMutation({
+    onSuccess: () => {
+      toast.success("Job cancelled");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel job: ${error.message}`);
+    },
+  });
+
+  const retryMutation = trpc.visionPipeline.retryJob.useMutation({
+    onSuccess: () => {
+      toast.success("Job queued for retry");
+      // The previous stream ended on the terminal status
+      reconnect();
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to retry job: ${error.message}`);
+    },
+  });
+
   if (!jobId) {
     return (
       <div className="min-h-screen flex items-center justify-center" style={{ backgroundColor: DESIGN_TOKENS.lvSoftMint }}>
@@ -52,13 +99,10 @@ export function JobDetailPage() {
   }
 
   // Parse outputs
-  let geminOutput: any = null;
-  let contentPieces: any[] = [];
+  const analysis = parseBrandVisionAnalysis(jobData.geminOutput);
+  let contentPieces: ContentPiece[] = [];
 
   try {
-    if (jobData.geminOutput) {
-      geminOutput = JSON.parse(jobData.geminOutput);
-    }
     if (jobData.deepseekOutput) {
       const deepseekData = JSON.parse(jobData.deepseekOutput);
       contentPieces = Array.isArray(deepseekData) ? deepseekData : [];
@@ -72,6 +116,13 @@ export function JobDetailPage() {
       <div className="max-w-4xl mx-auto px-4">
         {/* Header */}
         <div className="mb-8">
+          <button
+            onClick={() => navigate("/jobs")}
+            className="text-sm mb-4 opacity-70 hover:opacity-100"
+            style={{ color: DESIGN_TOKENS.lvNavy }}
+          >
+            ← All jobs
+          </button>
           <h1
             className="text-3xl font-bold mb-2"
             style={{ color: DESIGN_TOKENS.lvNavy }}
@@ -86,9 +137,9 @@ export function JobDetailPage() {
         {/* Progress Bar */}
         <div className="mb-8 p-6 rounded-lg bg-white shadow-sm">
           <GranularProgressBar
-            status={jobData.status as any}
-            progress={jobData.progress || 0}
-            errorMessage={jobData.errorMessage || undefined}
+            status={latestStatus?.status ?? jobData.status}
+            progress={latestStatus?.progress ?? (jobData.progress || 0)}
+            errorMessage={(latestStatus ? latestStatus.errorMessage : jobData.errorMessage) || undefined}
           />
         </div>
 
@@ -96,7 +147,7 @@ export function JobDetailPage() {
         {jobData.status === "complete" && (
           <div className="space-y-6">
             <VisionResultCard
-              colors={geminOutput?.colors}
+              colors={analysis?.colors}
               contentPieces={contentPieces || []}
             />
 
@@ -117,20 +168,33 @@ export function JobDetailPage() {
         )}
 
         {/* Processing State */}
-        {jobData.status !== "complete" && jobData.status !== "error" && (
+        {!TERMINAL_VISION_JOB_STATUSES.includes(jobData.status) && (
           <div className="text-center py-12">
             <Loader className="animate-spin mx-auto mb-4" style={{ color: DESIGN_TOKENS.lvTeal }} size={32} />
             <p style={{ color: DESIGN_TOKENS.lvNavy }} className="text-lg">
               Processing your brand analysis...
             </p>
             <p style={{ color: DESIGN_TOKENS.lvNavy }} className="text-sm opacity-70 mt-2">
-              This may take 30-60 seconds
+              {jobData.status === "error" && jobData.nextAttemptAt
+                ? `Temporary error - retrying at ${new Date(jobData.nextAttemptAt).toLocaleTimeString()}`
+                : "This may take 30-60 seconds"}
             </p>
+            <button
+              onClick={() => cancelMutation.mutate({ jobId: Number(jobId) })}
+              disabled={cancelMutation.isPending}
+              className="mt-6 px-6 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+              style={{
+                border: `1px solid ${DESIGN_TOKENS.lvNavy}`,
+                color: DESIGN_TOKENS.lvNavy,
+              }}
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Job"}
+            </button>
           </div>
         )}
 
-        {/* Error State */}
-        {jobData.status === "error" && (
+        {/* Error / Cancelled State */}
+        {(jobData.status === "failed" || jobData.status === "cancelled") && (
           <div
             className="p-6 rounded-lg text-center"
             style={{ backgroundColor: `${DESIGN_TOKENS.errorRed}20` }}
@@ -139,21 +203,36 @@ export function JobDetailPage() {
               className="text-lg font-semibold mb-2"
               style={{ color: DESIGN_TOKENS.errorRed }}
             >
-              Processing Failed
+              {jobData.status === "cancelled" ? "Job Cancelled" : "Processing Failed"}
             </p>
             <p style={{ color: DESIGN_TOKENS.lvNavy }} className="mb-4">
-              {jobData.errorMessage || "An error occurred during processing"}
+              {jobData.status === "cancelled"
+                ? "Completed stages are kept - retrying resumes from where the job stopped"
+                : jobData.errorMessage || "An error occurred during processing"}
             </p>
-            <button
-              onClick={() => navigate("/vision-pipeline")}
-              className="px-6 py-2 rounded-lg font-medium transition-colors"
-              style={{
-                backgroundColor: DESIGN_TOKENS.lvNavy,
-                color: "white",
-              }}
-            >
-              Try Again
-            </button>
+            <div className="flex justify-center gap-3">
+              <button
+                onClick={() => retryMutation.mutate({ jobId: Number(jobId) })}
+                disabled={retryMutation.isPending}
+                className="px-6 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+                style={{
+                  backgroundColor: DESIGN_TOKENS.lvNavy,
+                  color: "white",
+                }}
+              >
+                {retryMutation.isPending ? "Retrying..." : "Retry Job"}
+              </button>
+              <button
+                onClick={() => navigate("/vision-pipeline")}
+                className="px-6 py-2 rounded-lg font-medium transition-colors"
+                style={{
+                  border: `1px solid ${DESIGN_TOKENS.lvNavy}`,
+                  color: DESIGN_TOKENS.lvNavy,
+                }}
+              >
+                Start New Job
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useActiveWorkspace } from "@/hooks/useActiveWorkspace";
+import { ChevronLeft, ChevronRight, Loader2, Plus } from "lucide-react";
+import { useLocation } from "wouter";
+import type { VisionJob } from "@shared/types";
+
+const PAGE_SIZE = 10;
+
+type JobStatus = VisionJob["status"];
+
+const STATUS_FILTERS: { label: string; statuses?: JobStatus[] }[] = [
+  { label: "All" },
+  { label: "In Progress", statuses: ["pending", "gemini_analyzing", "deepseek_generating", "error"] },
+  { label: "Complete", statuses: ["complete"] },
+  { label: "Failed", statuses: ["failed"] },
+  { label: "Cancelled", statuses: ["cancelled"] },
+];
+
+const STATUS_BADGES: Record<JobStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Queued", variant: "secondary" },
+  gemini_analyzing: { label: "Analysing", variant: "secondary" },
+  deepseek_generating: { label: "Writing Copy", variant: "secondary" },
+  error: { label: "Retrying", variant: "outline" },
+  complete: { label: "Complete", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+};
+
+export default function JobHistory() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId } = useActiveWorkspace();
+  const [filterIndex, setFilterIndex] = useState(0);
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = trpc.visionPipeline.getJobHistory.useQuery(
+    {
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+      statuses: STATUS_FILTERS[filterIndex].statuses,
+      workspaceId: activeWorkspace?.id,
+    },
+    { enabled: isAuthenticated && !!activeWorkspace }
+  );
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / PAGE_SIZE), 1) : 1;
+
+  const selectFilter = (index: number) => {
+    setFilterIndex(index);
+    setPage(0);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Authentication Required</CardTitle>
+            <CardDescription>
+              Please log in to see your vision jobs
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setLocation("/")} className="w-full">
+              Go to Login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container max-w-5xl py-12">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Vision Job History</h1>
+            <p className="text-muted-foreground">
+              Every brand analysis run in this workspace, newest first
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeWorkspace={activeWorkspace}
+              setActiveWorkspaceId={(workspaceId) => {
+                setActiveWorkspaceId(workspaceId);
+                setPage(0);
+              }}
+            />
+            <Button onClick={() => setLocation("/vision-pipeline")}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Analysis
+            </Button>
+          </div>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_FILTERS.map((filter, index) => (
+                <Button
+                  key={filter.label}
+                  size="sm"
+                  variant={index === filterIndex ? "default" : "outline"}
+                  onClick={() => selectFilter(index)}
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-12 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : !data || data.jobs.length === 0 ? (
+              <p className="py-12 text-center text-muted-foreground">
+                No jobs match this filter yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Purpose</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Progress</TableHead>
+                    <TableHead className="text-right">Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.jobs.map((job) => (
+                    <TableRow
+                      key={job.id}
+                      className="cursor-pointer"
+                      onClick={() => setLocation(`/jobs/${job.id}`)}
+                    >
+                      <TableCell className="font-medium">#{job.id}</TableCell>
+                      <TableCell className="max-w-xs truncate">{job.analysisPurpose}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[job.status].variant}>
+                          {STATUS_BADGES[job.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{job.progress}%</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {new Date(job.createdAt).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex items-center justify-between pt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {totalPages}
+                {data ? ` · ${data.total} jobs` : ""}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={page === 0}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={page + 1 >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
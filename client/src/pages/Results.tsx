@@ -4,11 +4,16 @@ import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, ThumbsUp, ThumbsDown, Copy, Check, Sparkles, ChevronDown, ChevronUp } from "lucide-react";
+import { Loader2, ThumbsUp, ThumbsDown, Copy, Check, Sparkles, ChevronDown, ChevronUp, AlertTriangle, Wand2, GitCompare } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { StoryboardTimeline } from "@/components/StoryboardTimeline";
+import { VersionDiff } from "@/components/VersionDiff";
+import { parseStoryboardShots, parseStringList } from "@shared/contentPieces";
+import { CONTENT_PLATFORMS, PLATFORM_RULES } from "@shared/contentPlatforms";
 
 export default function Results() {
   const params = useParams<{ inputId: string }>();
@@ -20,6 +25,8 @@ export default function Results() {
     { enabled: inputId > 0 }
   );
 
+  const utils = trpc.useUtils();
+
   const feedbackMutation = trpc.contentGeneration.submitFeedback.useMutation({
     onSuccess: () => {
       toast.success("Thank you for your feedback!");
@@ -29,6 +36,23 @@ export default function Results() {
   const [copiedId, setCopiedId] = useState<number | null>(null);
   const [expandedExplanations, setExpandedExplanations] = useState<Set<number>>(new Set());
   const [feedbackTexts, setFeedbackTexts] = useState<Record<number, string>>({});
+  // Keyed by the piece's first version id
+  const [selectedVersions, setSelectedVersions] = useState<Record<number, number>>({});
+  const [refineInstructions, setRefineInstructions] = useState<Record<number, string>>({});
+  const [openDiffs, setOpenDiffs] = useState<Set<number>>(new Set());
+
+  const refineMutation = trpc.contentGeneration.refine.useMutation({
+    onSuccess: (refined) => {
+      const rootId = refined.rootId ?? refined.id;
+      setSelectedVersions(prev => ({ ...prev, [rootId]: refined.id }));
+      setRefineInstructions(prev => ({ ...prev, [rootId]: "" }));
+      utils.contentGeneration.getByInputId.invalidate({ inputId });
+      toast.success(`Version ${refined.version} created`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to refine content: ${error.message}`);
+    },
+  });
 
   const handleCopy = async (text: string, id: number) => {
     await navigator.clipboard.writeText(text);
@@ -57,6 +81,50 @@ export default function Results() {
     });
   };
 
+  const toggleDiff = (rootId: number) => {
+    setOpenDiffs(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(rootId)) {
+        newSet.delete(rootId);
+      } else {
+        newSet.add(rootId);
+      }
+      return newSet;
+    });
+  };
+
+  const handleRefine = (contentId: number, rootId: number) => {
+    const instruction = refineInstructions[rootId]?.trim();
+    if (!instruction || instruction.length < 3) {
+      toast.error("Tell us how to change this piece");
+      return;
+    }
+    refineMutation.mutate({ contentId, instruction });
+  };
+
+  // Each piece is its first version; refinements are listed under it
+  const pieces = (content ?? []).filter((item) => item.rootId === null);
+  const versionsOf = (rootId: number) =>
+    (content ?? [])
+      .filter((item) => item.id === rootId || item.rootId === rootId)
+      .sort((a, b) => a.version - b.version);
+
+  // Platform order, then pieces generated before platform targeting
+  const platformGroups = [
+    ...CONTENT_PLATFORMS.map((platform) => ({
+      key: platform,
+      label: PLATFORM_RULES[platform].label,
+      items: pieces.filter((item) => item.platform === platform),
+    })),
+    {
+      key: "general",
+      label: "General",
+      items: pieces.filter(
+        (item) => !(CONTENT_PLATFORMS as readonly (string | null)[]).includes(item.platform)
+      ),
+    },
+  ].filter((group) => group.items.length > 0);
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -106,137 +174,267 @@ export default function Results() {
           </p>
         </div>
 
-        {/* Content Cards */}
-        <div className="space-y-6 mb-8">
-          {content.map((item, index) => (
-            <Card key={item.id} className="shadow-lg hover:shadow-xl transition-shadow">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Badge variant="secondary" className="text-lg px-3 py-1">
-                      #{index + 1}
-                    </Badge>
-                    <CardTitle className="text-xl">Content Piece {index + 1}</CardTitle>
-                  </div>
-                  <Sparkles className="h-5 w-5 text-primary" />
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {/* Storyboard */}
-                <div>
-                  <div className="flex items-center justify-between mb-3">
-                    <h3 className="font-semibold text-base">📹 Visual Storyboard (Mandarin)</h3>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleCopy(item.storyboardMandarin, item.id * 10)}
-                    >
-                      {copiedId === item.id * 10 ? (
-                        <Check className="h-4 w-4" />
-                      ) : (
-                        <Copy className="h-4 w-4" />
+        {/* Content Cards, grouped by platform */}
+        <div className="space-y-10 mb-8">
+          {platformGroups.map((group) => (
+            <section key={group.key} className="space-y-6">
+              <div className="flex items-center gap-3">
+                <h2 className="text-2xl font-bold">{group.label}</h2>
+                <Badge variant="outline">
+                  {group.items.length} {group.items.length === 1 ? "piece" : "pieces"}
+                </Badge>
+              </div>
+              {group.items.map((root) => {
+                const index = pieces.indexOf(root);
+                const versions = versionsOf(root.id);
+                const item = versions.find((version) => version.id === selectedVersions[root.id])
+                  ?? versions[versions.length - 1];
+                const parent = versions.find((version) => version.id === item.parentId);
+                const shots = parseStoryboardShots(item.storyboardShots);
+                const hashtags = parseStringList(item.hashtags);
+                const ruleViolations = parseStringList(item.ruleViolations);
+                return (
+                  <Card key={root.id} className="shadow-lg hover:shadow-xl transition-shadow">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <Badge variant="secondary" className="text-lg px-3 py-1">
+                            #{index + 1}
+                          </Badge>
+                          <CardTitle className="text-xl">Content Piece {index + 1}</CardTitle>
+                        </div>
+                        <Sparkles className="h-5 w-5 text-primary" />
+                      </div>
+                      {versions.length > 1 && (
+                        <div className="flex flex-wrap items-center gap-2 pt-2">
+                          <span className="text-sm text-muted-foreground">Versions:</span>
+                          {versions.map((version) => (
+                            <Button
+                              key={version.id}
+                              size="sm"
+                              variant={version.id === item.id ? "default" : "outline"}
+                              onClick={() => setSelectedVersions(prev => ({ ...prev, [root.id]: version.id }))}
+                              title={version.refineInstruction ?? "Original"}
+                            >
+                              v{version.version}
+                            </Button>
+                          ))}
+                        </div>
                       )}
-                    </Button>
-                  </div>
-                  <div className="bg-muted/50 p-4 rounded-lg">
-                    <p className="text-base leading-relaxed whitespace-pre-wrap">
-                      {item.storyboardMandarin}
-                    </p>
-                  </div>
-                </div>
+                      {item.refineInstruction && (
+                        <CardDescription>
+                          Refined from v{parent?.version ?? 1}: "{item.refineInstruction}"
+                        </CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      {/* Storyboard */}
+                      <div>
+                        <div className="flex items-center justify-between mb-3">
+                          <h3 className="font-semibold text-base">📹 Visual Storyboard (Mandarin)</h3>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCopy(item.storyboardMandarin, item.id * 10)}
+                          >
+                            {copiedId === item.id * 10 ? (
+                              <Check className="h-4 w-4" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        <div className="bg-muted/50 p-4 rounded-lg">
+                          <p className="text-base leading-relaxed whitespace-pre-wrap">
+                            {item.storyboardMandarin}
+                          </p>
+                        </div>
+                        {shots && (
+                          <div className="mt-4">
+                            <StoryboardTimeline shots={shots} />
+                          </div>
+                        )}
+                      </div>
+
+                      <Separator />
+
+                      {/* Caption */}
+                      <div>
+                        <div className="flex items-center justify-between mb-3">
+                          <h3 className="font-semibold text-base">✍️ Caption (Mandarin)</h3>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              handleCopy(
+                                [item.captionMandarin, hashtags.map((tag) => `#${tag}`).join(" ")]
+                                  .filter(Boolean)
+                                  .join("\n\n"),
+                                item.id * 10 + 1
+                              )
+                            }
+                          >
+                            {copiedId === item.id * 10 + 1 ? (
+                              <Check className="h-4 w-4" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        {item.coverText && (
+                          <p className="text-sm text-muted-foreground mb-2">
+                            Cover text: <span className="font-semibold text-foreground">{item.coverText}</span>
+                          </p>
+                        )}
+                        <div className="bg-primary/5 border-l-4 border-primary p-4 rounded-r-lg">
+                          <p className="text-lg font-medium leading-relaxed">
+                            {item.captionMandarin}
+                          </p>
+                          {hashtags.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-3">
+                              {hashtags.map((tag) => (
+                                <Badge key={tag} variant="outline">#{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        {ruleViolations.length > 0 && (
+                          <div className="mt-3 flex gap-2 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                            <ul className="space-y-1">
+                              {ruleViolations.map((violation) => (
+                                <li key={violation}>{violation}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
 
-                <Separator />
+                      {/* English Explanation (Collapsible) */}
+                      <div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleExplanation(item.id)}
+                          className="w-full justify-between hover:bg-muted/50"
+                        >
+                          <span className="font-semibold">💡 Strategy Explanation (English)</span>
+                          {expandedExplanations.has(item.id) ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </Button>
+                        {expandedExplanations.has(item.id) && (
+                          <div className="mt-3 bg-blue-50 dark:bg-blue-950/30 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                              {item.explanationEnglish}
+                            </p>
+                          </div>
+                        )}
+                      </div>
 
-                {/* Caption */}
-                <div>
-                  <div className="flex items-center justify-between mb-3">
-                    <h3 className="font-semibold text-base">✍️ Caption (Mandarin)</h3>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleCopy(item.captionMandarin, item.id * 10 + 1)}
-                    >
-                      {copiedId === item.id * 10 + 1 ? (
-                        <Check className="h-4 w-4" />
-                      ) : (
-                        <Copy className="h-4 w-4" />
+                      {/* Version diff against the version this one was refined from */}
+                      {parent && (
+                        <div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleDiff(root.id)}
+                            className="w-full justify-between hover:bg-muted/50"
+                          >
+                            <span className="font-semibold flex items-center gap-2">
+                              <GitCompare className="h-4 w-4" />
+                              Compare with v{parent.version}
+                            </span>
+                            {openDiffs.has(root.id) ? (
+                              <ChevronUp className="h-4 w-4" />
+                            ) : (
+                              <ChevronDown className="h-4 w-4" />
+                            )}
+                          </Button>
+                          {openDiffs.has(root.id) && (
+                            <div className="mt-3">
+                              <VersionDiff before={parent} after={item} />
+                            </div>
+                          )}
+                        </div>
                       )}
-                    </Button>
-                  </div>
-                  <div className="bg-primary/5 border-l-4 border-primary p-4 rounded-r-lg">
-                    <p className="text-lg font-medium leading-relaxed">
-                      {item.captionMandarin}
-                    </p>
-                  </div>
-                </div>
 
-                {/* English Explanation (Collapsible) */}
-                <div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => toggleExplanation(item.id)}
-                    className="w-full justify-between hover:bg-muted/50"
-                  >
-                    <span className="font-semibold">💡 Strategy Explanation (English)</span>
-                    {expandedExplanations.has(item.id) ? (
-                      <ChevronUp className="h-4 w-4" />
-                    ) : (
-                      <ChevronDown className="h-4 w-4" />
-                    )}
-                  </Button>
-                  {expandedExplanations.has(item.id) && (
-                    <div className="mt-3 bg-blue-50 dark:bg-blue-950/30 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
-                      <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                        {item.explanationEnglish}
-                      </p>
-                    </div>
-                  )}
-                </div>
+                      {/* Refine this version */}
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder='Refine this piece, e.g. "make it more playful" or "shorter caption"'
+                          value={refineInstructions[root.id] || ""}
+                          onChange={(e) =>
+                            setRefineInstructions(prev => ({ ...prev, [root.id]: e.target.value }))
+                          }
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRefine(item.id, root.id);
+                          }}
+                          maxLength={500}
+                          disabled={refineMutation.isPending}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => handleRefine(item.id, root.id)}
+                          disabled={refineMutation.isPending}
+                        >
+                          {refineMutation.isPending && refineMutation.variables?.contentId === item.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <Wand2 className="h-4 w-4 mr-1" />
+                          )}
+                          Refine
+                        </Button>
+                      </div>
 
-                <Separator />
+                      <Separator />
 
-                {/* Feedback Section */}
-                <div className="bg-muted/30 p-4 rounded-lg">
-                  <h4 className="font-semibold mb-3 text-sm">Was this content helpful?</h4>
-                  <div className="flex gap-3 mb-3">
-                    <Button
-                      variant={item.userFeedbackScore === 1 ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => handleFeedback(item.id, 1)}
-                      disabled={feedbackMutation.isPending}
-                      className={cn(
-                        item.userFeedbackScore === 1 && "bg-green-600 hover:bg-green-700"
-                      )}
-                    >
-                      <ThumbsUp className="h-4 w-4 mr-1" />
-                      Helpful
-                    </Button>
-                    <Button
-                      variant={item.userFeedbackScore === -1 ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => handleFeedback(item.id, -1)}
-                      disabled={feedbackMutation.isPending}
-                      className={cn(
-                        item.userFeedbackScore === -1 && "bg-red-600 hover:bg-red-700"
-                      )}
-                    >
-                      <ThumbsDown className="h-4 w-4 mr-1" />
-                      Not Helpful
-                    </Button>
-                  </div>
-                  <Textarea
-                    placeholder="Optional: Tell us how we can improve..."
-                    value={feedbackTexts[item.id] || ""}
-                    onChange={(e) =>
-                      setFeedbackTexts(prev => ({ ...prev, [item.id]: e.target.value }))
-                    }
-                    rows={2}
-                    className="text-sm"
-                  />
-                </div>
-              </CardContent>
-            </Card>
+                      {/* Feedback Section */}
+                      <div className="bg-muted/30 p-4 rounded-lg">
+                        <h4 className="font-semibold mb-3 text-sm">Was this content helpful?</h4>
+                        <div className="flex gap-3 mb-3">
+                          <Button
+                            variant={item.userFeedbackScore === 1 ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => handleFeedback(item.id, 1)}
+                            disabled={feedbackMutation.isPending}
+                            className={cn(
+                              item.userFeedbackScore === 1 && "bg-green-600 hover:bg-green-700"
+                            )}
+                          >
+                            <ThumbsUp className="h-4 w-4 mr-1" />
+                            Helpful
+                          </Button>
+                          <Button
+                            variant={item.userFeedbackScore === -1 ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => handleFeedback(item.id, -1)}
+                            disabled={feedbackMutation.isPending}
+                            className={cn(
+                              item.userFeedbackScore === -1 && "bg-red-600 hover:bg-red-700"
+                            )}
+                          >
+                            <ThumbsDown className="h-4 w-4 mr-1" />
+                            Not Helpful
+                          </Button>
+                        </div>
+                        <Textarea
+                          placeholder="Optional: Tell us how we can improve..."
+                          value={feedbackTexts[item.id] || ""}
+                          onChange={(e) =>
+                            setFeedbackTexts(prev => ({ ...prev, [item.id]: e.target.value }))
+                          }
+                          rows={2}
+                          className="text-sm"
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </section>
           ))}
         </div>
 
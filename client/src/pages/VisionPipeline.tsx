@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Loader2, Eye, History, ImageIcon } from "lucide-react";
+import ImageUpload from "@/components/ImageUpload";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useActiveWorkspace } from "@/hooks/useActiveWorkspace";
+import { useImageUploads } from "@/hooks/useImageUploads";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+const MAX_IMAGES = 10; // Matches the server's per-job image limit
+
+export default function VisionPipeline() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId } = useActiveWorkspace();
+
+  const [formData, setFormData] = useState({
+    analysisPurpose: "",
+    imageContext: "",
+    additionalInstructions: "",
+  });
+  const [creativityLevel, setCreativityLevel] = useState(1.0);
+  const [uploadedImages, setUploadedImages] = useState<File[]>([]);
+
+  const imageUploads = useImageUploads();
+
+  const createJobMutation = trpc.visionPipeline.createJob.useMutation({
+    onSuccess: (data) => {
+      toast.success("Analysis started");
+      setLocation(`/jobs/${data.jobId}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to start analysis: ${error.message}`);
+    },
+  });
+
+  const isSubmitting = imageUploads.isUploading || createJobMutation.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (uploadedImages.length === 0) {
+      toast.error("Please upload at least one image");
+      return;
+    }
+    if (!formData.analysisPurpose.trim()) {
+      toast.error("Please describe what the analysis is for");
+      return;
+    }
+
+    let imageKeys: string[];
+    try {
+      ({ keys: imageKeys } = await imageUploads.upload(uploadedImages));
+    } catch (error) {
+      toast.error(`Failed to upload images: ${error instanceof Error ? error.message : "Please try again."}`);
+      console.error("Image upload error:", error);
+      return;
+    }
+
+    createJobMutation.mutate({
+      imageKeys,
+      workspaceId: activeWorkspace?.id,
+      analysisPurpose: formData.analysisPurpose,
+      imageContext: formData.imageContext || undefined,
+      additionalInstructions: formData.additionalInstructions || undefined,
+      creativityLevel,
+    });
+  };
+
+  const handleChange = (field: keyof typeof formData) => (
+    e: React.ChangeEvent<HTMLTextAreaElement>
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Authentication Required</CardTitle>
+            <CardDescription>
+              Please log in to analyse your brand visuals
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setLocation("/")} className="w-full">
+              Go to Login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container max-w-4xl py-12">
+        <div className="flex justify-end mb-4">
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeWorkspace={activeWorkspace}
+            setActiveWorkspaceId={setActiveWorkspaceId}
+          />
+        </div>
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 bg-primary/10 text-primary px-4 py-2 rounded-full text-sm font-medium mb-4">
+            <Eye className="h-4 w-4" />
+            Brand Vision Pipeline
+          </div>
+          <h1 className="text-4xl font-bold mb-3 bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+            Turn Your Brand Visuals into Mandarin Content
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Upload a logo, product shot or a whole brand kit. We analyse palette, mood and
+            brand personality, then draft Mandarin social content to match.
+          </p>
+          <Button variant="outline" className="mt-4" onClick={() => setLocation("/jobs")}>
+            <History className="mr-2 h-4 w-4" />
+            View Job History
+          </Button>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader>
+            <CardTitle>Start a Vision Analysis</CardTitle>
+            <CardDescription>
+              Several images are analysed together as one brand kit.
+              Analysis runs in the background - you can leave the job page and come back.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2 pb-6 border-b">
+                <div className="flex items-center gap-2 mb-2">
+                  <ImageIcon className="h-5 w-5 text-primary" />
+                  <Label className="text-base font-semibold">
+                    Brand Images <span className="text-destructive">*</span>
+                  </Label>
+                </div>
+                <ImageUpload
+                  onImagesChange={setUploadedImages}
+                  maxFiles={MAX_IMAGES}
+                  maxSizeMB={10}
+                  uploadProgress={imageUploads.isUploading ? imageUploads.progress : undefined}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="analysisPurpose" className="text-base font-semibold">
+                  Analysis Purpose <span className="text-destructive">*</span>
+                </Label>
+                <Textarea
+                  id="analysisPurpose"
+                  placeholder="What is this for? e.g. Douyin launch campaign for our new skincare line"
+                  value={formData.analysisPurpose}
+                  onChange={handleChange("analysisPurpose")}
+                  rows={3}
+                  required
+                  className="resize-none"
+                />
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="imageContext" className="text-base font-semibold">
+                    Context
+                  </Label>
+                  <Textarea
+                    id="imageContext"
+                    placeholder="Who is the audience? Where will the content run?"
+                    value={formData.imageContext}
+                    onChange={handleChange("imageContext")}
+                    rows={3}
+                    className="resize-none"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="additionalInstructions" className="text-base font-semibold">
+                    Additional Instructions
+                  </Label>
+                  <Textarea
+                    id="additionalInstructions"
+                    placeholder="Offers, calls to action or anything the copy must mention"
+                    value={formData.additionalInstructions}
+                    onChange={handleChange("additionalInstructions")}
+                    rows={3}
+                    className="resize-none"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-semibold">Creativity</Label>
+                  <span className="text-sm text-muted-foreground">{creativityLevel.toFixed(1)}</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={[creativityLevel]}
+                  onValueChange={([value]) => setCreativityLevel(value)}
+                />
+              </div>
+
+              <div className="pt-4">
+                <Button
+                  type="submit"
+                  size="lg"
+                  className="w-full text-lg h-14"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Starting Analysis...
+                    </>
+                  ) : (
+                    <>
+                      <Eye className="mr-2 h-5 w-5" />
+                      Analyse My Brand
+                    </>
+                  )}
+                </Button>
+                <p className="text-sm text-muted-foreground text-center mt-3">
+                  Analysis usually takes 30-60 seconds.
+                </p>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useActiveWorkspace } from "@/hooks/useActiveWorkspace";
+import { Loader2, Mail, Plus, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { WORKSPACE_ROLE_LABELS, WORKSPACE_ROLES, type WorkspaceRole } from "@shared/workspaces";
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: WorkspaceRole;
+  onChange: (role: WorkspaceRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WorkspaceRole)} disabled={disabled}>
+      <SelectTrigger className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORKSPACE_ROLES.map((role) => (
+          <SelectItem key={role} value={role} title={WORKSPACE_ROLE_LABELS[role]}>
+            {role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function Workspaces() {
+  const { user, isAuthenticated, loading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId } = useActiveWorkspace();
+
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+
+  const { data: membership } = trpc.workspace.members.useQuery(
+    { workspaceId: activeWorkspace?.id ?? 0 },
+    { enabled: !!activeWorkspace }
+  );
+  const { data: myInvitations } = trpc.workspace.myInvitations.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const refresh = () => {
+    utils.workspace.invalidate();
+  };
+
+  const createMutation = trpc.workspace.create.useMutation({
+    onSuccess: (workspace) => {
+      setNewWorkspaceName("");
+      setActiveWorkspaceId(workspace.id);
+      refresh();
+    },
+    onError,
+  });
+  const inviteMutation = trpc.workspace.invite.useMutation({
+    onSuccess: (invitation) => {
+      setInviteEmail("");
+      toast.success(`Invited ${invitation.email}. They join when they sign in with that email.`);
+      refresh();
+    },
+    onError,
+  });
+  const revokeMutation = trpc.workspace.revokeInvitation.useMutation({ onSuccess: refresh, onError });
+  const roleMutation = trpc.workspace.updateMemberRole.useMutation({ onSuccess: refresh, onError });
+  const removeMutation = trpc.workspace.removeMember.useMutation({ onSuccess: refresh, onError });
+  const acceptMutation = trpc.workspace.acceptInvitation.useMutation({
+    onSuccess: ({ workspaceId }) => {
+      setActiveWorkspaceId(workspaceId);
+      refresh();
+    },
+    onError,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Authentication Required</CardTitle>
+            <CardDescription>
+              Please log in to manage your workspaces
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => setLocation("/")} className="w-full">
+              Go to Login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOwner = membership?.role === "owner";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container max-w-5xl py-12 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Workspaces</h1>
+            <p className="text-muted-foreground">
+              Brands, briefs and vision jobs are shared with everyone in a workspace
+            </p>
+          </div>
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeWorkspace={activeWorkspace}
+            setActiveWorkspaceId={setActiveWorkspaceId}
+          />
+        </div>
+
+        {myInvitations && myInvitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Invitations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {myInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-4">
+                  <span>
+                    <Mail className="inline mr-2 h-4 w-4" />
+                    {invitation.workspaceName} <Badge variant="outline">{invitation.role}</Badge>
+                  </span>
+                  <Button
+                    size="sm"
+                    onClick={() => acceptMutation.mutate({ invitationId: invitation.id })}
+                    disabled={acceptMutation.isPending}
+                  >
+                    Join
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {activeWorkspace && membership && (
+          <Card className="shadow-xl">
+            <CardHeader>
+              <CardTitle>{activeWorkspace.name}</CardTitle>
+              <CardDescription>{WORKSPACE_ROLE_LABELS[membership.role]}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {membership.members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">{member.name ?? "Unnamed user"}</div>
+                        <div className="text-sm text-muted-foreground">{member.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={member.role}
+                          disabled={!isOwner || roleMutation.isPending}
+                          onChange={(role) =>
+                            roleMutation.mutate({ workspaceId: activeWorkspace.id, userId: member.userId, role })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(isOwner || member.userId === user?.id) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={removeMutation.isPending}
+                            onClick={() =>
+                              removeMutation.mutate({ workspaceId: activeWorkspace.id, userId: member.userId })
+                            }
+                          >
+                            {member.userId === user?.id ? "Leave" : "Remove"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {membership.invitations.map((invitation) => (
+                    <TableRow key={`invitation-${invitation.id}`}>
+                      <TableCell>
+                        <div className="text-muted-foreground">{invitation.email}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Invited · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{invitation.role}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => revokeMutation.mutate({ invitationId: invitation.id })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {isOwner && (
+                <form
+                  className="flex flex-wrap gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    inviteMutation.mutate({ workspaceId: activeWorkspace.id, email: inviteEmail, role: inviteRole });
+                  }}
+                >
+                  <Input
+                    type="email"
+                    placeholder="colleague@agency.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="flex-1 min-w-64"
+                  />
+                  <RoleSelect value={inviteRole} onChange={setInviteRole} />
+                  <Button type="submit" disabled={!inviteEmail || inviteMutation.isPending}>
+                    Invite
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">New Workspace</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate({ name: newWorkspaceName });
+              }}
+            >
+              <Input
+                placeholder="Client or team name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+              />
+              <Button type="submit" disabled={!newWorkspaceName.trim() || createMutation.isPending}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
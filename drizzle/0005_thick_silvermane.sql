@@ -0,0 +1 @@
+ALTER TABLE `visionJobs` ADD `visionProvider` varchar(32);
\ No newline at end of file
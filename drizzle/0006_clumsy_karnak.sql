@@ -0,0 +1,5 @@
+ALTER TABLE `brands` ADD `contentProvider` varchar(32);--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `contentProvider` varchar(32);--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `contentModel` varchar(100);--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `contentProvider` varchar(32);--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `contentModel` varchar(100);
\ No newline at end of file
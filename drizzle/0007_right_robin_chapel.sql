@@ -0,0 +1,2 @@
+ALTER TABLE `visionJobs` ADD `lockedBy` varchar(128);--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `lockedUntil` timestamp;
\ No newline at end of file
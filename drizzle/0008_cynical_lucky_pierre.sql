@@ -0,0 +1,3 @@
+ALTER TABLE `visionJobs` MODIFY COLUMN `status` enum('pending','gemini_analyzing','deepseek_generating','complete','error','failed') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `nextAttemptAt` timestamp;--> statement-breakpoint
+UPDATE `visionJobs` SET `status` = 'failed' WHERE `status` = 'error' AND `retryCount` >= `maxRetries`;
\ No newline at end of file
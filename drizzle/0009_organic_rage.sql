@@ -0,0 +1 @@
+ALTER TABLE `visionJobs` MODIFY COLUMN `status` enum('pending','gemini_analyzing','deepseek_generating','complete','error','failed','cancelled') NOT NULL DEFAULT 'pending';
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `visionJobImages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`imageUrl` text NOT NULL,
+	`position` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `visionJobImages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `brandId` int;
\ No newline at end of file
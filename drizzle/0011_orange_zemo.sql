@@ -0,0 +1 @@
+ALTER TABLE `visionJobOutputs` ADD `schemaVersion` int;
\ No newline at end of file
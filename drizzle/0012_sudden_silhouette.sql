@@ -0,0 +1 @@
+ALTER TABLE `generatedContent` ADD `storyboardShots` text;
\ No newline at end of file
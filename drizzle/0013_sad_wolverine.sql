@@ -0,0 +1,4 @@
+ALTER TABLE `generatedContent` ADD `platform` varchar(32);--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `hashtags` text;--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `coverText` text;--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `ruleViolations` text;
\ No newline at end of file
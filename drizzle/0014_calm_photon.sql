@@ -0,0 +1,4 @@
+ALTER TABLE `generatedContent` ADD `parentId` int;--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `rootId` int;--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `version` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `generatedContent` ADD `refineInstruction` text;
\ No newline at end of file
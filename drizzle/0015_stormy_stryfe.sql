@@ -0,0 +1,2 @@
+ALTER TABLE `brandInputs` ADD `generationStatus` enum('generating','complete','failed') DEFAULT 'complete' NOT NULL;--> statement-breakpoint
+ALTER TABLE `brandInputs` ADD `generationError` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `generatedContent` ADD `jsonRepairs` text;
\ No newline at end of file
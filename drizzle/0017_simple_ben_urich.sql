@@ -0,0 +1,2 @@
+ALTER TABLE `brandInputs` ADD `brandId` int;--> statement-breakpoint
+ALTER TABLE `brands` ADD `voiceProfile` text;
\ No newline at end of file
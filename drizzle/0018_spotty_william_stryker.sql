@@ -0,0 +1,42 @@
+CREATE TABLE `workspaceInvitations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`workspaceId` int NOT NULL,
+	`email` varchar(320) NOT NULL,
+	`role` enum('viewer','editor','owner') NOT NULL,
+	`invitedBy` int NOT NULL,
+	`acceptedBy` int,
+	`acceptedAt` timestamp,
+	`expiresAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `workspaceInvitations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `workspaceMembers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`workspaceId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('viewer','editor','owner') NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `workspaceMembers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `workspaceMembers_workspace_user_idx` UNIQUE(`workspaceId`,`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `workspaces` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `workspaces_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `brandInputs` ADD `workspaceId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `brands` ADD `workspaceId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `workspaceId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `visionJobs` ADD `workspaceId` int NOT NULL;--> statement-breakpoint
+INSERT INTO `workspaces` (`name`, `createdBy`) SELECT 'Personal', `id` FROM `users`;--> statement-breakpoint
+INSERT INTO `workspaceMembers` (`workspaceId`, `userId`, `role`) SELECT `id`, `createdBy`, 'owner' FROM `workspaces`;--> statement-breakpoint
+UPDATE `brands` JOIN `workspaces` ON `workspaces`.`createdBy` = `brands`.`userId` SET `brands`.`workspaceId` = `workspaces`.`id`;--> statement-breakpoint
+UPDATE `brandInputs` JOIN `workspaces` ON `workspaces`.`createdBy` = `brandInputs`.`userId` SET `brandInputs`.`workspaceId` = `workspaces`.`id`;--> statement-breakpoint
+UPDATE `conversations` JOIN `workspaces` ON `workspaces`.`createdBy` = `conversations`.`userId` SET `conversations`.`workspaceId` = `workspaces`.`id`;--> statement-breakpoint
+UPDATE `visionJobs` JOIN `workspaces` ON `workspaces`.`createdBy` = `visionJobs`.`userId` SET `visionJobs`.`workspaceId` = `workspaces`.`id`;
@@ -0,0 +1,10 @@
+ALTER TABLE `brandAssets` ADD `storageKey` varchar(512);--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `fileName` varchar(255);--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `byteSize` int;--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `width` int;--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `height` int;--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `contentHash` varchar(64);--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `thumbnailKey` varchar(512);--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `thumbnailUrl` text;--> statement-breakpoint
+ALTER TABLE `brandAssets` ADD `uploadedBy` int;--> statement-breakpoint
+CREATE INDEX `brandAssets_brand_hash_idx` ON `brandAssets` (`brandId`,`contentHash`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `visionJobs` ADD `analysisCacheKey` varchar(64);--> statement-breakpoint
+CREATE INDEX `visionJobs_workspace_cache_idx` ON `visionJobs` (`workspaceId`,`analysisCacheKey`);
\ No newline at end of file
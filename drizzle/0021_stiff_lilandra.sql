@@ -0,0 +1 @@
+ALTER TABLE `visionJobOutputs` ADD `colors_palette` text;
\ No newline at end of file
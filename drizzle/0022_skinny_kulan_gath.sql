@@ -0,0 +1,3 @@
+ALTER TABLE `workspaces` ADD `personalForUserId` int;--> statement-breakpoint
+ALTER TABLE `workspaces` ADD CONSTRAINT `workspaces_personalForUserId_unique` UNIQUE(`personalForUserId`);--> statement-breakpoint
+UPDATE `workspaces` JOIN (SELECT `createdBy`, MIN(`id`) AS `id` FROM `workspaces` WHERE `name` = 'Personal' GROUP BY `createdBy`) AS `personal` ON `personal`.`id` = `workspaces`.`id` SET `workspaces`.`personalForUserId` = `workspaces`.`createdBy`;
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, decimal } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, decimal, index, uniqueIndex } from "drizzle-orm/mysql-core";
+import { WORKSPACE_ROLES } from "../shared/workspaces";
 
 /**
  * Core user table backing auth flow.
@@ -25,15 +26,70 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * Workspaces (organizations)
+ * Brands, briefs, vision jobs and conversations belong to a workspace and are shared by its members
+ */
+export const workspaces = mysqlTable("workspaces", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdBy: int("createdBy").notNull(),
+  // Set only on a user's personal workspace; unique, so each user has exactly one
+  personalForUserId: int("personalForUserId").unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = typeof workspaces.$inferInsert;
+
+/**
+ * Workspace membership with a per-workspace role (shared/workspaces.ts)
+ */
+export const workspaceMembers = mysqlTable("workspaceMembers", {
+  id: int("id").autoincrement().primaryKey(),
+  workspaceId: int("workspaceId").notNull(),
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", WORKSPACE_ROLES).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspaceMembers_workspace_user_idx").on(table.workspaceId, table.userId),
+]);
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = typeof workspaceMembers.$inferInsert;
+
+/**
+ * Pending invitations, matched to the email of the invitee's OAuth login
+ * Accepted on their next sign-in, or from the workspace page if already signed in
+ */
+export const workspaceInvitations = mysqlTable("workspaceInvitations", {
+  id: int("id").autoincrement().primaryKey(),
+  workspaceId: int("workspaceId").notNull(),
+  email: varchar("email", { length: 320 }).notNull(), // Lowercased
+  role: mysqlEnum("role", WORKSPACE_ROLES).notNull(),
+  invitedBy: int("invitedBy").notNull(),
+  acceptedBy: int("acceptedBy"),
+  acceptedAt: timestamp("acceptedAt"),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type InsertWorkspaceInvitation = typeof workspaceInvitations.$inferInsert;
+
 /**
  * Brand profiles for users
  * Stores brand identity and visual assets
  */
 export const brands = mysqlTable("brands", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  workspaceId: int("workspaceId").notNull(),
+  userId: int("userId").notNull(), // Creator
   brandName: varchar("brandName", { length: 255 }).notNull(),
   logoUrl: text("logoUrl"),
+  contentProvider: varchar("contentProvider", { length: 32 }), // null = CONTENT_PROVIDER default
+  voiceProfile: text("voiceProfile"), // JSON BrandVoiceProfile (shared/brandVoice.ts); null = no profile
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -50,9 +106,21 @@ export const brandAssets = mysqlTable("brandAssets", {
   brandId: int("brandId").notNull(),
   assetType: mysqlEnum("assetType", ["photo", "video"]).notNull(),
   storageUrl: text("storageUrl").notNull(),
-  mimeType: varchar("mimeType", { length: 100 }),
+  mimeType: varchar("mimeType", { length: 100 }), // Sniffed from the file's bytes (server/fileType.ts)
+  // Set for assets ingested by server/assetIngest.ts; null on assets registered by URL before it
+  storageKey: varchar("storageKey", { length: 512 }),
+  fileName: varchar("fileName", { length: 255 }),
+  byteSize: int("byteSize"),
+  width: int("width"), // Images only, after EXIF rotation
+  height: int("height"),
+  contentHash: varchar("contentHash", { length: 64 }), // SHA-256 hex; re-uploads to a brand return the existing asset
+  thumbnailKey: varchar("thumbnailKey", { length: 512 }),
+  thumbnailUrl: text("thumbnailUrl"),
+  uploadedBy: int("uploadedBy"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => [
+  index("brandAssets_brand_hash_idx").on(table.brandId, table.contentHash),
+]);
 
 export type BrandAsset = typeof brandAssets.$inferSelect;
 export type InsertBrandAsset = typeof brandAssets.$inferInsert;
@@ -63,13 +131,18 @@ export type InsertBrandAsset = typeof brandAssets.$inferInsert;
  */
 export const brandInputs = mysqlTable("brandInputs", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  workspaceId: int("workspaceId").notNull(), // Access to its generatedContent follows this
+  userId: int("userId").notNull(), // Creator
+  brandId: int("brandId"), // Whose voice profile conditioned the generation and its refinements
   productInfo: text("productInfo").notNull(),
   sellingPoints: text("sellingPoints").notNull(),
   targetAudience: text("targetAudience"),
   painPoints: text("painPoints"),
   scenarios: text("scenarios"),
   ctaOffer: text("ctaOffer"),
+  // Streamed generations save pieces as they arrive; "failed" may still have some
+  generationStatus: mysqlEnum("generationStatus", ["generating", "complete", "failed"]).default("complete").notNull(),
+  generationError: text("generationError"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -84,11 +157,24 @@ export const generatedContent = mysqlTable("generatedContent", {
   id: int("id").autoincrement().primaryKey(),
   inputId: int("inputId").notNull(),
   userId: int("userId").notNull(),
+  // Refinements: every version of a piece shares the first version's id as rootId
+  parentId: int("parentId"), // Version this one was refined from; null for generated pieces
+  rootId: int("rootId"), // null on the first version itself
+  version: int("version").default(1).notNull(),
+  refineInstruction: text("refineInstruction"),
+  platform: varchar("platform", { length: 32 }), // ContentPlatform; null for pieces that predate platform targeting
   storyboardMandarin: text("storyboardMandarin").notNull(),
+  storyboardShots: text("storyboardShots"), // JSON StoryboardShot[]; null for pieces that predate structured storyboards
   captionMandarin: text("captionMandarin").notNull(),
+  hashtags: text("hashtags"), // JSON string[]
+  coverText: text("coverText"),
+  ruleViolations: text("ruleViolations"), // JSON string[] from checkPlatformRules
+  jsonRepairs: text("jsonRepairs"), // JSON JsonRepair[] applied to the model output; [] when it parsed as-is
   explanationEnglish: text("explanationEnglish").notNull(),
   userFeedbackScore: int("userFeedbackScore"), // 1 for thumbs up, -1 for thumbs down
   userFeedbackText: text("userFeedbackText"),
+  contentProvider: varchar("contentProvider", { length: 32 }),
+  contentModel: varchar("contentModel", { length: 100 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -102,7 +188,8 @@ export type InsertGeneratedContent = typeof generatedContent.$inferInsert;
  */
 export const conversations = mysqlTable("conversations", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  workspaceId: int("workspaceId").notNull(),
+  userId: int("userId").notNull(), // Creator
   brandId: int("brandId"),
   messageLog: text("messageLog").notNull(), // JSON array of messages
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -115,20 +202,28 @@ export type InsertConversation = typeof conversations.$inferInsert;
 /**
  * Brand Vision Pipeline - Job Queue
  * Tracks asynchronous vision analysis and content generation jobs
- * Status flow: pending → gemini_analyzing → deepseek_generating → complete (or error)
+ * Status flow: pending → gemini_analyzing → deepseek_generating → complete
+ * Failures go to error (retry scheduled at nextAttemptAt) or failed (permanent / retries exhausted)
+ * Users can move active jobs to cancelled, and failed / cancelled jobs back to pending
  */
 export const visionJobs = mysqlTable("visionJobs", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
-  imageUrl: text("imageUrl").notNull(),
+  workspaceId: int("workspaceId").notNull(),
+  userId: int("userId").notNull(), // Creator
+  brandId: int("brandId"), // Set when the job analyses a brand kit
+  imageUrl: text("imageUrl").notNull(), // First image; the full set lives in visionJobImages
   imageContext: text("imageContext"),
   analysisPurpose: text("analysisPurpose").notNull(),
   outputFormat: varchar("outputFormat", { length: 50 }).notNull(),
   creativityLevel: decimal("creativityLevel", { precision: 2, scale: 1 }).default("1.0").notNull(),
   additionalInstructions: text("additionalInstructions"),
-  status: mysqlEnum("status", ["pending", "gemini_analyzing", "deepseek_generating", "complete", "error"]).default("pending").notNull(),
+  visionProvider: varchar("visionProvider", { length: 32 }), // null = VISION_PROVIDER default
+  contentProvider: varchar("contentProvider", { length: 32 }), // null = CONTENT_PROVIDER default
+  contentModel: varchar("contentModel", { length: 100 }), // Recorded once content is generated
+  status: mysqlEnum("status", ["pending", "gemini_analyzing", "deepseek_generating", "complete", "error", "failed", "cancelled"]).default("pending").notNull(),
   progress: int("progress").default(0).notNull(),
   geminOutput: text("geminOutput"),
+  analysisCacheKey: varchar("analysisCacheKey", { length: 64 }), // Set with geminOutput; see visionAnalysisCacheKey
   deepseekOutput: text("deepseekOutput"),
   geminAnalyzedAt: timestamp("geminAnalyzedAt"),
   deepseekGeneratedAt: timestamp("deepseekGeneratedAt"),
@@ -137,13 +232,34 @@ export const visionJobs = mysqlTable("visionJobs", {
   errorStage: varchar("errorStage", { length: 50 }),
   retryCount: int("retryCount").default(0).notNull(),
   maxRetries: int("maxRetries").default(3).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt"), // Earliest time an errored job may be retried
+  lockedBy: varchar("lockedBy", { length: 128 }), // Worker instance holding the lease
+  lockedUntil: timestamp("lockedUntil"), // Lease expiry; expired leases can be reclaimed
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => [
+  index("visionJobs_workspace_cache_idx").on(table.workspaceId, table.analysisCacheKey),
+]);
 
 export type VisionJob = typeof visionJobs.$inferSelect;
 export type InsertVisionJob = typeof visionJobs.$inferInsert;
 
+/**
+ * Brand Vision Pipeline - Job Images
+ * Every image a job analyses, in the order they are sent to the vision model
+ * Per-image notes in the analysis refer to `position`
+ */
+export const visionJobImages = mysqlTable("visionJobImages", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull(),
+  imageUrl: text("imageUrl").notNull(),
+  position: int("position").notNull(), // 1-based
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type VisionJobImage = typeof visionJobImages.$inferSelect;
+export type InsertVisionJobImage = typeof visionJobImages.$inferInsert;
+
 /**
  * Brand Vision Pipeline - Job Sessions
  * Tracks active SSE connections for real-time progress updates
@@ -169,9 +285,11 @@ export const visionJobOutputs = mysqlTable("visionJobOutputs", {
   id: int("id").autoincrement().primaryKey(),
   jobId: int("jobId").notNull(),
   userId: int("userId").notNull(),
+  schemaVersion: int("schemaVersion"), // BRAND_VISION_SCHEMA_VERSION the analysis validated against; null = unvalidated
   colors_primary: text("colors_primary"),
   colors_secondary: text("colors_secondary"),
   colors_description: text("colors_description"),
+  colors_palette: text("colors_palette"), // JSON PaletteColor[] measured from the pixels
   mood: varchar("mood", { length: 255 }),
   tone: varchar("tone", { length: 255 }),
   composition_layout: text("composition_layout"),
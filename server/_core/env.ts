@@ -7,4 +7,16 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  storageDriver: process.env.STORAGE_DRIVER ?? "r2",
+  // Private buckets: files are only readable through signed URLs that expire
+  storagePrivate: process.env.STORAGE_PRIVATE === "true",
+  // Local storage driver: where files are kept, and the origin their URLs point at
+  // (left empty, the server fills in the port it actually bound)
+  localStorageDir: process.env.LOCAL_STORAGE_DIR ?? "local-storage",
+  localStorageBaseUrl: process.env.LOCAL_STORAGE_BASE_URL ?? "",
+  visionProvider: process.env.VISION_PROVIDER ?? "gemini",
+  contentProvider: process.env.CONTENT_PROVIDER ?? "deepseek",
+  // Per-stage deadlines for the vision job worker
+  visionStageTimeoutMs: Number(process.env.VISION_STAGE_TIMEOUT_MS) || 90 * 1000,
+  contentStageTimeoutMs: Number(process.env.CONTENT_STAGE_TIMEOUT_MS) || 120 * 1000,
 };
@@ -1,13 +1,22 @@
 import "dotenv/config";
 import express from "express";
 import { createServer } from "http";
-import net from "net";
+import net, { type AddressInfo } from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
+import { registerVisionJobEventRoutes } from "../visionJobStream";
+import { registerContentGenerationEventRoutes } from "../contentGenerationStream";
+import { startJobQueueWorker, stopJobQueueWorker } from "../visionJobWorker";
+import { getStorageDriverName } from "../storage";
+import { registerLocalStorageRoutes } from "../storageLocal";
 import { createContext } from "./context";
+import { ENV } from "./env";
 import { serveStatic, setupVite } from "./vite";
 
+// Past this, shutdown gives up on jobs and sockets that are still open rather than wait for SIGKILL
+const SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
     const server = net.createServer();
@@ -30,11 +39,19 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
-  // Configure body parser with larger size limit for file uploads
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  // Files are uploaded straight to storage (server/directUpload.ts), so requests stay small
+  app.use(express.json({ limit: "1mb" }));
+  app.use(express.urlencoded({ limit: "1mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Vision job progress stream under /api/vision-jobs/:id/events
+  registerVisionJobEventRoutes(app);
+  // Streamed content pieces under /api/content-generations/:inputId/events
+  registerContentGenerationEventRoutes(app);
+  // Uploads and downloads under /api/local-storage when files are kept on this machine
+  if (getStorageDriverName() === "local") {
+    registerLocalStorageRoutes(app);
+  }
   // tRPC API
   app.use(
     "/api/trpc",
@@ -57,8 +74,37 @@ async function startServer() {
     console.log(`Port ${preferredPort} is busy, using port ${port} instead`);
   }
 
-  server.listen(port, () => {
-    console.log(`Server running on http://localhost:${port}/`);
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  const boundPort = (server.address() as AddressInfo).port;
+  console.log(`Server running on http://localhost:${boundPort}/`);
+
+  // Local storage URLs point back at this server; set before the worker signs any
+  if (!ENV.localStorageBaseUrl) ENV.localStorageBaseUrl = `http://localhost:${boundPort}`;
+
+  // The worker publishes progress to SSE clients connected to this process
+  startJobQueueWorker();
+
+  let shuttingDown = false;
+  process.on("SIGTERM", async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log("[Server] SIGTERM received, shutting down...");
+
+    setTimeout(() => {
+      console.error("[Server] Shutdown timed out, exiting");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    server.close();
+    try {
+      // Aborts running jobs and releases their leases for another instance
+      await stopJobQueueWorker();
+    } catch (error) {
+      console.error("[Server] Failed to stop the job worker:", error);
+    }
+    // SSE progress streams and Vite HMR sockets stay open for up to an hour; close() alone waits for them
+    server.closeAllConnections();
+    process.exit(0);
   });
 }
 
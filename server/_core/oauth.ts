@@ -36,6 +36,18 @@ export function registerOAuthRoutes(app: Express) {
         lastSignedIn: new Date(),
       });
 
+      // Join the workspaces this login's email was invited to; never blocks sign-in
+      try {
+        const user = await db.getUserByOpenId(userInfo.openId);
+        if (user?.email) {
+          for (const invitation of await db.getPendingInvitationsForEmail(user.email)) {
+            await db.acceptWorkspaceInvitation(invitation, user.id);
+          }
+        }
+      } catch (error) {
+        console.error("[OAuth] Failed to accept workspace invitations", error);
+      }
+
       const sessionToken = await sdk.createSessionToken(userInfo.openId, {
         name: userInfo.name || "",
         expiresInMs: ONE_YEAR_MS,
@@ -0,0 +1,9 @@
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA
+  }
+
+  export default function decode(input: { buffer: Uint8Array }): Promise<DecodedImage>;
+}
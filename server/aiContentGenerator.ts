@@ -3,6 +3,32 @@
  * Integrates DeepSeek for Mandarin content generation and Gemini for visual analysis
  */
 
+import { z } from "zod";
+import {
+  generatedContentPieceSchema,
+  STORYBOARD_MAX_SECONDS,
+  STORYBOARD_MIN_SECONDS,
+  type GeneratedContentPiece,
+} from "@shared/contentPieces";
+import {
+  checkPlatformRules,
+  CONTENT_PLATFORMS,
+  PLATFORM_RULES,
+  type ContentPlatform,
+} from "@shared/contentPlatforms";
+import {
+  findForbiddenTerms,
+  parseBrandVoiceProfile,
+  TONE_SLIDERS,
+  type BrandVoiceProfile,
+  type ToneSlider,
+} from "@shared/brandVoice";
+import type { Brand } from "../drizzle/schema";
+import { completionChunks, getContentProvider, type ContentProvider } from "./contentProviders";
+import { createJsonArrayStreamParser } from "./jsonStream";
+import { completeJson, parseLlmJson, type JsonExtraction, type JsonRepair } from "./llmJson";
+import { StageValidationError } from "./visionJobRetry";
+
 interface ContentGenerationInput {
   productInfo: string;
   sellingPoints: string;
@@ -10,120 +36,241 @@ interface ContentGenerationInput {
   painPoints?: string;
   scenarios?: string;
   ctaOffer?: string;
+  platforms?: ContentPlatform[]; // Defaults to every platform
+  brandVoice?: BrandVoice;
 }
 
-interface GeneratedContentPiece {
-  storyboardMandarin: string;
-  captionMandarin: string;
-  explanationEnglish: string;
+export interface BrandVoice {
+  brandName: string;
+  profile: BrandVoiceProfile;
 }
 
 /**
- * Generate Mandarin brand content using DeepSeek
+ * The voice to generate in for a brand, if it has a profile
  */
-export async function generateMandarinContent(
-  input: ContentGenerationInput
-): Promise<GeneratedContentPiece[]> {
-  const apiKey = process.env.DEEPSEEK_API_KEY;
-  if (!apiKey) {
-    throw new Error("DEEPSEEK_API_KEY is not configured");
-  }
+export function getBrandVoice(brand: Brand | undefined): BrandVoice | undefined {
+  const profile = parseBrandVoiceProfile(brand?.voiceProfile);
+  return brand && profile ? { brandName: brand.brandName, profile } : undefined;
+}
 
-  const prompt = buildContentGenerationPrompt(input);
+const PIECE_COUNT = 5;
 
-  try {
-    const response = await fetch("https://api.deepseek.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content: `You are a world-class brand content strategist specializing in creating culturally-aware Mandarin marketing content for wellness brands entering the Chinese market. Your expertise includes:
+// Keys of one content piece, shared by the generation and refinement prompts
+const PIECE_KEYS = `- platform: "wechat" | "douyin" | "xiaohongshu" (the platform assigned to this piece)
+- storyboardMandarin: string (visual description in Mandarin)
+- storyboardShots: array of shots in order, each with:
+  - durationSeconds: number (all shots together MUST add up to ${STORYBOARD_MIN_SECONDS}-${STORYBOARD_MAX_SECONDS} seconds)
+  - framing: string (e.g. close-up, medium, wide)
+  - cameraMotion: string (e.g. static, slow push-in, pan left)
+  - onScreenText: string (Mandarin, "" if none)
+  - voiceover: string (Mandarin, "" if none)
+  - musicCue: string
+- captionMandarin: string (caption in Mandarin, without hashtags, within the platform's length limit)
+- hashtags: string[] (Mandarin hashtags without the # sign, within the platform's hashtag limit)
+- coverText: string (Mandarin cover title within the platform's limit, "" if the platform has none)
+- explanationEnglish: string (cultural strategy explanation in English)
+
+Never use absolute or medical claims banned by Chinese advertising law (e.g. 最好, 第一, 国家级, 根治, 治愈).`;
+
+const CONTENT_SYSTEM_PROMPT = `You are a world-class brand content strategist specializing in creating culturally-aware Mandarin marketing content for wellness brands entering the Chinese market. Your expertise includes:
 - Understanding Chinese consumer psychology and cultural nuances
 - Creating compelling visual storyboards for short-form video content
 - Writing persuasive, authentic Mandarin copywriting that resonates with Chinese audiences
 - Adapting Western wellness brand values to align with Chinese cultural preferences
 
 You will generate 5 distinct pieces of content, each with:
-1. A storyboard concept (visual description for a 15-30 second video or image series)
-2. A Mandarin caption (50-150 characters, optimized for WeChat/Douyin)
-3. An English explanation of the cultural strategy and why this approach works
+1. A target platform, with copy written to that platform's limits and conventions
+2. A storyboard concept (visual description for a ${STORYBOARD_MIN_SECONDS}-${STORYBOARD_MAX_SECONDS} second video or image series)
+3. A shot-by-shot storyboard that a video editor can cut from directly
+4. A Mandarin caption, hashtags and cover text for that platform
+5. An English explanation of the cultural strategy and why this approach works
 
 CRITICAL: You MUST respond with ONLY a valid JSON array containing exactly 5 objects. No markdown, no code blocks, no additional text. Just the raw JSON array.
 
 Each object must have these exact keys:
-- storyboardMandarin: string (visual description in Mandarin)
-- captionMandarin: string (50-150 character caption in Mandarin)
-- explanationEnglish: string (cultural strategy explanation in English)
+${PIECE_KEYS}
 
 Example format:
 [
   {
+    "platform": "douyin",
     "storyboardMandarin": "...",
+    "storyboardShots": [
+      { "durationSeconds": 4, "framing": "close-up", "cameraMotion": "slow push-in", "onScreenText": "...", "voiceover": "...", "musicCue": "..." },
+      ... (more shots)
+    ],
     "captionMandarin": "...",
+    "hashtags": ["...", "..."],
+    "coverText": "...",
     "explanationEnglish": "..."
   },
   ... (4 more objects)
-]`
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 4000
-      }),
-    });
+]`;
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`DeepSeek API error: ${JSON.stringify(errorData)}`);
-    }
+const REFINE_SYSTEM_PROMPT = `You are a world-class brand content strategist revising one piece of Mandarin marketing content for a wellness brand entering the Chinese market.
 
-    const data = await response.json();
-    const contentText = data.choices[0]?.message?.content;
-    
-    if (!contentText) {
-      console.error("DeepSeek response structure:", JSON.stringify(data, null, 2));
-      throw new Error("No content generated from DeepSeek");
-    }
-    
-    console.log("Raw DeepSeek response:", contentText.substring(0, 500));
-
-    // Parse the JSON response, stripping any markdown code blocks
-    let cleanedContent = contentText.trim();
-    
-    // Remove markdown code blocks if present
-    if (cleanedContent.startsWith('```')) {
-      cleanedContent = cleanedContent.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
+Apply the editor's instruction to the current version of the piece. Keep everything the instruction does not ask you to change, keep the same target platform, and keep the copy within that platform's limits.
+
+CRITICAL: You MUST respond with ONLY a single valid JSON object. No markdown, no code blocks, no additional text.
+
+The object must have these exact keys:
+${PIECE_KEYS}`;
+
+type ContentPieceFields = z.infer<typeof generatedContentPieceSchema>;
+
+// Only the first PIECE_COUNT pieces are kept, so extras are never validated
+const generatedPiecesSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? value.slice(0, PIECE_COUNT) : value),
+  z.array(generatedContentPieceSchema).min(1)
+);
+
+// Some models still answer a refinement with a one-element array
+const refinedPieceSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? value[0] : value),
+  generatedContentPieceSchema
+);
+
+// Platform and brand voice rules are reported per piece rather than failing the whole batch
+function withRuleChecks(
+  piece: ContentPieceFields,
+  jsonRepairs: JsonRepair[],
+  brandVoice?: BrandVoice
+): GeneratedContentPiece {
+  const hashtags = piece.hashtags.map((tag) => tag.replace(/^#/, ""));
+  const ruleViolations = checkPlatformRules({ ...piece, hashtags });
+
+  if (brandVoice) {
+    const forbidden = findForbiddenTerms(brandVoice.profile, [piece.captionMandarin, piece.coverText, ...hashtags]);
+    if (forbidden.length > 0) {
+      ruleViolations.push(`Terms ${brandVoice.brandName} never uses: ${forbidden.join(", ")}`);
     }
-    
-    const parsedContent = JSON.parse(cleanedContent);
-    
-    // Handle both array and object with "content" key formats
-    const contentArray = Array.isArray(parsedContent) 
-      ? parsedContent 
-      : (parsedContent.content || parsedContent.contents || []);
-
-    if (!Array.isArray(contentArray) || contentArray.length === 0) {
-      console.error("Parsed content structure:", JSON.stringify(parsedContent, null, 2));
-      console.error("Content array:", contentArray);
-      throw new Error(`Invalid content format from DeepSeek. Expected array, got: ${typeof parsedContent}`);
+  }
+
+  return { ...piece, hashtags, ruleViolations, jsonRepairs };
+}
+
+/**
+ * Generate Mandarin brand content using the given provider (DeepSeek by default)
+ */
+export async function generateMandarinContent(
+  input: ContentGenerationInput,
+  provider: ContentProvider = getContentProvider(),
+  signal?: AbortSignal
+): Promise<GeneratedContentPiece[]> {
+  const prompt = buildContentGenerationPrompt(input);
+
+  try {
+    const { value: pieces, repairs } = await completeJson(
+      provider,
+      {
+        systemPrompt: CONTENT_SYSTEM_PROMPT,
+        userPrompt: prompt,
+        temperature: 0.7,
+        maxTokens: 4000,
+        signal,
+      },
+      generatedPiecesSchema,
+      { stage: "deepseek", expectArray: true }
+    );
+    if (repairs.length > 0) {
+      console.warn(`Repaired ${provider.name} content JSON: ${repairs.join(", ")}`);
     }
 
-    return contentArray.slice(0, 5); // Ensure we return exactly 5 pieces
+    return pieces.map((piece, index) =>
+      withRuleChecks({ ...piece, platform: assignedPlatform(input, index) }, repairs, input.brandVoice)
+    );
   } catch (error) {
     console.error("Error generating Mandarin content:", error);
     throw error;
   }
 }
 
+/**
+ * Generate Mandarin brand content, handing each piece to onPiece as soon as the model finishes it
+ * Invalid pieces are skipped rather than failing the batch, so pieces delivered before an
+ * error stay usable. Resolves with the number of pieces delivered.
+ */
+export async function streamMandarinContent(
+  input: ContentGenerationInput,
+  onPiece: (piece: GeneratedContentPiece, index: number) => Promise<void> | void,
+  provider: ContentProvider = getContentProvider(),
+  signal?: AbortSignal
+): Promise<number> {
+  const chunks = completionChunks(provider, {
+    systemPrompt: CONTENT_SYSTEM_PROMPT,
+    userPrompt: buildContentGenerationPrompt(input),
+    temperature: 0.7,
+    maxTokens: 4000,
+    signal,
+  });
+  const parser = createJsonArrayStreamParser();
+  let received = 0;
+  let delivered = 0;
+
+  for await (const chunk of chunks) {
+    for (const elementText of parser.push(chunk)) {
+      if (received === PIECE_COUNT) break;
+      received++;
+
+      let extracted: JsonExtraction<ContentPieceFields>;
+      try {
+        extracted = parseLlmJson(elementText, generatedContentPieceSchema, { stage: "deepseek" });
+      } catch (error) {
+        console.warn(`Skipping piece ${received} from ${provider.name}:`, error);
+        continue;
+      }
+
+      // Pinned by position in the response, so a skipped piece does not shift the rest
+      const piece = { ...extracted.value, platform: assignedPlatform(input, received - 1) };
+      await onPiece(withRuleChecks(piece, extracted.repairs, input.brandVoice), delivered++);
+    }
+
+    // Stop reading once the batch is complete
+    if (received === PIECE_COUNT || parser.done) break;
+  }
+
+  if (delivered === 0) {
+    throw new StageValidationError("deepseek", `No valid content pieces in the ${provider.name} response`);
+  }
+
+  return delivered;
+}
+
+/**
+ * Rewrite one content piece following an editor's instruction
+ * The original brief is resent so the revision stays grounded in the product
+ */
+export async function refineContentPiece(
+  input: ContentGenerationInput,
+  piece: ContentPieceFields,
+  instruction: string,
+  provider: ContentProvider = getContentProvider(),
+  signal?: AbortSignal
+): Promise<GeneratedContentPiece> {
+  const prompt = buildRefinePrompt(input, piece, instruction);
+
+  try {
+    const { value: refined, repairs } = await completeJson(
+      provider,
+      {
+        systemPrompt: REFINE_SYSTEM_PROMPT,
+        userPrompt: prompt,
+        temperature: 0.7,
+        maxTokens: 2000,
+        signal,
+      },
+      refinedPieceSchema,
+      { stage: "deepseek" }
+    );
+
+    // A revision never moves the piece to another platform
+    return withRuleChecks({ ...refined, platform: piece.platform }, repairs, input.brandVoice);
+  } catch (error) {
+    console.error("Error refining content piece:", error);
+    throw error;
+  }
+}
+
 /**
  * Analyze brand visual assets using Gemini
  */
@@ -193,12 +340,10 @@ Provide your analysis in English, formatted as a clear, structured summary.`
 }
 
 /**
- * Build the content generation prompt from user inputs
+ * Build the product brief shared by the generation and refinement prompts
  */
-function buildContentGenerationPrompt(input: ContentGenerationInput): string {
-  let prompt = `Generate 5 distinct Mandarin brand content pieces for the following wellness product/brand:\n\n`;
-  
-  prompt += `**Product Information:**\n${input.productInfo}\n\n`;
+function buildBriefSection(input: ContentGenerationInput): string {
+  let prompt = `**Product Information:**\n${input.productInfo}\n\n`;
   prompt += `**Key Selling Points:**\n${input.sellingPoints}\n\n`;
   
   if (input.targetAudience) {
@@ -217,7 +362,121 @@ function buildContentGenerationPrompt(input: ContentGenerationInput): string {
     prompt += `**Promotional Offer/CTA:**\n${input.ctaOffer}\n\n`;
   }
 
-  prompt += `\nCreate 5 unique content pieces that would work well on Chinese social media platforms (WeChat, Douyin, Xiaohongshu). Each piece should have a different angle or approach to appeal to various segments of the target audience.`;
+  if (input.brandVoice) {
+    prompt += buildBrandVoiceSection(input.brandVoice);
+  }
+
+  return prompt;
+}
+
+// "leans Casual (30/100 towards Formal)"; the middle of a slider says nothing, so it is skipped
+function describeTone(slider: ToneSlider, value: number): string | null {
+  const [low, high] = TONE_SLIDERS[slider];
+  if (value >= 40 && value <= 60) return null;
+  const strength = value <= 15 || value >= 85 ? "strongly" : "leans";
+  return `${strength} ${value < 50 ? low : high} (${value}/100 from ${low} to ${high})`;
+}
+
+/**
+ * Brand voice instructions, shared by content generation, refinement and the brand specialist chat
+ */
+export function buildBrandVoiceSection({ brandName, profile }: BrandVoice): string {
+  let section = `**Brand Voice (${brandName}) - follow this for every line of copy:**\n`;
+
+  if (profile.mandarinBrandName) {
+    section += `- Mandarin brand name: ${profile.mandarinBrandName} (always use exactly this, never translate ${brandName} yourself)\n`;
+  }
+
+  const tone = (Object.keys(TONE_SLIDERS) as ToneSlider[])
+    .map((slider) => describeTone(slider, profile.tone[slider]))
+    .filter(Boolean);
+  if (tone.length > 0) {
+    section += `- Tone: ${tone.join("; ")}\n`;
+  }
+
+  if (profile.productTerms.length > 0) {
+    section += `- Approved product terms (use these exact translations): ${profile.productTerms
+      .map((productTerm) => `${productTerm.source} = ${productTerm.mandarin}`)
+      .join(", ")}\n`;
+  }
+  if (profile.preferredTerms.length > 0) {
+    section += `- Preferred terms: ${profile.preferredTerms.join(", ")}\n`;
+  }
+  if (profile.forbiddenTerms.length > 0) {
+    section += `- Never use: ${profile.forbiddenTerms.join(", ")}\n`;
+  }
+  if (profile.exampleCaptions.length > 0) {
+    section += `- Captions the brand likes (match their voice, don't copy them):\n`;
+    profile.exampleCaptions.forEach((caption, index) => {
+      section += `  ${index + 1}. ${caption}\n`;
+    });
+  }
+  if (profile.complianceNotes) {
+    section += `- Compliance notes: ${profile.complianceNotes}\n`;
+  }
+
+  return `${section}\n`;
+}
+
+function describePlatformRules(platform: ContentPlatform): string {
+  const rules = PLATFORM_RULES[platform];
+  const coverText = rules.coverTextMaxChars > 0
+    ? `cover text up to ${rules.coverTextMaxChars} characters`
+    : `no cover text`;
+  return `${platform} (${rules.label}): caption ${rules.captionMinChars}-${rules.captionMaxChars} characters, ` +
+    `${rules.minHashtags}-${rules.maxHashtags} hashtags, ${coverText}, tone: ${rules.tone}`;
+}
+
+function requestedPlatforms(input: ContentGenerationInput): ContentPlatform[] {
+  return input.platforms?.length ? input.platforms : [...CONTENT_PLATFORMS];
+}
+
+// The model is told which platform each piece is for; its own platform field is not trusted
+function assignedPlatform(input: ContentGenerationInput, index: number): ContentPlatform {
+  const platforms = requestedPlatforms(input);
+  return platforms[index % platforms.length];
+}
+
+/**
+ * Build the content generation prompt from user inputs
+ */
+function buildContentGenerationPrompt(input: ContentGenerationInput): string {
+  let prompt = `Generate 5 distinct Mandarin brand content pieces for the following wellness product/brand:\n\n`;
+  prompt += buildBriefSection(input);
+
+  const platforms = requestedPlatforms(input);
+
+  prompt += `\n**Platform Rules:**\n`;
+  for (const platform of platforms) {
+    prompt += `- ${describePlatformRules(platform)}\n`;
+  }
+
+  // Spread the pieces across the requested platforms in order
+  prompt += `\n**Platform Assignment:**\n`;
+  for (let i = 0; i < PIECE_COUNT; i++) {
+    prompt += `- Piece ${i + 1}: ${assignedPlatform(input, i)}\n`;
+  }
+
+  prompt += `\nCreate ${PIECE_COUNT} unique content pieces, each written for its assigned platform. Each piece should have a different angle or approach to appeal to various segments of the target audience.`;
+
+  return prompt;
+}
+
+/**
+ * Build the refinement prompt: original brief, current version and the instruction
+ */
+function buildRefinePrompt(
+  input: ContentGenerationInput,
+  piece: ContentPieceFields,
+  instruction: string
+): string {
+  let prompt = `Revise this Mandarin brand content piece for the following wellness product/brand:\n\n`;
+  prompt += buildBriefSection(input);
+
+  prompt += `**Platform Rules:**\n${describePlatformRules(piece.platform)}\n\n`;
+  prompt += `**Current Version:**\n${JSON.stringify(piece, null, 2)}\n\n`;
+  prompt += `**Editor's Instruction:**\n${instruction}\n\n`;
+  prompt += `Return the revised piece as a single JSON object.`;
 
   return prompt;
 }
@@ -228,7 +487,8 @@ function buildContentGenerationPrompt(input: ContentGenerationInput): string {
  */
 export async function generateContentWithVisualContext(
   input: ContentGenerationInput,
-  brandImageUrls: string[]
+  brandImageUrls: string[],
+  provider?: ContentProvider
 ): Promise<GeneratedContentPiece[]> {
   // First, analyze the brand visuals if provided
   let visualContext = "";
@@ -248,5 +508,5 @@ export async function generateContentWithVisualContext(
       : input.productInfo
   };
 
-  return await generateMandarinContent(enhancedInput);
+  return await generateMandarinContent(enhancedInput, provider);
 }
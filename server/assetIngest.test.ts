@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import sharp from "sharp";
+import * as db from "./db";
+import * as storage from "./storage";
+import { createThumbnail } from "./imageProcessing";
+import { createBrandAssetUploads, deleteBrandAsset, ingestBrandAsset } from "./assetIngest";
+import { makeBrand, makeBrandAsset } from "./testFixtures";
+
+vi.mock("./db", () => ({
+  getBrandAssetByHash: vi.fn(),
+  createBrandAsset: vi.fn(async (asset) => ({ id: 9, ...asset })),
+  deleteBrandAsset: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./storage", () => ({
+  storagePresignPut: vi.fn(async (key: string) => ({ key, uploadUrl: `https://r2.example.com/${key}` })),
+  storageHead: vi.fn(),
+  storageGetBytes: vi.fn(),
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://cdn.example.com/${key}` })),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://cdn.example.com/${key}` })),
+  storageDelete: vi.fn().mockResolvedValue(undefined),
+  toStorageRef: (key: string) => `storage:${key}`,
+  resolveStorageRef: vi.fn(async (value: string) => value),
+}));
+
+vi.mock("./imageProcessing", () => ({
+  createThumbnail: vi.fn(),
+}));
+
+const brand = makeBrand({ id: 3, workspaceId: 10 });
+const png = Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64");
+const mp4 = Buffer.from("\x00\x00\x00\x10ftypisom\x00\x00\x00\x00", "latin1");
+const pngKey = "brand-assets/10/3/1700000000000-abcdef-logo.png";
+// 32x24 HEVC-coded HEIC: teal on the left three quarters, white on the right
+const heic = readFileSync(new URL("./fixtures/teal-white.heic", import.meta.url));
+
+function stored(data: Buffer, contentType: string) {
+  vi.mocked(storage.storageHead).mockResolvedValue({ contentLength: data.length, contentType });
+  vi.mocked(storage.storageGetBytes).mockImplementation(async (_key, maxBytes) => data.subarray(0, maxBytes));
+}
+
+describe("Brand asset ingest", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getBrandAssetByHash).mockResolvedValue(undefined);
+    vi.mocked(createThumbnail).mockResolvedValue({ width: 1200, height: 800, thumbnail: Buffer.from("thumb") });
+    stored(png, "image/png");
+  });
+
+  it("should issue uploads for images and videos under the brand", async () => {
+    const uploads = await createBrandAssetUploads(brand, [
+      { fileName: "logo.png", mimeType: "image/png", size: 16 },
+      { fileName: "launch.mov", mimeType: "video/quicktime", size: 20 * 1024 * 1024 },
+    ]);
+
+    expect(uploads[0].key).toMatch(/^brand-assets\/10\/3\/\d+-[a-f0-9]+-logo\.png$/);
+    expect(uploads[1].headers).toEqual({ "Content-Type": "video/quicktime" });
+  });
+
+  it("should register the upload with its thumbnail and what it found", async () => {
+    const { asset, duplicate } = await ingestBrandAsset(brand, { key: pngKey, fileName: "logo.png" }, 1);
+
+    expect(duplicate).toBe(false);
+    const [[thumbnailKey, , thumbnailType]] = vi.mocked(storage.storagePut).mock.calls;
+    expect(thumbnailKey).toBe(`${pngKey}.thumb.webp`);
+    expect(thumbnailType).toBe("image/webp");
+    expect(asset).toMatchObject({
+      brandId: 3,
+      assetType: "photo",
+      mimeType: "image/png",
+      storageKey: pngKey,
+      storageUrl: `https://cdn.example.com/${pngKey}`,
+      fileName: "logo.png",
+      byteSize: 16,
+      width: 1200,
+      height: 800,
+      contentHash: createHash("sha256").update(png).digest("hex"),
+      thumbnailKey,
+      thumbnailUrl: `https://cdn.example.com/${thumbnailKey}`,
+      uploadedBy: 1,
+    });
+    expect(storage.storageDelete).not.toHaveBeenCalled();
+  });
+
+  it("should store references to the files rather than URLs", async () => {
+    await ingestBrandAsset(brand, { key: pngKey, fileName: "logo.png" }, 1);
+
+    expect(db.createBrandAsset).toHaveBeenCalledWith(
+      expect.objectContaining({
+        storageUrl: `storage:${pngKey}`,
+        thumbnailUrl: `storage:${pngKey}.thumb.webp`,
+      })
+    );
+  });
+
+  it("should return the brand's existing asset for identical contents and discard the upload", async () => {
+    const existing = makeBrandAsset({
+      id: 4,
+      brandId: 3,
+      storageKey: "brand-assets/10/3/1-a-logo.png",
+      storageUrl: "storage:brand-assets/10/3/1-a-logo.png",
+    });
+    vi.mocked(db.getBrandAssetByHash).mockResolvedValue(existing);
+
+    await expect(ingestBrandAsset(brand, { key: pngKey, fileName: "copy.png" }, 1)).resolves.toEqual({
+      asset: { ...existing, storageUrl: "https://cdn.example.com/brand-assets/10/3/1-a-logo.png" },
+      duplicate: true,
+    });
+    expect(storage.storagePut).not.toHaveBeenCalled();
+    expect(storage.storageDelete).toHaveBeenCalledWith(pngKey);
+  });
+
+  it("should reject and discard images that cannot be decoded", async () => {
+    vi.mocked(createThumbnail).mockRejectedValue(new Error("Input buffer contains unsupported image format"));
+
+    await expect(ingestBrandAsset(brand, { key: pngKey, fileName: "broken.png" }, 1)).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(storage.storagePut).not.toHaveBeenCalled();
+    expect(storage.storageDelete).toHaveBeenCalledWith(pngKey);
+  });
+
+  it("should decode HEIC photos for their dimensions and thumbnail", async () => {
+    const actual = await vi.importActual<typeof import("./imageProcessing")>("./imageProcessing");
+    vi.mocked(createThumbnail).mockImplementation(actual.createThumbnail);
+    stored(heic, "image/heic");
+
+    const { asset } = await ingestBrandAsset(brand, { key: "brand-assets/10/3/1-a-shelf.heic", fileName: "shelf.heic" }, 1);
+
+    expect(asset).toMatchObject({ mimeType: "image/heic", width: 32, height: 24 });
+    const [[, thumbnail]] = vi.mocked(storage.storagePut).mock.calls;
+    const { format, width, height, hasAlpha } = await sharp(thumbnail).metadata();
+    expect({ format, width, height, hasAlpha }).toEqual({ format: "webp", width: 32, height: 24, hasAlpha: false });
+    expect(storage.storageDelete).not.toHaveBeenCalled();
+  });
+
+  it("should register videos without a thumbnail", async () => {
+    stored(mp4, "video/mp4");
+
+    const { asset } = await ingestBrandAsset(brand, { key: "brand-assets/10/3/1-a-launch.mp4", fileName: "launch.mp4" }, 1);
+
+    expect(createThumbnail).not.toHaveBeenCalled();
+    expect(asset).toMatchObject({ assetType: "video", mimeType: "video/mp4", width: null, thumbnailKey: null });
+  });
+
+  it("should not register another brand's uploads", async () => {
+    await expect(
+      ingestBrandAsset(brand, { key: "brand-assets/10/4/1-a-logo.png", fileName: "logo.png" }, 1)
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.createBrandAsset).not.toHaveBeenCalled();
+  });
+
+  it("should remove stored files when the row cannot be created", async () => {
+    vi.mocked(db.createBrandAsset).mockRejectedValueOnce(new Error("Database not available"));
+
+    await expect(ingestBrandAsset(brand, { key: pngKey, fileName: "logo.png" }, 1)).rejects.toThrow(
+      "Database not available"
+    );
+    expect(storage.storageDelete).toHaveBeenCalledWith(pngKey);
+    expect(storage.storageDelete).toHaveBeenCalledWith(`${pngKey}.thumb.webp`);
+  });
+
+  it("should delete an asset's objects before its row", async () => {
+    await deleteBrandAsset(
+      makeBrandAsset({ id: 9, storageKey: "brand-assets/a.png", thumbnailKey: "brand-assets/a.png.thumb.webp" })
+    );
+
+    expect(storage.storageDelete).toHaveBeenCalledWith("brand-assets/a.png");
+    expect(storage.storageDelete).toHaveBeenCalledWith("brand-assets/a.png.thumb.webp");
+    expect(db.deleteBrandAsset).toHaveBeenCalledWith(9);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Brand Asset Ingest
+ * The one path for adding files to a brand's asset library: files are uploaded directly
+ * to storage (directUpload.ts), then confirmed here, which dedupes them by content hash,
+ * records dimensions and a thumbnail for images, and creates the brandAssets row.
+ */
+
+import { createHash } from "crypto";
+import { TRPCError } from "@trpc/server";
+import type { Brand, BrandAsset } from "../drizzle/schema";
+import * as db from "./db";
+import { confirmDirectUpload, createDirectUpload, type DirectUpload, type UploadRequest } from "./directUpload";
+import { createThumbnail, type ImageThumbnail } from "./imageProcessing";
+import { resolveStorageRef, storageDelete, storageGet, storageGetBytes, storagePut, toStorageRef } from "./storage";
+
+export interface AssetUpload {
+  key: string; // As issued by createBrandAssetUploads
+  fileName: string;
+}
+
+export interface IngestedAsset {
+  asset: BrandAsset;
+  duplicate: boolean; // The brand already had this file; the upload was discarded
+}
+
+function brandAssetPrefix(brand: Brand): string {
+  return `brand-assets/${brand.workspaceId}/${brand.id}`;
+}
+
+/**
+ * Issue presigned upload URLs for files to add to a brand's asset library
+ */
+export async function createBrandAssetUploads(brand: Brand, files: UploadRequest[]): Promise<DirectUpload[]> {
+  return await Promise.all(files.map((file) => createDirectUpload(brandAssetPrefix(brand), file, ["photo", "video"])));
+}
+
+/**
+ * Validate and register one uploaded file in a brand's asset library
+ * The uploaded object is deleted unless it becomes a new asset.
+ */
+export async function ingestBrandAsset(brand: Brand, upload: AssetUpload, uploadedBy: number): Promise<IngestedAsset> {
+  const { key, mimeType, assetType, byteSize } = await confirmDirectUpload(brandAssetPrefix(brand), upload.key, [
+    "photo",
+    "video",
+  ]);
+
+  const data = await storageGetBytes(key);
+  if (!data) throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+
+  const contentHash = createHash("sha256").update(data).digest("hex");
+  const existing = await db.getBrandAssetByHash(brand.id, contentHash);
+  if (existing) {
+    await storageDelete(key).catch(() => {});
+    return { asset: await withAssetUrls(existing), duplicate: true };
+  }
+
+  let image: ImageThumbnail | null = null;
+  if (assetType === "photo") {
+    try {
+      image = await createThumbnail(data);
+    } catch (error) {
+      await storageDelete(key).catch(() => {});
+      throw new TRPCError({ code: "BAD_REQUEST", message: `${upload.fileName} could not be read as an image`, cause: error });
+    }
+  }
+
+  let thumbnail: { key: string; url: string } | null = null;
+  try {
+    thumbnail = image ? await storagePut(`${key}.thumb.webp`, image.thumbnail, "image/webp") : null;
+    const asset = await db.createBrandAsset({
+      brandId: brand.id,
+      assetType,
+      storageUrl: toStorageRef(key),
+      mimeType,
+      storageKey: key,
+      fileName: upload.fileName.slice(0, 255),
+      byteSize,
+      width: image?.width ?? null,
+      height: image?.height ?? null,
+      contentHash,
+      thumbnailKey: thumbnail?.key ?? null,
+      thumbnailUrl: thumbnail ? toStorageRef(thumbnail.key) : null,
+      uploadedBy,
+    });
+    return { asset: await withAssetUrls(asset), duplicate: false };
+  } catch (error) {
+    // Don't leave unreferenced objects behind
+    await removeStoredFiles([key, thumbnail?.key]).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * The asset as API responses show it, with URLs its files can be read from
+ * The row holds storage references; URLs are made per response since private ones expire.
+ */
+export async function withAssetUrls(asset: BrandAsset): Promise<BrandAsset> {
+  const [storageUrl, thumbnailUrl] = await Promise.all([
+    asset.storageKey ? storageGet(asset.storageKey).then(({ url }) => url) : resolveStorageRef(asset.storageUrl),
+    asset.thumbnailKey
+      ? storageGet(asset.thumbnailKey).then(({ url }) => url)
+      : asset.thumbnailUrl && resolveStorageRef(asset.thumbnailUrl),
+  ]);
+  return { ...asset, storageUrl, thumbnailUrl };
+}
+
+/**
+ * Delete an asset's stored files, then its row
+ * Assets registered by URL before ingest existed have no keys; only their row is removed
+ */
+export async function deleteBrandAsset(asset: BrandAsset): Promise<void> {
+  await removeStoredFiles([asset.storageKey, asset.thumbnailKey]);
+  await db.deleteBrandAsset(asset.id);
+}
+
+async function removeStoredFiles(keys: (string | null | undefined)[]): Promise<void> {
+  await Promise.all(keys.filter((key): key is string => !!key).map((key) => storageDelete(key)));
+}
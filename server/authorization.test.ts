@@ -0,0 +1,274 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+import { appRouter } from "./routers";
+import { assertCanAccess } from "./authorization";
+import type { TrpcContext } from "./_core/context";
+import {
+  makeBrand,
+  makeBrandInput,
+  makeConversation,
+  makeGeneratedContent,
+  makeVisionJob,
+  makeWorkspace,
+  makeWorkspaceInvitation,
+  makeWorkspaceMember,
+} from "./testFixtures";
+
+vi.mock("./db", () => ({
+  getWorkspaceById: vi.fn(),
+  getWorkspaceMember: vi.fn(),
+  getWorkspacesForUser: vi.fn(),
+  createWorkspace: vi.fn(),
+  getOrCreatePersonalWorkspace: vi.fn(),
+  getWorkspaceMembers: vi.fn().mockResolvedValue([]),
+  getPendingWorkspaceInvitations: vi.fn().mockResolvedValue([]),
+  getPendingInvitationsForEmail: vi.fn().mockResolvedValue([]),
+  acceptWorkspaceInvitation: vi.fn().mockResolvedValue(undefined),
+  countWorkspaceOwners: vi.fn().mockResolvedValue(1),
+  updateWorkspaceMemberRole: vi.fn().mockResolvedValue(undefined),
+  getBrandById: vi.fn(),
+  getBrandInputById: vi.fn(),
+  getGeneratedContentById: vi.fn(),
+  getGeneratedContentByInputId: vi.fn().mockResolvedValue([]),
+  getConversationById: vi.fn(),
+  getVisionJobById: vi.fn(),
+  getVisionJobImages: vi.fn().mockResolvedValue([]),
+  cancelVisionJob: vi.fn().mockResolvedValue(false),
+  requeueVisionJob: vi.fn().mockResolvedValue(false),
+  createVisionJob: vi.fn(),
+  getBrandAssetsByBrandId: vi.fn().mockResolvedValue([]),
+  createBrandAsset: vi.fn().mockResolvedValue({ id: 1 }),
+  getBrandAssetById: vi.fn().mockResolvedValue({ id: 9, brandId: 3, storageKey: null, thumbnailKey: null }),
+  deleteBrandAsset: vi.fn().mockResolvedValue(undefined),
+  updateContentFeedback: vi.fn().mockResolvedValue(undefined),
+  updateConversation: vi.fn().mockResolvedValue(undefined),
+  getBrandsByWorkspaceId: vi.fn().mockResolvedValue([]),
+  createBrand: vi.fn().mockResolvedValue({ id: 1 }),
+}));
+
+// Nothing here should reach real storage
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(),
+  storageDelete: vi.fn(),
+  toStorageRef: (key: string) => `storage:${key}`,
+  resolveStorageRef: async (value: string) => value.replace("storage:", "https://files.example.com/"),
+}));
+
+// Thumbnails are rendered with sharp, which authorization checks never reach
+vi.mock("./imageProcessing", () => ({
+  createThumbnail: vi.fn(),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+const WORKSPACE_ID = 10;
+const OWNER_ID = 1;
+const OTHER_ID = 2; // Not a member of the workspace
+const VIEWER_ID = 3;
+
+const MEMBER_ROLES: Record<number, "owner" | "viewer"> = { [OWNER_ID]: "owner", [VIEWER_ID]: "viewer" };
+
+function createCaller(id: number, role: AuthenticatedUser["role"] = "user", email = `user-${id}@example.com`) {
+  const user: AuthenticatedUser = {
+    id,
+    openId: `user-${id}`,
+    email,
+    name: `User ${id}`,
+    loginMethod: "manus",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return appRouter.createCaller({
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: (_name: string, _options: Record<string, unknown>) => {} } as TrpcContext["res"],
+  });
+}
+
+async function expectCode(promise: Promise<unknown>, code: TRPCError["code"]) {
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe("Resource authorization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getWorkspaceById).mockImplementation(async (id) =>
+      id === WORKSPACE_ID ? makeWorkspace({ id, createdBy: OWNER_ID }) : undefined
+    );
+    vi.mocked(db.getWorkspaceMember).mockImplementation(async (workspaceId, userId) =>
+      workspaceId === WORKSPACE_ID && MEMBER_ROLES[userId]
+        ? makeWorkspaceMember({ workspaceId, userId, role: MEMBER_ROLES[userId] })
+        : undefined
+    );
+    const resource = { userId: OWNER_ID, workspaceId: WORKSPACE_ID };
+    vi.mocked(db.getBrandById).mockResolvedValue(makeBrand({ id: 3, ...resource }));
+    vi.mocked(db.getBrandInputById).mockResolvedValue(makeBrandInput({ id: 4, ...resource }));
+    vi.mocked(db.getGeneratedContentById).mockResolvedValue(makeGeneratedContent({ id: 5, userId: OWNER_ID, inputId: 4 }));
+    vi.mocked(db.getConversationById).mockResolvedValue(makeConversation({ id: 6, ...resource }));
+    vi.mocked(db.getVisionJobById).mockResolvedValue(makeVisionJob({ id: 7, ...resource }));
+  });
+
+  it("should throw NOT_FOUND for a missing resource and FORBIDDEN outside its workspace", async () => {
+    const resource = { workspaceId: WORKSPACE_ID };
+    await expectCode(assertCanAccess({ id: OWNER_ID, role: "user" }, undefined, "Brand"), "NOT_FOUND");
+    await expectCode(assertCanAccess({ id: OTHER_ID, role: "user" }, resource, "Brand"), "FORBIDDEN");
+    await expectCode(assertCanAccess({ id: VIEWER_ID, role: "user" }, resource, "Brand", "editor"), "FORBIDDEN");
+    await expect(assertCanAccess({ id: VIEWER_ID, role: "user" }, resource, "Brand")).resolves.toBe(resource);
+  });
+
+  it("should reject another user's brand and its assets", async () => {
+    const caller = createCaller(OTHER_ID);
+
+    await expectCode(caller.brand.getById({ brandId: 3 }), "FORBIDDEN");
+    await expectCode(caller.brandAsset.listByBrand({ brandId: 3 }), "FORBIDDEN");
+    await expectCode(
+      caller.brandAsset.createUploadUrls({ brandId: 3, files: [{ fileName: "a.png", mimeType: "image/png", size: 8 }] }),
+      "FORBIDDEN"
+    );
+    await expectCode(caller.brandAsset.delete({ assetId: 9 }), "FORBIDDEN");
+    expect(db.getBrandAssetsByBrandId).not.toHaveBeenCalled();
+    expect(db.createBrandAsset).not.toHaveBeenCalled();
+    expect(db.deleteBrandAsset).not.toHaveBeenCalled();
+  });
+
+  it("should reject another user's generated content and feedback", async () => {
+    const caller = createCaller(OTHER_ID);
+
+    await expectCode(caller.contentGeneration.getByInputId({ inputId: 4 }), "FORBIDDEN");
+    await expectCode(caller.contentGeneration.submitFeedback({ contentId: 5, score: -1 }), "FORBIDDEN");
+    expect(db.getGeneratedContentByInputId).not.toHaveBeenCalled();
+    expect(db.updateContentFeedback).not.toHaveBeenCalled();
+  });
+
+  it("should reject another user's conversation and vision job", async () => {
+    const caller = createCaller(OTHER_ID);
+
+    await expectCode(caller.conversation.update({ conversationId: 6, messageLog: "[]" }), "FORBIDDEN");
+    await expectCode(caller.visionPipeline.getJobStatus({ jobId: 7 }), "FORBIDDEN");
+    expect(db.updateConversation).not.toHaveBeenCalled();
+  });
+
+  it("should report missing rows as NOT_FOUND", async () => {
+    vi.mocked(db.getBrandById).mockResolvedValue(undefined);
+    vi.mocked(db.getConversationById).mockResolvedValue(undefined);
+    const caller = createCaller(OWNER_ID);
+
+    await expectCode(caller.brand.getById({ brandId: 99 }), "NOT_FOUND");
+    await expectCode(caller.conversation.update({ conversationId: 99, messageLog: "[]" }), "NOT_FOUND");
+  });
+
+  it("should let the owner and admins through", async () => {
+    await createCaller(OWNER_ID).contentGeneration.submitFeedback({ contentId: 5, score: 1 });
+    await createCaller(OTHER_ID, "admin").brandAsset.listByBrand({ brandId: 3 });
+
+    expect(db.updateContentFeedback).toHaveBeenCalledWith(5, 1, undefined);
+    expect(db.getBrandAssetsByBrandId).toHaveBeenCalledWith(3);
+  });
+
+  it("should report cancelling or retrying a job in the wrong state as a CONFLICT", async () => {
+    const caller = createCaller(OWNER_ID);
+
+    await expectCode(caller.visionPipeline.cancelJob({ jobId: 7 }), "CONFLICT");
+    await expectCode(caller.visionPipeline.retryJob({ jobId: 7 }), "CONFLICT");
+  });
+
+  it("should reject vision jobs with no images or too many as BAD_REQUEST", async () => {
+    const caller = createCaller(OWNER_ID);
+    const imageUrls = Array.from({ length: 10 }, (_, index) => `https://cdn.example.com/${index}.jpg`);
+
+    const input = { workspaceId: WORKSPACE_ID, analysisPurpose: "Launch" };
+
+    await expectCode(caller.visionPipeline.createJob(input), "BAD_REQUEST");
+    await expectCode(caller.visionPipeline.createJob({ ...input, imageUrls, imageUrl: "https://cdn.example.com/extra.jpg" }), "BAD_REQUEST");
+    expect(db.createVisionJob).not.toHaveBeenCalled();
+  });
+
+  it("should store a brand logo as a reference to the caller's own upload", async () => {
+    const logoKey = `brand-assets/${OWNER_ID}/1700000000000-abcdef-logo.png`;
+    vi.mocked(db.createBrand).mockImplementationOnce(async (brand) => makeBrand({ ...brand, id: 30 }));
+
+    const brand = await createCaller(OWNER_ID).brand.create({ workspaceId: WORKSPACE_ID, brandName: "Herbal Co", logoKey });
+
+    expect(db.createBrand).toHaveBeenCalledWith(expect.objectContaining({ logoUrl: `storage:${logoKey}` }));
+    expect(brand.logoUrl).toBe(`https://files.example.com/${logoKey}`);
+    await expectCode(
+      createCaller(OTHER_ID, "admin").brand.create({ workspaceId: WORKSPACE_ID, brandName: "Herbal Co", logoKey }),
+      "NOT_FOUND"
+    );
+  });
+
+  it("should reject malformed conversation message logs as BAD_REQUEST", async () => {
+    const caller = createCaller(OWNER_ID);
+    vi.mocked(db.getConversationById).mockResolvedValueOnce(makeConversation({ id: 6, userId: OWNER_ID, workspaceId: WORKSPACE_ID, messageLog: "{}" }));
+
+    await expectCode(caller.conversation.sendMessage({ conversationId: 6, message: "你好" }), "BAD_REQUEST");
+    await expectCode(
+      caller.conversation.update({ conversationId: 6, messageLog: JSON.stringify([{ role: "system", content: "hi" }]) }),
+      "BAD_REQUEST"
+    );
+    expect(db.updateConversation).not.toHaveBeenCalled();
+  });
+
+  describe("workspace roles", () => {
+    it("should let viewers read but not write", async () => {
+      const caller = createCaller(VIEWER_ID);
+
+      await expect(caller.brand.getById({ brandId: 3 })).resolves.toMatchObject({ id: 3 });
+      await caller.contentGeneration.getByInputId({ inputId: 4 });
+      await expectCode(caller.contentGeneration.submitFeedback({ contentId: 5, score: 1 }), "FORBIDDEN");
+      await expectCode(caller.visionPipeline.cancelJob({ jobId: 7 }), "FORBIDDEN");
+      await expectCode(caller.brand.create({ workspaceId: WORKSPACE_ID, brandName: "New" }), "FORBIDDEN");
+      expect(db.createBrand).not.toHaveBeenCalled();
+    });
+
+    it("should scope lists to a workspace the caller belongs to", async () => {
+      await createCaller(VIEWER_ID).brand.list({ workspaceId: WORKSPACE_ID });
+      expect(db.getBrandsByWorkspaceId).toHaveBeenCalledWith(WORKSPACE_ID);
+
+      await expectCode(createCaller(OTHER_ID).brand.list({ workspaceId: WORKSPACE_ID }), "FORBIDDEN");
+      await expectCode(createCaller(OTHER_ID).brand.list({ workspaceId: 99 }), "NOT_FOUND");
+    });
+
+    it("should fall back to the caller's personal workspace, not a team one they own", async () => {
+      vi.mocked(db.getOrCreatePersonalWorkspace).mockResolvedValueOnce(
+        makeWorkspace({ id: 20, name: "Personal", createdBy: OWNER_ID, personalForUserId: OWNER_ID })
+      );
+
+      await createCaller(OWNER_ID).brand.create({ brandName: "Solo" });
+
+      expect(db.getOrCreatePersonalWorkspace).toHaveBeenCalledWith(OWNER_ID);
+      expect(db.createWorkspace).not.toHaveBeenCalled();
+      expect(db.createBrand).toHaveBeenCalledWith(expect.objectContaining({ workspaceId: 20, userId: OWNER_ID }));
+    });
+
+    it("should only let owners change roles and keep the last owner", async () => {
+      await expectCode(
+        createCaller(VIEWER_ID).workspace.updateMemberRole({ workspaceId: WORKSPACE_ID, userId: VIEWER_ID, role: "owner" }),
+        "FORBIDDEN"
+      );
+      await expectCode(
+        createCaller(OWNER_ID).workspace.updateMemberRole({ workspaceId: WORKSPACE_ID, userId: OWNER_ID, role: "editor" }),
+        "BAD_REQUEST"
+      );
+      expect(db.updateWorkspaceMemberRole).not.toHaveBeenCalled();
+    });
+
+    it("should accept only invitations addressed to the caller's email", async () => {
+      const invitation = { ...makeWorkspaceInvitation({ id: 8, workspaceId: WORKSPACE_ID }), workspaceName: "Agency" };
+      vi.mocked(db.getPendingInvitationsForEmail).mockImplementation(async (email) =>
+        email === invitation.email ? [invitation] : []
+      );
+
+      await expectCode(createCaller(OTHER_ID).workspace.acceptInvitation({ invitationId: 8 }), "NOT_FOUND");
+      await expect(
+        createCaller(OTHER_ID, "user", "new@agency.com").workspace.acceptInvitation({ invitationId: 8 })
+      ).resolves.toEqual({ workspaceId: WORKSPACE_ID });
+      expect(db.acceptWorkspaceInvitation).toHaveBeenCalledTimes(1);
+      expect(db.acceptWorkspaceInvitation).toHaveBeenCalledWith(invitation, OTHER_ID);
+    });
+  });
+});
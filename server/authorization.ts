@@ -0,0 +1,151 @@
+/**
+ * Resource Authorization
+ * Loads a row by id and checks the caller's role in the workspace that owns it.
+ * Platform admins act as owners of every workspace.
+ * Procedures call these instead of trusting raw ids from the client.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { hasWorkspaceRole, type WorkspaceRole } from "@shared/workspaces";
+import type { User } from "../drizzle/schema";
+import * as db from "./db";
+
+type WorkspaceResource = { workspaceId: number };
+type Caller = Pick<User, "id" | "role">;
+
+/**
+ * The user's role in a workspace, or null when they are not a member
+ */
+export async function getWorkspaceRole(user: Caller, workspaceId: number): Promise<WorkspaceRole | null> {
+  if (user.role === "admin") return "owner";
+  const member = await db.getWorkspaceMember(workspaceId, user.id);
+  return member?.role ?? null;
+}
+
+/**
+ * Whether the user can see the resource (any role in its workspace)
+ */
+export async function canAccess(user: Caller, resource: WorkspaceResource): Promise<boolean> {
+  return (await getWorkspaceRole(user, resource.workspaceId)) !== null;
+}
+
+function assertRole(role: WorkspaceRole | null, minimum: WorkspaceRole, label: string) {
+  if (!role) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `You do not have access to this ${label.toLowerCase()}` });
+  }
+  if (!hasWorkspaceRole(role, minimum)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `This requires the ${minimum} role in the workspace` });
+  }
+}
+
+/**
+ * Return the resource, or throw NOT_FOUND when it is missing and FORBIDDEN when the
+ * user's role in its workspace is below `minimum`
+ */
+export async function assertCanAccess<T extends WorkspaceResource>(
+  user: Caller,
+  resource: T | null | undefined,
+  label: string,
+  minimum: WorkspaceRole = "viewer"
+): Promise<T> {
+  if (!resource) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `${label} not found` });
+  }
+  assertRole(await getWorkspaceRole(user, resource.workspaceId), minimum, label);
+  return resource;
+}
+
+/**
+ * Check the user's role in a workspace and return it
+ */
+export async function requireWorkspaceRole(
+  user: Caller,
+  workspaceId: number,
+  minimum: WorkspaceRole = "viewer"
+): Promise<WorkspaceRole> {
+  const workspace = await db.getWorkspaceById(workspaceId);
+  if (!workspace) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workspace not found" });
+  }
+  const role = await getWorkspaceRole(user, workspace.id);
+  assertRole(role, minimum, "Workspace");
+  return role!;
+}
+
+/**
+ * The workspace a request acts in: the one asked for, or else the user's personal
+ * workspace (created on first use)
+ */
+export async function resolveWorkspaceId(
+  user: Caller,
+  workspaceId: number | undefined,
+  minimum: WorkspaceRole = "viewer"
+): Promise<number> {
+  if (workspaceId !== undefined) {
+    await requireWorkspaceRole(user, workspaceId, minimum);
+    return workspaceId;
+  }
+
+  return (await db.getOrCreatePersonalWorkspace(user.id)).id;
+}
+
+export async function requireBrandAccess(user: Caller, brandId: number, minimum?: WorkspaceRole) {
+  return assertCanAccess(user, await db.getBrandById(brandId), "Brand", minimum);
+}
+
+/**
+ * Assets are shared through their brand
+ */
+export async function requireBrandAssetAccess(user: Caller, assetId: number, minimum?: WorkspaceRole) {
+  const asset = await db.getBrandAssetById(assetId);
+  if (!asset) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found" });
+  }
+  const brand = await requireBrandAccess(user, asset.brandId, minimum);
+  return { asset, brand };
+}
+
+export async function requireBrandInputAccess(user: Caller, inputId: number, minimum?: WorkspaceRole) {
+  return assertCanAccess(user, await db.getBrandInputById(inputId), "Content brief", minimum);
+}
+
+/**
+ * Generated content is shared through the brief it was generated from
+ */
+export async function requireContentAccess(user: Caller, contentId: number, minimum?: WorkspaceRole) {
+  const content = await db.getGeneratedContentById(contentId);
+  if (!content) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Content not found" });
+  }
+  const brandInput = await requireBrandInputAccess(user, content.inputId, minimum);
+  return { content, brandInput };
+}
+
+export async function requireConversationAccess(user: Caller, conversationId: number, minimum?: WorkspaceRole) {
+  return assertCanAccess(user, await db.getConversationById(conversationId), "Conversation", minimum);
+}
+
+export async function requireVisionJobAccess(user: Caller, jobId: number, minimum?: WorkspaceRole) {
+  return assertCanAccess(user, await db.getVisionJobById(jobId), "Job", minimum);
+}
+
+/**
+ * Resolve the workspace for a request that may name a brand: the brand's own workspace
+ * when it does (which must match workspaceId if both are given), else resolveWorkspaceId
+ */
+export async function resolveBrandWorkspace(
+  user: Caller,
+  brandId: number | undefined,
+  workspaceId: number | undefined,
+  minimum: WorkspaceRole = "viewer"
+) {
+  if (brandId === undefined) {
+    return { brand: undefined, workspaceId: await resolveWorkspaceId(user, workspaceId, minimum) };
+  }
+
+  const brand = await requireBrandAccess(user, brandId, minimum);
+  if (workspaceId !== undefined && workspaceId !== brand.workspaceId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The brand belongs to another workspace" });
+  }
+  return { brand, workspaceId: brand.workspaceId };
+}
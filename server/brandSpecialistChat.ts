@@ -0,0 +1,66 @@
+/**
+ * A.I. Brand Specialist Chat
+ * Answers in the brand's voice, using the same voice section as content generation
+ */
+
+import { z } from "zod";
+import { buildBrandVoiceSection, type BrandVoice } from "./aiContentGenerator";
+import { getContentProvider, type ContentProvider } from "./contentProviders";
+
+const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: z.number(),
+});
+
+/** One entry of conversations.messageLog */
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+/**
+ * Parse a conversations.messageLog value
+ * Returns null when it is not a JSON array of chat messages
+ */
+export function parseMessageLog(raw: string): ChatMessage[] | null {
+  try {
+    const result = z.array(chatMessageSchema).safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+const MAX_HISTORY_MESSAGES = 20; // Older turns are dropped to keep the prompt bounded
+
+const BRAND_SPECIALIST_SYSTEM_PROMPT = `You are an A.I. Brand Specialist helping a wellness brand enter the Chinese market.
+You advise on positioning, platform strategy (WeChat, Douyin, Xiaohongshu), cultural nuances and Mandarin copy.
+Answer in the language the user writes in. Any Mandarin copy you draft must follow the brand voice below when one is given,
+and must never use absolute or medical claims banned by Chinese advertising law.`;
+
+/**
+ * Reply to the last user message in a conversation
+ */
+export async function replyAsBrandSpecialist(
+  messages: ChatMessage[],
+  brandVoice?: BrandVoice,
+  provider: ContentProvider = getContentProvider(),
+  signal?: AbortSignal
+): Promise<string> {
+  const systemPrompt = brandVoice
+    ? `${BRAND_SPECIALIST_SYSTEM_PROMPT}\n\n${buildBrandVoiceSection(brandVoice)}`
+    : BRAND_SPECIALIST_SYSTEM_PROMPT;
+
+  const transcript = messages
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((message) => `${message.role === "user" ? "User" : "Specialist"}: ${message.content}`)
+    .join("\n\n");
+
+  const reply = await provider.complete({
+    systemPrompt,
+    userPrompt: `${transcript}\n\nSpecialist:`,
+    temperature: 0.7,
+    maxTokens: 1500,
+    signal,
+  });
+
+  return reply.trim();
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { rgbaPixels } from "./imageProcessing";
+import { extractImagesPalette, extractPalette, mergePalette, nearestColorName } from "./colorPalette";
+
+vi.mock("./imageProcessing", () => ({
+  rgbaPixels: vi.fn(),
+}));
+
+function pixels(...runs: [rgba: [number, number, number, number], count: number][]): Buffer {
+  return Buffer.from(runs.flatMap(([rgba, count]) => Array.from({ length: count }, () => rgba).flat()));
+}
+
+const teal: [number, number, number, number] = [47, 93, 80, 255];
+const white: [number, number, number, number] = [255, 255, 255, 255];
+
+describe("Color palette", () => {
+  describe("extractPalette", () => {
+    it("should return each dominant color exactly, with its coverage", () => {
+      const palette = extractPalette(pixels([teal, 300], [white, 100]));
+
+      expect(palette).toEqual([
+        { hex: "#2F5D50", rgb: [47, 93, 80], hsl: [163, 33, 27], coverage: 75, name: expect.any(String) },
+        { hex: "#FFFFFF", rgb: [255, 255, 255], hsl: [0, 0, 100], coverage: 25, name: "White" },
+      ]);
+    });
+
+    it("should ignore transparent pixels", () => {
+      const palette = extractPalette(pixels([teal, 10], [[255, 0, 0, 0], 90]));
+
+      expect(palette.map((color) => [color.hex, color.coverage])).toEqual([["#2F5D50", 100]]);
+    });
+
+    it("should fold slight variations of a color into one", () => {
+      const palette = extractPalette(pixels([white, 100], [[250, 252, 251, 255], 100], [[0, 0, 0, 255], 50]));
+
+      expect(palette.map((color) => [color.name, color.coverage])).toEqual([
+        ["White", 80],
+        ["Black", 20],
+      ]);
+    });
+
+    it("should return at most the requested number of colors", () => {
+      const rainbow = pixels(
+        [[255, 0, 0, 255], 10],
+        [[0, 255, 0, 255], 10],
+        [[0, 0, 255, 255], 10],
+        [[255, 255, 0, 255], 10],
+        [white, 10]
+      );
+
+      expect(extractPalette(rainbow, 3)).toHaveLength(3);
+      expect(extractPalette(Buffer.alloc(0))).toEqual([]);
+    });
+  });
+
+  it("should name colors after the nearest named color", () => {
+    expect(nearestColorName([250, 250, 250])).toBe("White");
+    expect(nearestColorName([0, 0, 120])).toBe("Navy");
+    expect(nearestColorName([200, 20, 40])).toBe("Crimson");
+  });
+
+  it("should sample every image of a job together", async () => {
+    vi.mocked(rgbaPixels).mockResolvedValueOnce(pixels([teal, 30])).mockResolvedValueOnce(pixels([white, 10]));
+    const image = { data: Buffer.from("jpeg"), mimeType: "image/jpeg" as const, width: 800, height: 600 };
+
+    const palette = await extractImagesPalette([image, image]);
+
+    expect(rgbaPixels).toHaveBeenCalledTimes(2);
+    expect(palette.map((color) => [color.hex, color.coverage])).toEqual([
+      ["#2F5D50", 75],
+      ["#FFFFFF", 25],
+    ]);
+  });
+
+  describe("mergePalette", () => {
+    const palette = extractPalette(pixels([teal, 50], [white, 30], [[200, 160, 70, 255], 20]));
+
+    it("should tag measured colors the model listed, by hex code or by name", () => {
+      const colors = mergePalette(
+        {
+          primary: ["Deep green #2E5C4F (Nature)"],
+          secondary: ["White (Purity, Modernity)"],
+          accent: ["Neon pink"],
+          description: "Calm botanical greens",
+        },
+        palette
+      );
+
+      expect(colors.primary).toEqual(["Deep green #2E5C4F (Nature)"]);
+      expect(colors.description).toBe("Calm botanical greens");
+      expect(colors.palette?.map((color) => [color.hex, color.role, color.label])).toEqual([
+        ["#2F5D50", "primary", "Deep green #2E5C4F (Nature)"],
+        ["#FFFFFF", "secondary", "White (Purity, Modernity)"],
+        ["#C8A046", undefined, undefined],
+      ]);
+    });
+
+    it("should not tag colors the model's hex codes are far from", () => {
+      const colors = mergePalette({ primary: ["#FF00FF"], secondary: [], description: "" }, palette);
+
+      expect(colors.palette?.every((color) => color.role === undefined)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Color Palette Extraction
+ * Measures a job's dominant colors from its pixels by median cut, so swatches show the
+ * images' real colors rather than whatever the vision model wrote. The measured palette
+ * is merged into the model's `colors`, tagging colors the model also listed.
+ */
+
+import { PALETTE_ROLES, type BrandVisionAnalysis, type PaletteColor } from "@shared/brandVisionAnalysis";
+import { rgbaPixels, type VisionImage } from "./imageProcessing";
+
+type Rgb = [number, number, number];
+
+// Up to 64x64 pixels per image: plenty for dominant colors, cheap to cut
+const PALETTE_SAMPLE_EDGE = 64;
+export const PALETTE_SIZE = 6;
+
+// Pixels this transparent are background, not color
+const MIN_ALPHA = 128;
+// Colors closer than this (colorDistance) are one color; median cut splits large areas
+// of one color when JPEG noise gives them a little spread
+const MERGE_DISTANCE = 24;
+// How close a color the model gave as hex must be to tag a measured color with its role
+const ROLE_MATCH_DISTANCE = 80;
+
+const NAMED_COLORS: [string, string][] = [
+  ["White", "#FFFFFF"],
+  ["Ivory", "#FFFFF0"],
+  ["Cream", "#FFFDD0"],
+  ["Beige", "#F5F5DC"],
+  ["Light Gray", "#D3D3D3"],
+  ["Silver", "#C0C0C0"],
+  ["Gray", "#808080"],
+  ["Charcoal", "#36454F"],
+  ["Black", "#000000"],
+  ["Red", "#FF0000"],
+  ["Crimson", "#DC143C"],
+  ["Maroon", "#800000"],
+  ["Coral", "#FF7F50"],
+  ["Salmon", "#FA8072"],
+  ["Pink", "#FFC0CB"],
+  ["Magenta", "#FF00FF"],
+  ["Purple", "#800080"],
+  ["Lavender", "#E6E6FA"],
+  ["Navy", "#000080"],
+  ["Blue", "#0000FF"],
+  ["Sky Blue", "#87CEEB"],
+  ["Teal", "#008080"],
+  ["Turquoise", "#40E0D0"],
+  ["Mint", "#98FF98"],
+  ["Green", "#008000"],
+  ["Forest Green", "#228B22"],
+  ["Lime", "#00FF00"],
+  ["Olive", "#808000"],
+  ["Sage", "#9CAF88"],
+  ["Yellow", "#FFFF00"],
+  ["Gold", "#FFD700"],
+  ["Mustard", "#FFDB58"],
+  ["Orange", "#FFA500"],
+  ["Peach", "#FFE5B4"],
+  ["Tan", "#D2B48C"],
+  ["Brown", "#A52A2A"],
+  ["Chocolate", "#7B3F00"],
+];
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb.map((channel) => channel.toString(16).padStart(2, "0")).join("").toUpperCase()}`;
+}
+
+function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, Math.round(lightness * 100)];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue =
+    max === red ? ((green - blue) / delta + 6) % 6 : max === green ? (blue - red) / delta + 2 : (red - green) / delta + 4;
+  return [Math.round(hue * 60) % 360, Math.round(saturation * 100), Math.round(lightness * 100)];
+}
+
+/**
+ * Perceived distance between two colors (the "redmean" approximation), 0 to about 765
+ */
+export function colorDistance([r1, g1, b1]: Rgb, [r2, g2, b2]: Rgb): number {
+  const redMean = (r1 + r2) / 2;
+  const [dr, dg, db] = [r1 - r2, g1 - g2, b1 - b2];
+  return Math.sqrt((2 + redMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - redMean) / 256) * db * db);
+}
+
+export function nearestColorName(rgb: Rgb): string {
+  let nearest = NAMED_COLORS[0];
+  for (const named of NAMED_COLORS) {
+    if (colorDistance(rgb, hexToRgb(named[1])) < colorDistance(rgb, hexToRgb(nearest[1]))) nearest = named;
+  }
+  return nearest[0];
+}
+
+/**
+ * The channel whose values spread the most (summed squared deviation, so bigger groups
+ * count for more), and its mean
+ */
+function widestChannel(pixels: Rgb[]): { channel: number; spread: number; mean: number } {
+  let widest = { channel: 0, spread: 0, mean: 0 };
+  for (let channel = 0; channel < 3; channel++) {
+    const mean = pixels.reduce((sum, pixel) => sum + pixel[channel], 0) / pixels.length;
+    const spread = pixels.reduce((sum, pixel) => sum + (pixel[channel] - mean) ** 2, 0);
+    if (spread > widest.spread) widest = { channel, spread, mean };
+  }
+  return widest;
+}
+
+function averageColor(pixels: Rgb[]): Rgb {
+  const sums = pixels.reduce<Rgb>((sum, pixel) => [sum[0] + pixel[0], sum[1] + pixel[1], sum[2] + pixel[2]], [0, 0, 0]);
+  return sums.map((sum) => Math.round(sum / pixels.length)) as Rgb;
+}
+
+/**
+ * Dominant colors of RGBA pixels by median cut, most coverage first
+ * Repeatedly splits the group of pixels that spreads the most along its widest channel;
+ * each group's average is one color. Groups split at the channel's mean rather than its
+ * median, so a group of two flat colors (a logo on a background) splits between them
+ * instead of averaging some of one into the other. Transparent pixels are skipped.
+ */
+export function extractPalette(rgba: Uint8Array, maxColors = PALETTE_SIZE): PaletteColor[] {
+  const pixels: Rgb[] = [];
+  for (let index = 0; index + 3 < rgba.length; index += 4) {
+    if (rgba[index + 3] >= MIN_ALPHA) pixels.push([rgba[index], rgba[index + 1], rgba[index + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const groups = [pixels];
+  while (groups.length < maxColors) {
+    let split = -1;
+    let widest = { channel: 0, spread: 0, mean: 0 };
+    groups.forEach((group, index) => {
+      const candidate = widestChannel(group);
+      if (candidate.spread > widest.spread) {
+        split = index;
+        widest = candidate;
+      }
+    });
+    if (split < 0) break; // Every group is a single color
+
+    // Some values lie on each side of the mean whenever they spread at all
+    const { channel, mean } = widest;
+    const group = groups[split];
+    groups.splice(
+      split,
+      1,
+      group.filter((pixel) => pixel[channel] < mean),
+      group.filter((pixel) => pixel[channel] >= mean)
+    );
+  }
+
+  // Fold groups that came out as the same color into the larger one
+  const colors: { rgb: Rgb; count: number }[] = [];
+  for (const group of groups.sort((a, b) => b.length - a.length)) {
+    const rgb = averageColor(group);
+    const same = colors.find((color) => colorDistance(color.rgb, rgb) < MERGE_DISTANCE);
+    if (!same) {
+      colors.push({ rgb, count: group.length });
+      continue;
+    }
+    const count = same.count + group.length;
+    same.rgb = same.rgb.map((channel, index) =>
+      Math.round((channel * same.count + rgb[index] * group.length) / count)
+    ) as Rgb;
+    same.count = count;
+  }
+
+  return colors
+    .sort((a, b) => b.count - a.count)
+    .map(({ rgb, count }) => ({
+      hex: rgbToHex(rgb),
+      rgb,
+      hsl: rgbToHsl(rgb),
+      coverage: Math.round((count / pixels.length) * 1000) / 10,
+      name: nearestColorName(rgb),
+    }));
+}
+
+/**
+ * The dominant colors across a job's images, each image sampled at the same size
+ */
+export async function extractImagesPalette(images: VisionImage[]): Promise<PaletteColor[]> {
+  const samples = await Promise.all(images.map((image) => rgbaPixels(image.data, PALETTE_SAMPLE_EDGE)));
+  return extractPalette(Buffer.concat(samples));
+}
+
+/**
+ * The model's colors with the measured palette added
+ * A measured color takes the role (primary, secondary, accent) and wording of the first
+ * color the model listed that is close to it, going by its hex code or its name.
+ */
+export function mergePalette(
+  colors: BrandVisionAnalysis["colors"],
+  palette: PaletteColor[]
+): BrandVisionAnalysis["colors"] {
+  const merged: PaletteColor[] = palette.map((color) => ({ ...color, role: undefined, label: undefined }));
+
+  for (const role of PALETTE_ROLES) {
+    for (const described of colors[role] ?? []) {
+      const hex = described.match(/#[0-9a-f]{6}\b/i)?.[0];
+      const text = described.toLowerCase().replace(/grey/g, "gray");
+      const candidates = merged.filter((color) => !color.role);
+      const match = hex
+        ? candidates
+            .filter((color) => colorDistance(color.rgb, hexToRgb(hex)) < ROLE_MATCH_DISTANCE)
+            .sort((a, b) => colorDistance(a.rgb, hexToRgb(hex)) - colorDistance(b.rgb, hexToRgb(hex)))[0]
+        : candidates.find((color) => new RegExp(`\\b${color.name.toLowerCase()}\\b`).test(text));
+      if (match) Object.assign(match, { role, label: described });
+    }
+  }
+
+  return { ...colors, palette: merged };
+}
@@ -155,12 +155,12 @@ describe("Brand Management", () => {
 
     const brand = await caller.brand.create({
       brandName: "Test Wellness Brand",
-      logoUrl: "https://example.com/logo.png",
+      logoKey: "brand-assets/1/1700000000000-abcdef-logo.png",
     });
 
     expect(brand).toHaveProperty("id");
     expect(brand.brandName).toBe("Test Wellness Brand");
-    expect(brand.logoUrl).toBe("https://example.com/logo.png");
+    expect(brand.logoUrl).toContain("1700000000000-abcdef-logo.png");
     expect(brand.userId).toBe(ctx.user!.id);
   });
 
@@ -0,0 +1,31 @@
+/**
+ * Content Generation Event Bus
+ * In-process pub/sub between streamed generations and SSE connections
+ */
+
+import { EventEmitter } from "events";
+import type { ContentGenerationEvent } from "@shared/contentGenerationEvents";
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection
+emitter.setMaxListeners(0);
+
+const channel = (inputId: number) => `input:${inputId}`;
+
+export function publishContentGenerationEvent(event: ContentGenerationEvent): void {
+  emitter.emit(channel(event.inputId), event);
+}
+
+/**
+ * Subscribe to a single generation's events
+ * Returns an unsubscribe function
+ */
+export function subscribeToContentGeneration(
+  inputId: number,
+  listener: (event: ContentGenerationEvent) => void
+): () => void {
+  emitter.on(channel(inputId), listener);
+  return () => {
+    emitter.off(channel(inputId), listener);
+  };
+}
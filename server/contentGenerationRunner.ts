@@ -0,0 +1,95 @@
+/**
+ * Streamed Content Generation
+ * Saves each piece to generatedContent as the model finishes it and publishes it to
+ * SSE listeners, so an interrupted generation still leaves its finished pieces behind.
+ */
+
+import type { ContentPlatform } from "@shared/contentPlatforms";
+import type { BrandInput } from "../drizzle/schema";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { streamMandarinContent, type BrandVoice } from "./aiContentGenerator";
+import type { ContentProvider } from "./contentProviders";
+import { publishContentGenerationEvent } from "./contentGenerationEvents";
+
+/**
+ * Run a generation for a brandInputs row created with generationStatus "generating"
+ * Never throws: failures are recorded on the row and published as a status event.
+ */
+export async function runStreamingContentGeneration(
+  brandInput: BrandInput,
+  platforms: ContentPlatform[] | undefined,
+  provider: ContentProvider,
+  brandVoice?: BrandVoice
+): Promise<void> {
+  let pieceCount = 0;
+
+  try {
+    await streamMandarinContent(
+      {
+        productInfo: brandInput.productInfo,
+        sellingPoints: brandInput.sellingPoints,
+        targetAudience: brandInput.targetAudience || undefined,
+        painPoints: brandInput.painPoints || undefined,
+        scenarios: brandInput.scenarios || undefined,
+        ctaOffer: brandInput.ctaOffer || undefined,
+        platforms,
+        brandVoice,
+      },
+      async (piece) => {
+        const saved = await db.createGeneratedContent({
+          inputId: brandInput.id,
+          userId: brandInput.userId,
+          platform: piece.platform,
+          storyboardMandarin: piece.storyboardMandarin,
+          storyboardShots: JSON.stringify(piece.storyboardShots),
+          captionMandarin: piece.captionMandarin,
+          hashtags: JSON.stringify(piece.hashtags),
+          coverText: piece.coverText || null,
+          ruleViolations: JSON.stringify(piece.ruleViolations),
+          jsonRepairs: JSON.stringify(piece.jsonRepairs),
+          explanationEnglish: piece.explanationEnglish,
+          userFeedbackScore: null,
+          userFeedbackText: null,
+          contentProvider: provider.name,
+          contentModel: provider.model,
+        });
+        pieceCount++;
+
+        publishContentGenerationEvent({
+          type: "piece",
+          inputId: brandInput.id,
+          contentId: saved.id,
+          platform: saved.platform,
+          captionMandarin: saved.captionMandarin,
+        });
+      },
+      provider,
+      AbortSignal.timeout(ENV.contentStageTimeoutMs)
+    );
+
+    await db.updateBrandInputGenerationStatus(brandInput.id, "complete");
+    publishContentGenerationEvent({
+      type: "status",
+      inputId: brandInput.id,
+      status: "complete",
+      pieceCount,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[ContentGeneration] Input ${brandInput.id} failed after ${pieceCount} pieces:`, error);
+
+    try {
+      await db.updateBrandInputGenerationStatus(brandInput.id, "failed", errorMessage);
+    } catch (dbError) {
+      console.error("[ContentGeneration] Failed to record failure:", dbError);
+    }
+    publishContentGenerationEvent({
+      type: "status",
+      inputId: brandInput.id,
+      status: "failed",
+      pieceCount,
+      errorMessage,
+    });
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Content Generation SSE Stream
+ * GET /api/content-generations/:inputId/events - pieces as they are saved, then the final status
+ */
+
+import type { Express, Request, Response } from "express";
+import { UNAUTHED_ERR_MSG } from "@shared/const";
+import type {
+  ContentGenerationEvent,
+  ContentGenerationStatusEvent,
+} from "@shared/contentGenerationEvents";
+import type { BrandInput } from "../drizzle/schema";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import { canAccess } from "./authorization";
+import { subscribeToContentGeneration } from "./contentGenerationEvents";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// The generation may run on another instance, whose events never reach this bus
+const DB_SYNC_INTERVAL_MS = 3 * 1000;
+// The runner records a failure once its timeout fires; past this the instance running it died
+const STALE_GENERATION_GRACE_MS = 60 * 1000;
+
+function writeEvent(res: Response, event: ContentGenerationEvent) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+function toStatusEvent(brandInput: BrandInput, pieceCount: number): ContentGenerationStatusEvent {
+  const stale =
+    brandInput.generationStatus === "generating" &&
+    Date.now() - brandInput.createdAt.getTime() > ENV.contentStageTimeoutMs + STALE_GENERATION_GRACE_MS;
+
+  return {
+    type: "status",
+    inputId: brandInput.id,
+    status: stale ? "failed" : brandInput.generationStatus,
+    pieceCount,
+    errorMessage: stale ? "Generation was interrupted" : brandInput.generationError,
+  };
+}
+
+export function registerContentGenerationEventRoutes(app: Express) {
+  app.get("/api/content-generations/:inputId/events", async (req: Request, res: Response) => {
+    let user;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch (error) {
+      res.status(401).json({ error: UNAUTHED_ERR_MSG });
+      return;
+    }
+
+    const inputId = Number(req.params.inputId);
+    if (!Number.isInteger(inputId)) {
+      res.status(400).json({ error: "Invalid input ID" });
+      return;
+    }
+
+    // Express 4 ignores rejected handlers; a DB failure must not become an unhandled rejection
+    try {
+      const brandInput = await db.getBrandInputById(inputId);
+      if (!brandInput || !(await canAccess(user, brandInput))) {
+        res.status(404).json({ error: "Content not found" });
+        return;
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      const sentContentIds = new Set<number>();
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeatTimer);
+        clearInterval(syncTimer);
+        res.end();
+      };
+
+      const send = (event: ContentGenerationEvent) => {
+        if (closed) return;
+        if (event.type === "piece") {
+          if (sentContentIds.has(event.contentId)) return;
+          sentContentIds.add(event.contentId);
+        }
+        writeEvent(res, event);
+        if (event.type === "status" && event.status !== "generating") close();
+      };
+
+      // Subscribe before reading the DB so no piece lands between the two
+      const unsubscribe = subscribeToContentGeneration(inputId, send);
+
+      const syncFromDb = async () => {
+        const current = await db.getBrandInputById(inputId);
+        const pieces = (await db.getGeneratedContentByInputId(inputId)).filter((piece) => piece.rootId === null);
+        for (const piece of pieces) {
+          send({
+            type: "piece",
+            inputId,
+            contentId: piece.id,
+            platform: piece.platform,
+            captionMandarin: piece.captionMandarin,
+          });
+        }
+        if (current) {
+          const status = toStatusEvent(current, pieces.length);
+          if (status.status !== "generating") send(status);
+        }
+      };
+
+      const heartbeatTimer = setInterval(() => {
+        if (!closed) res.write(": heartbeat\n\n");
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const syncTimer = setInterval(() => {
+        syncFromDb().catch((error) => console.error("[ContentGenerationStream] DB sync failed:", error));
+      }, DB_SYNC_INTERVAL_MS);
+
+      req.on("close", close);
+
+      // Initial snapshot: pieces saved so far, and the final status if already finished
+      try {
+        await syncFromDb();
+      } catch (error) {
+        console.error("[ContentGenerationStream] Snapshot failed:", error);
+      }
+    } catch (error) {
+      console.error("[ContentGenerationStream] Stream failed:", error);
+      if (res.headersSent) res.end();
+      else res.status(500).json({ error: "Failed to stream generation events" });
+    }
+  });
+}
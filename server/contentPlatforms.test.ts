@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { checkPlatformRules } from "@shared/contentPlatforms";
+
+const douyinPiece = {
+  platform: "douyin" as const,
+  captionMandarin: "早起一杯草本茶，元气满满开启新一天！有机草本，清润回甘，喝了还想喝。",
+  hashtags: ["草本茶", "健康生活"],
+  coverText: "一杯元气草本茶",
+};
+
+describe("Platform Rules", () => {
+  it("should accept a piece within its platform's limits", () => {
+    expect(checkPlatformRules(douyinPiece)).toEqual([]);
+  });
+
+  it("should count Chinese characters, not UTF-16 units", () => {
+    const caption = "😀".repeat(40); // 40 characters, 80 UTF-16 units
+    expect(checkPlatformRules({ ...douyinPiece, captionMandarin: caption })).toEqual([]);
+  });
+
+  it("should flag caption length, hashtag count and cover text per platform", () => {
+    expect(checkPlatformRules({ ...douyinPiece, captionMandarin: "太短了" })[0]).toContain(
+      "Caption is 3 characters; Douyin needs 15-55"
+    );
+    expect(checkPlatformRules({ ...douyinPiece, hashtags: ["草本茶"] })[0]).toContain(
+      "1 hashtags; Douyin needs 2-5"
+    );
+    expect(checkPlatformRules({ ...douyinPiece, coverText: "" })[0]).toContain("Cover text is 0 characters");
+    expect(
+      checkPlatformRules({ ...douyinPiece, platform: "wechat", captionMandarin: douyinPiece.captionMandarin.repeat(2) })
+    ).toContain("WeChat posts have no cover text");
+  });
+
+  it("should flag banned advertising terms anywhere in the copy", () => {
+    expect(checkPlatformRules({ ...douyinPiece, hashtags: ["草本茶", "国家级好茶"] })).toEqual([
+      "Banned advertising terms: 国家级",
+    ]);
+  });
+});
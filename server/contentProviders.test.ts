@@ -0,0 +1,272 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CONTENT_PROVIDER_NAMES,
+  deepseekContentProvider,
+  fixtureContentProvider,
+  getContentProvider,
+} from "./contentProviders";
+import { generateMandarinContent, refineContentPiece, streamMandarinContent } from "./aiContentGenerator";
+import { StageValidationError } from "./visionJobRetry";
+import { storyboardDurationSeconds } from "@shared/contentPieces";
+import { DEFAULT_BRAND_VOICE_PROFILE } from "@shared/brandVoice";
+
+const input = {
+  productInfo: "A premium wellness tea blend made from organic herbs.",
+  sellingPoints: "100% organic ingredients, no artificial additives",
+};
+
+describe("Content Providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe("getContentProvider", () => {
+    it("should resolve every registered provider by name", () => {
+      for (const name of CONTENT_PROVIDER_NAMES) {
+        expect(getContentProvider(name).name).toBe(name);
+      }
+    });
+
+    it("should reject unknown provider names", () => {
+      expect(() => getContentProvider("unknown")).toThrow("Unknown content provider: unknown");
+    });
+  });
+
+  describe("generateMandarinContent", () => {
+    it("should generate 5 pieces offline with the fixture provider", async () => {
+      const pieces = await generateMandarinContent(input, fixtureContentProvider);
+
+      expect(pieces).toHaveLength(5);
+      pieces.forEach(piece => {
+        expect(piece.storyboardMandarin).toBeTruthy();
+        expect(piece.captionMandarin).toBeTruthy();
+        expect(piece.explanationEnglish).toBeTruthy();
+        expect(storyboardDurationSeconds(piece.storyboardShots)).toBeGreaterThanOrEqual(15);
+        expect(storyboardDurationSeconds(piece.storyboardShots)).toBeLessThanOrEqual(30);
+        expect(piece.ruleViolations).toEqual([]);
+      });
+    });
+
+    it("should reject storyboards that miss the 15-30 second target", async () => {
+      const fixture = JSON.parse(await fixtureContentProvider.complete({} as never));
+      fixture[2].storyboardShots = [{ ...fixture[2].storyboardShots[0], durationSeconds: 45 }];
+      const provider = { ...fixtureContentProvider, complete: async () => JSON.stringify(fixture) };
+
+      await expect(generateMandarinContent(input, provider)).rejects.toBeInstanceOf(StageValidationError);
+    });
+
+    it("should send the model, prompt and sampling settings to DeepSeek", async () => {
+      vi.stubEnv("DEEPSEEK_API_KEY", "test-key");
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: await fixtureContentProvider.complete({} as never) } }],
+        }),
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const pieces = await generateMandarinContent(input, deepseekContentProvider);
+
+      expect(pieces).toHaveLength(5);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.deepseek.com/v1/chat/completions");
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe("deepseek-chat");
+      expect(body.temperature).toBe(0.7);
+      expect(body.messages[1].content).toContain(input.productInfo);
+      expect(body.messages[1].content).toContain("- Piece 1: wechat");
+    });
+
+    it("should assign every piece to one of the requested platforms", async () => {
+      vi.stubEnv("DEEPSEEK_API_KEY", "test-key");
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: await fixtureContentProvider.complete({} as never) } }],
+        }),
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const pieces = await generateMandarinContent(
+        { ...input, platforms: ["douyin", "xiaohongshu"] },
+        deepseekContentProvider
+      );
+
+      // The fixture answers with wechat pieces too; each piece keeps its assigned platform
+      expect(pieces.map((piece) => piece.platform)).toEqual([
+        "douyin",
+        "xiaohongshu",
+        "douyin",
+        "xiaohongshu",
+        "douyin",
+      ]);
+      const prompt = JSON.parse(fetchMock.mock.calls[0][1].body).messages[1].content;
+      expect(prompt).toContain("- Piece 1: douyin");
+      expect(prompt).toContain("- Piece 2: xiaohongshu");
+      expect(prompt).toContain("- Piece 3: douyin");
+      expect(prompt).not.toContain("wechat (WeChat)");
+    });
+
+    it("should write in the brand's voice and flag its forbidden terms", async () => {
+      const complete = vi.spyOn(fixtureContentProvider, "complete");
+      const brandVoice = {
+        brandName: "Herbal Co",
+        profile: {
+          ...DEFAULT_BRAND_VOICE_PROFILE,
+          tone: { formality: 20, energy: 50, humor: 90, luxury: 50 },
+          mandarinBrandName: "草本家",
+          productTerms: [{ source: "Calm Blend", mandarin: "安神草本茶" }],
+          forbiddenTerms: ["元气"],
+          exampleCaptions: ["一杯草本，慢下来。"],
+        },
+      };
+
+      const pieces = await generateMandarinContent({ ...input, brandVoice }, fixtureContentProvider);
+
+      const { userPrompt } = complete.mock.calls[0][0];
+      expect(userPrompt).toContain("Brand Voice (Herbal Co)");
+      expect(userPrompt).toContain("leans Casual (20/100 from Casual to Formal)");
+      expect(userPrompt).toContain("strongly Playful");
+      expect(userPrompt).not.toContain("Calm (50/100");
+      expect(userPrompt).toContain("Calm Blend = 安神草本茶");
+      expect(userPrompt).toContain("1. 一杯草本，慢下来。");
+      // Only the Douyin fixture copy says 元气
+      expect(pieces.map((piece) => piece.ruleViolations.length > 0)).toEqual([false, true, false, false, true]);
+      expect(pieces[1].ruleViolations).toContain("Terms Herbal Co never uses: 元气");
+      complete.mockRestore();
+    });
+
+    it("should fail fast when the DeepSeek key is missing", async () => {
+      vi.stubEnv("DEEPSEEK_API_KEY", "");
+
+      await expect(generateMandarinContent(input, deepseekContentProvider)).rejects.toThrow(
+        "DEEPSEEK_API_KEY is not configured"
+      );
+    });
+  });
+
+  describe("streamMandarinContent", () => {
+    it("should deliver each piece in order as the fixture stream completes it", async () => {
+      const pieces: string[] = [];
+      const delivered = await streamMandarinContent(
+        input,
+        (piece, index) => {
+          expect(index).toBe(pieces.length);
+          pieces.push(piece.platform);
+        },
+        fixtureContentProvider
+      );
+
+      expect(delivered).toBe(5);
+      expect(pieces).toEqual(["wechat", "douyin", "xiaohongshu", "wechat", "douyin"]);
+    });
+
+    it("should skip invalid pieces and keep the rest", async () => {
+      const fixture = JSON.parse(await fixtureContentProvider.complete({} as never));
+      fixture[1].storyboardShots = [];
+      const provider = { ...fixtureContentProvider, stream: undefined, complete: async () => JSON.stringify(fixture) };
+      const onPiece = vi.fn();
+
+      await expect(streamMandarinContent(input, onPiece, provider)).resolves.toBe(4);
+      expect(onPiece).toHaveBeenCalledTimes(4);
+    });
+
+    it("should keep each piece on the platform assigned to its position", async () => {
+      const fixture = JSON.parse(await fixtureContentProvider.complete({} as never));
+      fixture[0].storyboardShots = [];
+      const provider = { ...fixtureContentProvider, stream: undefined, complete: async () => JSON.stringify(fixture) };
+      const platforms: string[] = [];
+
+      await streamMandarinContent(
+        { ...input, platforms: ["xiaohongshu", "douyin"] },
+        (piece) => {
+          platforms.push(piece.platform);
+        },
+        provider
+      );
+
+      // Piece 1 was invalid, so delivery starts with piece 2's platform
+      expect(platforms).toEqual(["douyin", "xiaohongshu", "douyin", "xiaohongshu"]);
+    });
+
+    it("should keep delivered pieces when the stream fails part-way", async () => {
+      const fixtureText = await fixtureContentProvider.complete({} as never);
+      const firstPieceEnd = JSON.stringify(JSON.parse(fixtureText)[0]).length + 1;
+      const provider = {
+        ...fixtureContentProvider,
+        async *stream() {
+          yield fixtureText.slice(0, firstPieceEnd + 10);
+          throw new Error("connection reset");
+        },
+      };
+      const onPiece = vi.fn();
+
+      await expect(streamMandarinContent(input, onPiece, provider)).rejects.toThrow("connection reset");
+      expect(onPiece).toHaveBeenCalledTimes(1);
+    });
+
+    it("should read DeepSeek server-sent event deltas", async () => {
+      vi.stubEnv("DEEPSEEK_API_KEY", "test-key");
+      const fixtureText = await fixtureContentProvider.complete({} as never);
+      const events = Array.from({ length: Math.ceil(fixtureText.length / 100) }, (_, i) =>
+        `data: ${JSON.stringify({ choices: [{ delta: { content: fixtureText.slice(i * 100, (i + 1) * 100) } }] })}\n\n`
+      ).join("") + "data: [DONE]\n\n";
+      const bytes = new TextEncoder().encode(events);
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        // Split mid-line to exercise buffering across reads
+        body: new ReadableStream({
+          start(controller) {
+            for (let i = 0; i < bytes.length; i += 37) controller.enqueue(bytes.slice(i, i + 37));
+            controller.close();
+          },
+        }),
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const delivered = await streamMandarinContent(input, () => {}, deepseekContentProvider);
+
+      expect(delivered).toBe(5);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+  });
+
+  describe("refineContentPiece", () => {
+    it("should send the brief, current version and instruction, keeping the platform", async () => {
+      const [original] = await generateMandarinContent(input, fixtureContentProvider);
+      const { ruleViolations, ...piece } = { ...original, platform: "douyin" as const };
+      const complete = vi.fn(async () =>
+        JSON.stringify({ ...piece, platform: "wechat", hashtags: ["#草本茶", "#养生"] })
+      );
+
+      const refined = await refineContentPiece(
+        input,
+        piece,
+        "make it more playful",
+        { ...fixtureContentProvider, complete }
+      );
+
+      const { userPrompt } = complete.mock.calls[0][0];
+      expect(userPrompt).toContain(input.productInfo);
+      expect(userPrompt).toContain(piece.captionMandarin);
+      expect(userPrompt).toContain("make it more playful");
+      expect(userPrompt).toContain("douyin (Douyin)");
+      expect(refined.platform).toBe("douyin");
+      expect(refined.hashtags).toEqual(["草本茶", "养生"]);
+      expect(refined.ruleViolations).toEqual(expect.any(Array));
+    });
+
+    it("should reject a revision that breaks the piece contract", async () => {
+      const [{ ruleViolations, ...piece }] = await generateMandarinContent(input, fixtureContentProvider);
+      const provider = {
+        ...fixtureContentProvider,
+        complete: async () => JSON.stringify({ ...piece, storyboardShots: [] }),
+      };
+
+      await expect(refineContentPiece(input, piece, "shorter caption", provider)).rejects.toBeInstanceOf(
+        StageValidationError
+      );
+    });
+  });
+});
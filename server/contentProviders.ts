@@ -0,0 +1,309 @@
+/**
+ * Content Provider Registry
+ * Text-generation backends for generateMandarinContent. The provider name and
+ * model are recorded on generatedContent / visionJobs rows for vendor comparison
+ */
+
+import { readFileSync } from "fs";
+import { HttpError } from "@shared/_core/errors";
+import { CONTENT_PLATFORMS } from "@shared/contentPlatforms";
+import { ENV } from "./_core/env";
+import { invokeLLM } from "./_core/llm";
+
+export const CONTENT_PROVIDER_NAMES = ["deepseek", "forge", "openai", "fixture"] as const;
+export type ContentProviderName = (typeof CONTENT_PROVIDER_NAMES)[number];
+
+export interface ContentCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface ContentProvider {
+  name: ContentProviderName;
+  model: string;
+  /** Returns the raw completion text; parsing stays with the caller */
+  complete(request: ContentCompletionRequest): Promise<string>;
+  /** Yields the completion text as it is generated; see completionChunks for providers without it */
+  stream?(request: ContentCompletionRequest): AsyncIterable<string>;
+}
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string | undefined;
+  apiKeyName: string;
+  model: string;
+}
+
+/**
+ * POST to an OpenAI-compatible /chat/completions endpoint, throwing on error responses
+ */
+async function postChatCompletion(
+  label: string,
+  config: OpenAICompatibleConfig,
+  request: ContentCompletionRequest,
+  stream: boolean
+): Promise<Response> {
+  if (!config.apiKey) {
+    throw new Error(`${config.apiKeyName} is not configured`);
+  }
+
+  const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${config.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(stream ? { stream: true } : {}),
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    // Read as text: gateway errors (502/503) often return HTML rather than JSON
+    const errorText = await response.text();
+    throw new HttpError(response.status, `${label} API error: ${errorText}`);
+  }
+
+  return response;
+}
+
+/**
+ * Call any OpenAI-compatible /chat/completions endpoint
+ */
+async function completeOpenAICompatible(
+  label: string,
+  config: OpenAICompatibleConfig,
+  request: ContentCompletionRequest
+): Promise<string> {
+  const response = await postChatCompletion(label, config, request, false);
+  const data = await response.json();
+  const contentText = data.choices?.[0]?.message?.content;
+
+  if (!contentText) {
+    console.error(`${label} response structure:`, JSON.stringify(data, null, 2));
+    throw new Error(`No content generated from ${label}`);
+  }
+
+  return contentText;
+}
+
+/**
+ * Stream an OpenAI-compatible completion, yielding each content delta
+ * The response is server-sent events: `data: {chunk}` lines ending with `data: [DONE]`
+ */
+async function* streamOpenAICompatible(
+  label: string,
+  config: OpenAICompatibleConfig,
+  request: ContentCompletionRequest
+): AsyncGenerator<string> {
+  const response = await postChatCompletion(label, config, request, true);
+  if (!response.body) {
+    throw new Error(`No stream body from ${label}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? ""; // Keep the partial last line for the next read
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const payload = line.slice("data:".length).trim();
+        if (payload === "[DONE]") return;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    // Stops the download when the caller breaks out early
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * A provider's completion as chunks, streamed when the provider supports it
+ */
+export function completionChunks(
+  provider: ContentProvider,
+  request: ContentCompletionRequest
+): AsyncIterable<string> {
+  if (provider.stream) {
+    return provider.stream(request);
+  }
+  return (async function* () {
+    yield await provider.complete(request);
+  })();
+}
+
+const deepseekConfig = (model: string): OpenAICompatibleConfig => ({
+  baseUrl: "https://api.deepseek.com/v1",
+  apiKey: process.env.DEEPSEEK_API_KEY,
+  apiKeyName: "DEEPSEEK_API_KEY",
+  model,
+});
+
+const openAICompatibleConfig = (model: string): OpenAICompatibleConfig => ({
+  baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || "https://api.openai.com/v1",
+  apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+  apiKeyName: "OPENAI_COMPATIBLE_API_KEY",
+  model,
+});
+
+export const deepseekContentProvider: ContentProvider = {
+  name: "deepseek",
+  model: "deepseek-chat",
+
+  complete(request) {
+    return completeOpenAICompatible("DeepSeek", deepseekConfig(this.model), request);
+  },
+
+  stream(request) {
+    return streamOpenAICompatible("DeepSeek", deepseekConfig(this.model), request);
+  },
+};
+
+/**
+ * Any OpenAI-compatible vendor, configured through OPENAI_COMPATIBLE_* variables
+ */
+export const openAICompatibleContentProvider: ContentProvider = {
+  name: "openai",
+  get model() {
+    return process.env.OPENAI_COMPATIBLE_MODEL || "gpt-4o-mini";
+  },
+
+  complete(request) {
+    return completeOpenAICompatible("OpenAI-compatible", openAICompatibleConfig(this.model), request);
+  },
+
+  stream(request) {
+    return streamOpenAICompatible("OpenAI-compatible", openAICompatibleConfig(this.model), request);
+  },
+};
+
+export const forgeContentProvider: ContentProvider = {
+  name: "forge",
+  model: "gemini-2.5-flash",
+
+  async complete(request) {
+    const result = await invokeLLM({
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+      maxTokens: request.maxTokens,
+      signal: request.signal,
+    });
+
+    const content = result.choices[0]?.message?.content;
+    if (typeof content !== "string" || !content) {
+      throw new Error("No content generated from forge LLM");
+    }
+    return content;
+  },
+};
+
+// Copy that passes each platform's rules (see shared/contentPlatforms.ts)
+const FIXTURE_PLATFORM_COPY = {
+  wechat: {
+    captionMandarin:
+      "每天清晨一杯草本茶，是我们留给自己的温柔时光。精选有机草本，不含人工添加，口感清润回甘。无论是忙碌的工作日，还是悠闲的周末，都能陪你慢慢找回身体的平衡与好状态。",
+    hashtags: ["草本茶"],
+    coverText: "",
+  },
+  douyin: {
+    captionMandarin: "早起一杯草本茶，元气满满开启新一天！有机草本，清润回甘，喝了还想喝。",
+    hashtags: ["草本茶", "健康生活", "早安"],
+    coverText: "一杯元气草本茶",
+  },
+  xiaohongshu: {
+    captionMandarin:
+      "姐妹们，最近真的爱上了这款有机草本茶！我是那种一忙起来就忘记喝水的人，自从办公桌上放了它，每天都会记得泡上一杯。味道很清爽，带一点点回甘，不苦不涩，冷泡热泡都好喝。配料表很干净，全部是有机草本，没有人工添加，喝得很安心。我的小习惯是早上热泡一杯暖胃，下午换成冷泡解腻，晚上就不喝啦。坚持了一个月，感觉整个人的状态都轻盈了不少，推荐给同样忙碌的你～",
+    hashtags: ["草本茶", "好物分享", "健康生活", "打工人日常"],
+    coverText: "打工人的续命草本茶",
+  },
+} as const;
+
+const DEFAULT_CONTENT_FIXTURE = Array.from({ length: 5 }, (_, i) => {
+  const platform = CONTENT_PLATFORMS[i % CONTENT_PLATFORMS.length];
+  return {
+    platform,
+    storyboardMandarin: `分镜${i + 1}：产品特写，柔和自然光，展示使用前后的变化。`,
+    storyboardShots: [
+      { durationSeconds: 5, framing: "close-up", cameraMotion: "slow push-in", onScreenText: "天然成分", voiceover: "每一天，都值得被温柔对待。", musicCue: "soft piano intro" },
+      { durationSeconds: 6, framing: "medium", cameraMotion: "static", onScreenText: "", voiceover: "温和配方，安心呵护。", musicCue: "piano continues" },
+      { durationSeconds: 7, framing: "wide", cameraMotion: "pan left", onScreenText: "开启健康新生活", voiceover: "现在就试试吧。", musicCue: "uplifting swell" },
+    ],
+    ...FIXTURE_PLATFORM_COPY[platform],
+    explanationEnglish: `Fixture piece ${i + 1}: replayed output for offline runs.`,
+  };
+});
+
+const FIXTURE_CHUNK_SIZE = 64;
+
+/**
+ * Fixture replay - returns CONTENT_FIXTURE_PATH (or a built-in fixture) verbatim
+ */
+export const fixtureContentProvider: ContentProvider = {
+  name: "fixture",
+  model: "fixture-replay",
+
+  async complete(request) {
+    request.signal?.throwIfAborted();
+    const fixturePath = process.env.CONTENT_FIXTURE_PATH;
+    if (fixturePath) {
+      return readFileSync(fixturePath, "utf-8");
+    }
+    return JSON.stringify(DEFAULT_CONTENT_FIXTURE);
+  },
+
+  // Replays the same text in small chunks so streaming paths run offline too
+  async *stream(request) {
+    const text = await this.complete(request);
+    for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + FIXTURE_CHUNK_SIZE);
+    }
+  },
+};
+
+const providers: Record<ContentProviderName, ContentProvider> = {
+  deepseek: deepseekContentProvider,
+  forge: forgeContentProvider,
+  openai: openAICompatibleContentProvider,
+  fixture: fixtureContentProvider,
+};
+
+export function isContentProviderName(name: string): name is ContentProviderName {
+  return (CONTENT_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Resolve a provider by name, falling back to CONTENT_PROVIDER (default "deepseek")
+ */
+export function getContentProvider(name?: string | null): ContentProvider {
+  const resolved = name || ENV.contentProvider;
+  if (!isContentProviderName(resolved)) {
+    throw new Error(`Unknown content provider: ${resolved}`);
+  }
+  return providers[resolved];
+}
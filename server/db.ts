@@ -1,4 +1,4 @@
-import { eq, and, lt } from "drizzle-orm";
+import { eq, ne, and, gt, lt, lte, or, isNull, inArray, desc, count, max } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, 
@@ -21,14 +21,26 @@ import {
   visionJobs,
   VisionJob,
   InsertVisionJob,
+  visionJobImages,
+  VisionJobImage,
   visionJobSessions,
   VisionJobSession,
   InsertVisionJobSession,
   visionJobOutputs,
   VisionJobOutput,
-  InsertVisionJobOutput
+  InsertVisionJobOutput,
+  User,
+  workspaces,
+  Workspace,
+  workspaceMembers,
+  WorkspaceMember,
+  workspaceInvitations,
+  WorkspaceInvitation,
+  InsertWorkspaceInvitation
 } from "../drizzle/schema";
+import type { WorkspaceRole } from "@shared/workspaces";
 import { ENV } from './_core/env';
+import { BRAND_VISION_SCHEMA_VERSION, parseBrandVisionAnalysis } from "@shared/brandVisionAnalysis";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -116,6 +128,225 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+// Workspace functions
+
+/**
+ * Create a workspace with its creator as owner
+ */
+export async function createWorkspace(name: string, ownerId: number): Promise<Workspace> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(workspaces).values({ name, createdBy: ownerId });
+  const insertedId = Number(result[0].insertId);
+  await db.insert(workspaceMembers).values({ workspaceId: insertedId, userId: ownerId, role: "owner" });
+
+  const inserted = await db.select().from(workspaces).where(eq(workspaces.id, insertedId)).limit(1);
+  return inserted[0]!;
+}
+
+/**
+ * The user's personal workspace, created with its owner membership on first use
+ * The insert is ignored when a concurrent first request already created it (unique personalForUserId)
+ */
+export async function getOrCreatePersonalWorkspace(userId: number): Promise<Workspace> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const findPersonal = () =>
+    db.select().from(workspaces).where(eq(workspaces.personalForUserId, userId)).limit(1);
+
+  const existing = await findPersonal();
+  if (existing[0]) return existing[0];
+
+  await db.transaction(async (tx) => {
+    const result = await tx
+      .insert(workspaces)
+      .ignore()
+      .values({ name: "Personal", createdBy: userId, personalForUserId: userId });
+    if (result[0].affectedRows === 1) {
+      const workspaceId = Number(result[0].insertId);
+      await tx.insert(workspaceMembers).values({ workspaceId, userId, role: "owner" });
+    }
+  });
+
+  const created = await findPersonal();
+  return created[0]!;
+}
+
+export async function getWorkspaceById(workspaceId: number): Promise<Workspace | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(workspaces).where(eq(workspaces.id, workspaceId)).limit(1);
+  return result[0];
+}
+
+export async function renameWorkspace(workspaceId: number, name: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(workspaces).set({ name }).where(eq(workspaces.id, workspaceId));
+}
+
+/**
+ * Workspaces the user belongs to, oldest first, with their role in each
+ */
+export async function getWorkspacesForUser(userId: number): Promise<(Workspace & { role: WorkspaceRole })[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(workspaces.id);
+  return rows.map(({ workspace, role }) => ({ ...workspace, role }));
+}
+
+export async function getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Members of a workspace with the name and email of their login
+ */
+export async function getWorkspaceMembers(
+  workspaceId: number
+): Promise<(WorkspaceMember & Pick<User, "name" | "email">)[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ member: workspaceMembers, name: users.name, email: users.email })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(workspaceMembers.createdAt);
+  return rows.map(({ member, name, email }) => ({ ...member, name, email }));
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(workspaceMembers)
+    .set({ role })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+}
+
+export async function removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+}
+
+export async function countWorkspaceOwners(workspaceId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db
+    .select({ total: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, "owner")));
+  return result[0]?.total ?? 0;
+}
+
+export async function createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(workspaceInvitations).values(invitation);
+  const insertedId = Number(result[0].insertId);
+
+  const inserted = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.id, insertedId)).limit(1);
+  return inserted[0]!;
+}
+
+export async function getWorkspaceInvitationById(invitationId: number): Promise<WorkspaceInvitation | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.id, invitationId)).limit(1);
+  return result[0];
+}
+
+/**
+ * Unaccepted, unexpired invitations for a workspace
+ */
+export async function getPendingWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(workspaceInvitations)
+    .where(and(
+      eq(workspaceInvitations.workspaceId, workspaceId),
+      isNull(workspaceInvitations.acceptedAt),
+      gt(workspaceInvitations.expiresAt, new Date())
+    ));
+}
+
+/**
+ * Unaccepted, unexpired invitations addressed to an email, with the workspace name
+ */
+export async function getPendingInvitationsForEmail(
+  email: string
+): Promise<(WorkspaceInvitation & { workspaceName: string })[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ invitation: workspaceInvitations, workspaceName: workspaces.name })
+    .from(workspaceInvitations)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceInvitations.workspaceId))
+    .where(and(
+      eq(workspaceInvitations.email, email.toLowerCase()),
+      isNull(workspaceInvitations.acceptedAt),
+      gt(workspaceInvitations.expiresAt, new Date())
+    ));
+  return rows.map(({ invitation, workspaceName }) => ({ ...invitation, workspaceName }));
+}
+
+/**
+ * Add the user to the invitation's workspace and mark it accepted
+ * An existing membership keeps its role
+ */
+export async function acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(workspaceMembers)
+    .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+    .onDuplicateKeyUpdate({ set: { userId } });
+  await db
+    .update(workspaceInvitations)
+    .set({ acceptedBy: userId, acceptedAt: new Date() })
+    .where(eq(workspaceInvitations.id, invitation.id));
+}
+
+export async function deleteWorkspaceInvitation(invitationId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(workspaceInvitations).where(eq(workspaceInvitations.id, invitationId));
+}
+
 // Brand management functions
 export async function createBrand(brand: InsertBrand): Promise<Brand> {
   const db = await getDb();
@@ -128,11 +359,11 @@ export async function createBrand(brand: InsertBrand): Promise<Brand> {
   return inserted[0]!;
 }
 
-export async function getBrandsByUserId(userId: number): Promise<Brand[]> {
+export async function getBrandsByWorkspaceId(workspaceId: number): Promise<Brand[]> {
   const db = await getDb();
   if (!db) return [];
 
-  return await db.select().from(brands).where(eq(brands.userId, userId));
+  return await db.select().from(brands).where(eq(brands.workspaceId, workspaceId));
 }
 
 export async function getBrandById(brandId: number): Promise<Brand | undefined> {
@@ -143,6 +374,13 @@ export async function getBrandById(brandId: number): Promise<Brand | undefined>
   return result[0];
 }
 
+export async function updateBrandVoiceProfile(brandId: number, voiceProfile: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(brands).set({ voiceProfile }).where(eq(brands.id, brandId));
+}
+
 // Brand assets functions
 export async function createBrandAsset(asset: InsertBrandAsset): Promise<BrandAsset> {
   const db = await getDb();
@@ -162,6 +400,36 @@ export async function getBrandAssetsByBrandId(brandId: number): Promise<BrandAss
   return await db.select().from(brandAssets).where(eq(brandAssets.brandId, brandId));
 }
 
+export async function getBrandAssetById(assetId: number): Promise<BrandAsset | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(brandAssets).where(eq(brandAssets.id, assetId)).limit(1);
+  return result[0];
+}
+
+/**
+ * A brand's asset with the same contents, for dedupe on upload
+ */
+export async function getBrandAssetByHash(brandId: number, contentHash: string): Promise<BrandAsset | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(brandAssets)
+    .where(and(eq(brandAssets.brandId, brandId), eq(brandAssets.contentHash, contentHash)))
+    .limit(1);
+  return result[0];
+}
+
+export async function deleteBrandAsset(assetId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(brandAssets).where(eq(brandAssets.id, assetId));
+}
+
 // Brand inputs (freemium form) functions
 export async function createBrandInput(input: InsertBrandInput): Promise<BrandInput> {
   const db = await getDb();
@@ -174,11 +442,11 @@ export async function createBrandInput(input: InsertBrandInput): Promise<BrandIn
   return inserted[0]!;
 }
 
-export async function getBrandInputsByUserId(userId: number): Promise<BrandInput[]> {
+export async function getBrandInputsByWorkspaceId(workspaceId: number): Promise<BrandInput[]> {
   const db = await getDb();
   if (!db) return [];
 
-  return await db.select().from(brandInputs).where(eq(brandInputs.userId, userId));
+  return await db.select().from(brandInputs).where(eq(brandInputs.workspaceId, workspaceId));
 }
 
 export async function getBrandInputById(inputId: number): Promise<BrandInput | undefined> {
@@ -189,6 +457,20 @@ export async function getBrandInputById(inputId: number): Promise<BrandInput | u
   return result[0];
 }
 
+export async function updateBrandInputGenerationStatus(
+  inputId: number,
+  status: BrandInput["generationStatus"],
+  errorMessage?: string
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(brandInputs)
+    .set({ generationStatus: status, generationError: errorMessage ?? null })
+    .where(eq(brandInputs.id, inputId));
+}
+
 // Generated content functions
 export async function createGeneratedContent(content: InsertGeneratedContent): Promise<GeneratedContent> {
   const db = await getDb();
@@ -208,6 +490,44 @@ export async function getGeneratedContentByInputId(inputId: number): Promise<Gen
   return await db.select().from(generatedContent).where(eq(generatedContent.inputId, inputId));
 }
 
+export async function getGeneratedContentById(contentId: number): Promise<GeneratedContent | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(generatedContent).where(eq(generatedContent.id, contentId)).limit(1);
+  return result[0];
+}
+
+/**
+ * Save a refinement as the next version of its root piece
+ * The root row stays locked until the insert, so concurrent refinements cannot claim the same version
+ */
+export async function createContentRevision(
+  content: Omit<InsertGeneratedContent, "version"> & { rootId: number }
+): Promise<GeneratedContent> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const insertedId = await db.transaction(async (tx) => {
+    await tx
+      .select({ id: generatedContent.id })
+      .from(generatedContent)
+      .where(eq(generatedContent.id, content.rootId))
+      .for("update");
+
+    const result = await tx
+      .select({ latest: max(generatedContent.version) })
+      .from(generatedContent)
+      .where(or(eq(generatedContent.id, content.rootId), eq(generatedContent.rootId, content.rootId)));
+
+    const inserted = await tx.insert(generatedContent).values({ ...content, version: (result[0]?.latest ?? 0) + 1 });
+    return Number(inserted[0].insertId);
+  });
+
+  const inserted = await db.select().from(generatedContent).where(eq(generatedContent.id, insertedId)).limit(1);
+  return inserted[0]!;
+}
+
 export async function updateContentFeedback(
   contentId: number, 
   feedbackScore: number, 
@@ -238,11 +558,19 @@ export async function createConversation(conversation: InsertConversation): Prom
   return inserted[0]!;
 }
 
-export async function getConversationsByUserId(userId: number): Promise<Conversation[]> {
+export async function getConversationsByWorkspaceId(workspaceId: number): Promise<Conversation[]> {
   const db = await getDb();
   if (!db) return [];
 
-  return await db.select().from(conversations).where(eq(conversations.userId, userId));
+  return await db.select().from(conversations).where(eq(conversations.workspaceId, workspaceId));
+}
+
+export async function getConversationById(conversationId: number): Promise<Conversation | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+  return result[0];
 }
 
 export async function updateConversation(conversationId: number, messageLog: string): Promise<void> {
@@ -264,35 +592,53 @@ export async function updateConversation(conversationId: number, messageLog: str
 
 /**
  * Create a new vision job
+ * Every image is recorded in visionJobImages; the first is also kept on the job row
  * Returns the created job with all fields populated
  */
 export async function createVisionJob(
+  workspaceId: number,
   userId: number,
-  imageUrl: string,
+  imageUrls: string[],
   analysisPurpose: string,
   outputFormat: string,
   creativityLevel: number,
   imageContext?: string,
-  additionalInstructions?: string
+  additionalInstructions?: string,
+  visionProvider?: string,
+  contentProvider?: string,
+  brandId?: number
 ): Promise<VisionJob> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
+  if (imageUrls.length === 0) throw new Error("A vision job needs at least one image");
+
+  // One transaction: a worker claiming the pending row must already see all of its images
+  const jobId = await db.transaction(async (tx) => {
+    const result = await tx.insert(visionJobs).values({
+      workspaceId,
+      userId,
+      brandId: brandId ?? null,
+      imageUrl: imageUrls[0],
+      imageContext: imageContext || null,
+      analysisPurpose,
+      outputFormat,
+      creativityLevel: creativityLevel.toString(),
+      additionalInstructions: additionalInstructions || null,
+      visionProvider: visionProvider || null,
+      contentProvider: contentProvider || null,
+      status: "pending",
+      progress: 0,
+      retryCount: 0,
+      maxRetries: 3,
+    });
 
-  const result = await db.insert(visionJobs).values({
-    userId,
-    imageUrl,
-    imageContext: imageContext || null,
-    analysisPurpose,
-    outputFormat,
-    creativityLevel: creativityLevel.toString(),
-    additionalInstructions: additionalInstructions || null,
-    status: "pending",
-    progress: 0,
-    retryCount: 0,
-    maxRetries: 3,
+    const insertedId = Number(result[0].insertId);
+    await tx.insert(visionJobImages).values(
+      imageUrls.map((imageUrl, index) => ({ jobId: insertedId, imageUrl, position: index + 1 }))
+    );
+    return insertedId;
   });
 
-  const jobId = Number(result[0].insertId);
   const jobs = await db
     .select()
     .from(visionJobs)
@@ -303,21 +649,130 @@ export async function createVisionJob(
 }
 
 /**
- * Get the next pending job for processing (FIFO order)
- * Returns the oldest pending job, or null if none exist
+ * Get the images a job analyses, in position order
+ * Jobs created before visionJobImages existed have no rows - callers fall back to imageUrl
  */
-export async function getNextPendingVisionJob(): Promise<VisionJob | null> {
+export async function getVisionJobImages(jobId: number): Promise<VisionJobImage[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(visionJobImages)
+    .where(eq(visionJobImages.jobId, jobId))
+    .orderBy(visionJobImages.position);
+}
+
+/**
+ * Atomically claim the next runnable job for a worker (FIFO order)
+ * Runnable = pending, error with retries left whose backoff has elapsed,
+ * or in-flight with an expired or released lease. Reclaiming an expired lease uses up a retry,
+ * and a job whose retries are used up that way is marked failed instead of claimed.
+ * The conditional UPDATE only succeeds for one worker, so a job is never picked twice.
+ */
+export async function claimNextVisionJob(
+  workerId: string,
+  leaseMs: number
+): Promise<VisionJob | null> {
   const db = await getDb();
   if (!db) return null;
 
-  const result = await db
+  const now = new Date();
+  const leaseFree = or(isNull(visionJobs.lockedUntil), lt(visionJobs.lockedUntil, now));
+
+  const candidates = await db
     .select()
     .from(visionJobs)
-    .where(eq(visionJobs.status, "pending"))
+    .where(
+      and(
+        or(
+          eq(visionJobs.status, "pending"),
+          and(
+            eq(visionJobs.status, "error"),
+            lt(visionJobs.retryCount, visionJobs.maxRetries),
+            or(isNull(visionJobs.nextAttemptAt), lte(visionJobs.nextAttemptAt, now))
+          ),
+          inArray(visionJobs.status, ["gemini_analyzing", "deepseek_generating"])
+        ),
+        leaseFree
+      )
+    )
     .orderBy(visionJobs.createdAt)
-    .limit(1);
+    .limit(5);
 
-  return result[0] || null;
+  for (const candidate of candidates) {
+    const claimable = and(eq(visionJobs.id, candidate.id), eq(visionJobs.status, candidate.status), leaseFree);
+
+    // An expired (not released) lease means the worker crashed or hung: that attempt counts as a retry
+    const leaseExpired =
+      (candidate.status === "gemini_analyzing" || candidate.status === "deepseek_generating") &&
+      candidate.lockedUntil !== null;
+    const retryCount = leaseExpired ? candidate.retryCount + 1 : candidate.retryCount;
+
+    if (leaseExpired && retryCount >= candidate.maxRetries) {
+      const stage = candidate.status === "gemini_analyzing" ? "gemini" : "deepseek";
+      await db
+        .update(visionJobs)
+        .set({
+          status: "failed",
+          progress: 0,
+          errorMessage: `Failed after ${candidate.maxRetries} retries in ${stage}: the worker stopped responding`,
+          errorStage: `${stage}_lease`,
+          retryCount,
+          nextAttemptAt: null,
+          lockedBy: null,
+          lockedUntil: null,
+        })
+        .where(claimable);
+      continue;
+    }
+
+    const lockedUntil = new Date(Date.now() + leaseMs);
+    const result = await db
+      .update(visionJobs)
+      .set({ lockedBy: workerId, lockedUntil, retryCount })
+      .where(claimable);
+
+    // Another worker won the race for this row - try the next candidate
+    if (result[0].affectedRows === 1) {
+      return { ...candidate, lockedBy: workerId, lockedUntil, retryCount };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extend a worker's lease while the job is still running
+ * Returns false when the lease was lost (expired and reclaimed by another worker)
+ */
+export async function renewVisionJobLease(
+  jobId: number,
+  workerId: string,
+  leaseMs: number
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(visionJobs)
+    .set({ lockedUntil: new Date(Date.now() + leaseMs) })
+    .where(and(eq(visionJobs.id, jobId), eq(visionJobs.lockedBy, workerId)));
+
+  return result[0].affectedRows === 1;
+}
+
+/**
+ * Release a worker's lease once processing has finished
+ */
+export async function releaseVisionJobLease(jobId: number, workerId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(visionJobs)
+    .set({ lockedBy: null, lockedUntil: null })
+    .where(and(eq(visionJobs.id, jobId), eq(visionJobs.lockedBy, workerId)));
 }
 
 /**
@@ -336,21 +791,29 @@ export async function getVisionJobById(jobId: number): Promise<VisionJob | null>
 }
 
 /**
- * Update vision job status and progress
+ * Update vision job status and progress for the worker holding the job's lease
  * Handles all status transitions and output storage
+ * Cancelled jobs are never overwritten, so a worker finishing late can't revive them, and
+ * neither are jobs whose lease another worker has reclaimed.
+ * Returns false when the update was skipped for either reason
  */
 export async function updateVisionJobStatus(
   jobId: number,
+  workerId: string,
   status: VisionJob["status"],
   progress: number,
   updates?: {
     geminOutput?: string;
+    analysisCacheKey?: string;
     deepseekOutput?: string;
     errorMessage?: string;
     errorStage?: string;
     retryCount?: number;
+    contentProvider?: string;
+    contentModel?: string;
+    nextAttemptAt?: Date | null;
   }
-): Promise<void> {
+): Promise<boolean> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
@@ -365,6 +828,10 @@ export async function updateVisionJobStatus(
     updateData.geminAnalyzedAt = new Date();
   }
 
+  if (updates?.analysisCacheKey) {
+    updateData.analysisCacheKey = updates.analysisCacheKey;
+  }
+
   if (updates?.deepseekOutput) {
     updateData.deepseekOutput = updates.deepseekOutput;
     updateData.deepseekGeneratedAt = new Date();
@@ -382,20 +849,113 @@ export async function updateVisionJobStatus(
     updateData.retryCount = updates.retryCount;
   }
 
+  if (updates?.contentProvider) {
+    updateData.contentProvider = updates.contentProvider;
+  }
+
+  if (updates?.contentModel) {
+    updateData.contentModel = updates.contentModel;
+  }
+
+  if (updates?.nextAttemptAt !== undefined) {
+    updateData.nextAttemptAt = updates.nextAttemptAt;
+  }
+
   if (status === "complete") {
     updateData.completedAt = new Date();
   }
 
-  await db.update(visionJobs).set(updateData).where(eq(visionJobs.id, jobId));
+  const result = await db
+    .update(visionJobs)
+    .set(updateData)
+    .where(
+      and(eq(visionJobs.id, jobId), eq(visionJobs.lockedBy, workerId), ne(visionJobs.status, "cancelled"))
+    );
+
+  return result[0].affectedRows === 1;
 }
 
 /**
- * Get all jobs for a user (for history/dashboard)
+ * The newest analysis checkpointed under a cache key in the workspace, or null
+ * Keys cover the images and every analysis input; see visionAnalysisCacheKey.
  */
-export async function getUserVisionJobs(
-  userId: number,
+export async function findCachedVisionAnalysis(
+  workspaceId: number,
+  analysisCacheKey: string
+): Promise<{ jobId: number; geminOutput: string } | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ jobId: visionJobs.id, geminOutput: visionJobs.geminOutput })
+    .from(visionJobs)
+    .where(and(eq(visionJobs.workspaceId, workspaceId), eq(visionJobs.analysisCacheKey, analysisCacheKey)))
+    .orderBy(desc(visionJobs.geminAnalyzedAt))
+    .limit(1);
+
+  const cached = result[0];
+  return cached?.geminOutput ? { jobId: cached.jobId, geminOutput: cached.geminOutput } : null;
+}
+
+/**
+ * Cancel a job that hasn't reached a terminal state
+ * Returns false when the job already completed, failed or was cancelled
+ */
+export async function cancelVisionJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(visionJobs)
+    .set({ status: "cancelled", nextAttemptAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(visionJobs.id, jobId),
+        inArray(visionJobs.status, ["pending", "gemini_analyzing", "deepseek_generating", "error"])
+      )
+    );
+
+  return result[0].affectedRows === 1;
+}
+
+/**
+ * Put a failed, cancelled or errored job back in the queue with a fresh retry budget
+ * Checkpointed stage outputs are kept, so the job resumes where it stopped
+ */
+export async function requeueVisionJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(visionJobs)
+    .set({
+      status: "pending",
+      progress: 0,
+      retryCount: 0,
+      nextAttemptAt: null,
+      errorMessage: null,
+      errorStage: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(visionJobs.id, jobId),
+        inArray(visionJobs.status, ["failed", "cancelled", "error"])
+      )
+    );
+
+  return result[0].affectedRows === 1;
+}
+
+/**
+ * Get a page of a workspace's jobs, newest first (for history/dashboard)
+ * Pass statuses to filter, e.g. only failed or cancelled jobs
+ */
+export async function getWorkspaceVisionJobs(
+  workspaceId: number,
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  statuses?: VisionJob["status"][]
 ): Promise<VisionJob[]> {
   const db = await getDb();
   if (!db) return [];
@@ -403,42 +963,46 @@ export async function getUserVisionJobs(
   return await db
     .select()
     .from(visionJobs)
-    .where(eq(visionJobs.userId, userId))
-    .orderBy(visionJobs.createdAt)
+    .where(workspaceVisionJobsFilter(workspaceId, statuses))
+    .orderBy(desc(visionJobs.createdAt), desc(visionJobs.id))
     .limit(limit)
     .offset(offset);
 }
 
 /**
- * Get failed jobs that need retry
- * Returns jobs with status='error' and retryCount < maxRetries
+ * Count a workspace's jobs with the same filter as getWorkspaceVisionJobs (for pagination)
  */
-export async function getFailedJobsForRetry(): Promise<VisionJob[]> {
+export async function countWorkspaceVisionJobs(
+  workspaceId: number,
+  statuses?: VisionJob["status"][]
+): Promise<number> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return 0;
 
-  return await db
-    .select()
+  const result = await db
+    .select({ total: count() })
     .from(visionJobs)
-    .where(
-      and(
-        eq(visionJobs.status, "error"),
-        lt(visionJobs.retryCount, visionJobs.maxRetries)
-      )
-    )
-    .orderBy(visionJobs.updatedAt)
-    .limit(5);
+    .where(workspaceVisionJobsFilter(workspaceId, statuses));
+  return result[0]?.total ?? 0;
+}
+
+function workspaceVisionJobsFilter(workspaceId: number, statuses?: VisionJob["status"][]) {
+  return statuses && statuses.length > 0
+    ? and(eq(visionJobs.workspaceId, workspaceId), inArray(visionJobs.status, statuses))
+    : eq(visionJobs.workspaceId, workspaceId);
 }
 
 /**
  * Mark job as complete and store structured outputs
  * Parses Gemini and DeepSeek outputs and stores in visionJobOutputs
+ * Returns false, storing nothing, when the job was cancelled or reclaimed meanwhile
  */
 export async function completeVisionJob(
   jobId: number,
+  workerId: string,
   geminOutput: string,
   deepseekOutput: string
-): Promise<void> {
+): Promise<boolean> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
@@ -447,33 +1011,25 @@ export async function completeVisionJob(
   const cleanDeepseekOutput = deepseekOutput.replace(/```json\n?|\n?```/g, "").trim();
 
   // Update job status with cleaned outputs
-  await updateVisionJobStatus(jobId, "complete", 100, {
+  const completed = await updateVisionJobStatus(jobId, workerId, "complete", 100, {
     geminOutput: cleanGeminOutput,
     deepseekOutput: cleanDeepseekOutput,
   });
+  if (!completed) return false;
 
   // Get job details for output storage
   const job = await getVisionJobById(jobId);
   if (!job) throw new Error("Job not found");
 
-  // Parse outputs for structured storage
-  let geminData: any = {};
-  let deepseekData: any = [];
+  // The worker validates analyses before checkpointing them; anything that
+  // still fails here (e.g. a pre-validation checkpoint) is stored unversioned
+  const analysis = parseBrandVisionAnalysis(cleanGeminOutput);
+  if (!analysis) {
+    console.error(`[DB] Job ${jobId} analysis does not match the brand vision schema`);
+  }
 
+  let deepseekData: unknown = [];
   try {
-    const geminParsed = JSON.parse(cleanGeminOutput);
-    geminData = {
-      colors_primary: geminParsed.colors?.primary ? JSON.stringify(geminParsed.colors.primary) : null,
-      colors_secondary: geminParsed.colors?.secondary ? JSON.stringify(geminParsed.colors.secondary) : null,
-      colors_description: geminParsed.colors?.description || null,
-      mood: geminParsed.mood_and_tone?.mood || null,
-      tone: geminParsed.mood_and_tone?.tone || null,
-      composition_layout: geminParsed.composition?.layout || null,
-      brand_personality: geminParsed.brand_insights?.brand_personality || null,
-      perceived_industry: geminParsed.brand_insights?.perceived_industry || null,
-      target_audience: geminParsed.brand_insights?.target_audience || null,
-    };
-
     deepseekData = JSON.parse(cleanDeepseekOutput);
   } catch (e) {
     console.error("[DB] Failed to parse AI outputs:", e);
@@ -483,18 +1039,21 @@ export async function completeVisionJob(
   await db.insert(visionJobOutputs).values({
     jobId,
     userId: job.userId,
-    colors_primary: geminData.colors_primary,
-    colors_secondary: geminData.colors_secondary,
-    colors_description: geminData.colors_description,
-    mood: geminData.mood,
-    tone: geminData.tone,
-    composition_layout: geminData.composition_layout,
-    brand_personality: geminData.brand_personality,
-    perceived_industry: geminData.perceived_industry,
-    target_audience: geminData.target_audience,
+    schemaVersion: analysis ? BRAND_VISION_SCHEMA_VERSION : null,
+    colors_primary: analysis ? JSON.stringify(analysis.colors.primary) : null,
+    colors_secondary: analysis ? JSON.stringify(analysis.colors.secondary) : null,
+    colors_description: analysis?.colors.description ?? null,
+    colors_palette: analysis?.colors.palette ? JSON.stringify(analysis.colors.palette) : null,
+    mood: analysis?.mood_and_tone.mood ?? null,
+    tone: analysis?.mood_and_tone.tone ?? null,
+    composition_layout: analysis?.composition?.layout ?? null,
+    brand_personality: analysis?.brand_insights.brand_personality ?? null,
+    perceived_industry: analysis?.brand_insights.perceived_industry ?? null,
+    target_audience: analysis?.brand_insights.target_audience ?? null,
     content_pieces: JSON.stringify(deepseekData),
     isTrainingData: true,
   });
+  return true;
 }
 
 /**
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as storage from "./storage";
+import { buildUploadKey, confirmDirectUpload, createDirectUpload } from "./directUpload";
+
+vi.mock("./storage", () => ({
+  storagePresignPut: vi.fn(async (key: string) => ({ key, uploadUrl: `https://r2.example.com/${key}?X-Amz-Signature=abc` })),
+  storageHead: vi.fn(),
+  storageGetBytes: vi.fn(),
+  storageDelete: vi.fn().mockResolvedValue(undefined),
+}));
+
+const jpegStart = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+
+describe("Direct uploads", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("buildUploadKey", () => {
+    it("should generate unique keys for the same file name", () => {
+      expect(buildUploadKey("brand-assets/123", "test.jpg")).not.toBe(buildUploadKey("brand-assets/123", "test.jpg"));
+    });
+
+    it("should sanitize file names with special characters", () => {
+      expect(buildUploadKey("brand-assets/123", "test image@#$%.jpg")).toMatch(
+        /^brand-assets\/123\/\d+-[a-f0-9]+-test_image____\.jpg$/
+      );
+    });
+  });
+
+  describe("createDirectUpload", () => {
+    it("should presign the declared type and exact size under the prefix", async () => {
+      const upload = await createDirectUpload("brand-assets/123", { fileName: "logo.jpeg", mimeType: "image/jpeg", size: 2048 }, ["photo"]);
+
+      expect(upload.key).toMatch(/^brand-assets\/123\/\d+-[a-f0-9]+-logo\.jpg$/);
+      expect(upload.headers).toEqual({ "Content-Type": "image/jpeg" });
+      expect(upload.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(storage.storagePresignPut).toHaveBeenCalledWith(upload.key, "image/jpeg", 2048, 600);
+    });
+
+    it("should refuse types and sizes that are not accepted", async () => {
+      await expect(
+        createDirectUpload("p", { fileName: "icon.svg", mimeType: "image/svg+xml", size: 100 }, ["photo"])
+      ).rejects.toThrow("icon.svg is not a supported image");
+      await expect(
+        createDirectUpload("p", { fileName: "clip.mp4", mimeType: "video/mp4", size: 100 }, ["photo"])
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(
+        createDirectUpload("p", { fileName: "huge.png", mimeType: "image/png", size: 16 * 1024 * 1024 }, ["photo"])
+      ).rejects.toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+      expect(storage.storagePresignPut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmDirectUpload", () => {
+    const key = "brand-assets/123/1700000000000-abcdef-logo.jpg";
+
+    it("should identify the stored object from its first bytes", async () => {
+      vi.mocked(storage.storageHead).mockResolvedValue({ contentLength: 2048, contentType: "image/jpeg" });
+      vi.mocked(storage.storageGetBytes).mockResolvedValue(jpegStart);
+
+      await expect(confirmDirectUpload("brand-assets/123", key, ["photo"])).resolves.toEqual({
+        key,
+        mimeType: "image/jpeg",
+        assetType: "photo",
+        byteSize: 2048,
+      });
+      expect(storage.storageGetBytes).toHaveBeenCalledWith(key, 256);
+      expect(storage.storageDelete).not.toHaveBeenCalled();
+    });
+
+    it("should not confirm keys outside the prefix", async () => {
+      for (const foreign of ["brand-assets/456/1-a-logo.jpg", "brand-assets/12/1-a-logo.jpg", "brand-assets/123/4/1-a-logo.jpg"]) {
+        await expect(confirmDirectUpload("brand-assets/123", foreign, ["photo"])).rejects.toMatchObject({ code: "NOT_FOUND" });
+      }
+      expect(storage.storageHead).not.toHaveBeenCalled();
+    });
+
+    it("should report uploads that never arrived", async () => {
+      vi.mocked(storage.storageHead).mockResolvedValue(null);
+
+      await expect(confirmDirectUpload("brand-assets/123", key, ["photo"])).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+
+    it("should delete objects that are not what was declared", async () => {
+      vi.mocked(storage.storageHead).mockResolvedValue({ contentLength: 11, contentType: "image/jpeg" });
+      vi.mocked(storage.storageGetBytes).mockResolvedValue(Buffer.from("Hello World"));
+
+      await expect(confirmDirectUpload("brand-assets/123", key, ["photo"])).rejects.toThrow(/Unsupported file type/);
+      expect(storage.storageDelete).toHaveBeenCalledWith(key);
+
+      vi.mocked(storage.storageHead).mockResolvedValue({ contentLength: 2048, contentType: "image/png" });
+      vi.mocked(storage.storageGetBytes).mockResolvedValue(jpegStart);
+
+      await expect(confirmDirectUpload("brand-assets/123", key, ["photo"])).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(storage.storageDelete).toHaveBeenCalledTimes(2);
+    });
+  });
+});
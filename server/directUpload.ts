@@ -0,0 +1,113 @@
+/**
+ * Direct Uploads
+ * Browsers upload files straight to storage on presigned PUT URLs rather than through
+ * the API. Issuing a URL checks the declared type and size; confirming the upload checks
+ * the stored object really is that file, and deletes it when it is not.
+ * Uploads that are never confirmed leave an unreferenced object behind.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { randomBytes } from "crypto";
+import { ASSET_FILE_TYPES, type AssetMimeType, type AssetType } from "@shared/assets";
+import { assertWithinSizeLimit, identifyFile, SNIFF_BYTES } from "./fileType";
+import { storageDelete, storageGetBytes, storageHead, storagePresignPut } from "./storage";
+
+const UPLOAD_URL_TTL_SECONDS = 10 * 60;
+
+export interface UploadRequest {
+  fileName: string;
+  mimeType: string; // As reported by the browser
+  size: number; // Bytes
+}
+
+export interface DirectUpload {
+  key: string;
+  uploadUrl: string;
+  headers: Record<string, string>; // Must be sent with the PUT exactly as given
+  expiresAt: Date;
+}
+
+export interface ConfirmedUpload {
+  key: string;
+  mimeType: AssetMimeType;
+  assetType: AssetType;
+  byteSize: number;
+}
+
+/**
+ * Generate a unique storage key to prevent enumeration
+ */
+export function buildUploadKey(prefix: string, fileName: string): string {
+  const randomSuffix = randomBytes(8).toString('hex');
+  const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `${prefix}/${Date.now()}-${randomSuffix}-${sanitizedFileName}`;
+}
+
+/**
+ * Whether key is one createDirectUpload could have issued under prefix
+ */
+export function isUploadKeyUnder(prefix: string, key: string): boolean {
+  // buildUploadKey never adds a further level below the prefix
+  const name = key.startsWith(`${prefix}/`) ? key.slice(prefix.length + 1) : "";
+  return !!name && !name.includes("/");
+}
+
+/**
+ * Issue a presigned URL for uploading one file under prefix
+ * The URL only accepts the declared type and exact size, which must be one we accept.
+ */
+export async function createDirectUpload(
+  prefix: string,
+  file: UploadRequest,
+  accepted: readonly AssetType[]
+): Promise<DirectUpload> {
+  const fileType = ASSET_FILE_TYPES[file.mimeType as AssetMimeType];
+  if (!fileType || !accepted.includes(fileType.assetType)) {
+    const kinds = accepted.includes("video") ? "image or video" : "image";
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${file.fileName} is not a supported ${kinds}` });
+  }
+  assertWithinSizeLimit(fileType.assetType, file.size);
+
+  // Stored under the declared type's extension; confirming checks the contents match it
+  const baseName = file.fileName.replace(/\.[^.]*$/, "") || "upload";
+  const key = buildUploadKey(prefix, `${baseName}.${fileType.extension}`);
+  const { uploadUrl } = await storagePresignPut(key, file.mimeType, file.size, UPLOAD_URL_TTL_SECONDS);
+
+  return {
+    key,
+    uploadUrl,
+    headers: { "Content-Type": file.mimeType },
+    expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000),
+  };
+}
+
+/**
+ * Check that an uploaded object is the file its URL was issued for
+ * Identifies it from its first bytes; an object that turns out to be anything else is deleted.
+ */
+export async function confirmDirectUpload(
+  prefix: string,
+  key: string,
+  accepted: readonly AssetType[]
+): Promise<ConfirmedUpload> {
+  if (!isUploadKeyUnder(prefix, key)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+  }
+
+  const head = await storageHead(key);
+  const start = head ? await storageGetBytes(key, SNIFF_BYTES) : null;
+  if (!head || !start) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found. It may not have finished." });
+  }
+
+  try {
+    const { mimeType, assetType } = identifyFile(start, head.contentLength);
+    if (mimeType !== head.contentType || !accepted.includes(assetType)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "The uploaded file is not the type it was declared as" });
+    }
+    return { key, mimeType, assetType, byteSize: head.contentLength };
+  } catch (error) {
+    await storageDelete(key).catch(() => {});
+    throw error;
+  }
+}
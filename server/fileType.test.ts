@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { identifyFile, sniffFileType } from "./fileType";
+
+function isoMedia(majorBrand: string, ...compatibleBrands: string[]): Buffer {
+  const brands = [majorBrand, "\0\0\0\0", ...compatibleBrands].join("");
+  const box = Buffer.alloc(8 + brands.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write("ftyp", 4, "latin1");
+  box.write(brands, 8, "latin1");
+  return box;
+}
+
+describe("File type sniffing", () => {
+  it("should identify images by their magic bytes", () => {
+    expect(sniffFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe1]))).toBe("image/jpeg");
+    expect(sniffFileType(Buffer.from("iVBORw0KGgo=", "base64"))).toBe("image/png");
+    expect(sniffFileType(Buffer.from("GIF89a\x01\x00", "latin1"))).toBe("image/gif");
+    expect(sniffFileType(Buffer.from("RIFF\x24\x00\x00\x00WEBPVP8 ", "latin1"))).toBe("image/webp");
+  });
+
+  it("should tell ISO media images and videos apart by their brands", () => {
+    expect(sniffFileType(isoMedia("avif", "mif1", "miaf"))).toBe("image/avif");
+    expect(sniffFileType(isoMedia("mif1", "avif"))).toBe("image/avif");
+    expect(sniffFileType(isoMedia("heic", "mif1"))).toBe("image/heic");
+    expect(sniffFileType(isoMedia("qt  "))).toBe("video/quicktime");
+    expect(sniffFileType(isoMedia("isom", "iso2", "mp41"))).toBe("video/mp4");
+    expect(sniffFileType(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f]))).toBe("video/webm");
+  });
+
+  it("should not identify other content", () => {
+    expect(sniffFileType(Buffer.from("<svg xmlns=\"http://www.w3.org/2000/svg\"/>"))).toBeNull();
+    expect(sniffFileType(Buffer.from("%PDF-1.7"))).toBeNull();
+    expect(sniffFileType(Buffer.alloc(0))).toBeNull();
+  });
+
+  it("should enforce the size limit of the sniffed type", () => {
+    const image = Buffer.alloc(16 * 1024 * 1024);
+    image.set([0xff, 0xd8, 0xff]);
+    expect(() => identifyFile(image)).toThrow(/Images can be at most 15 MB/);
+
+    const video = Buffer.concat([isoMedia("isom"), Buffer.alloc(16 * 1024 * 1024)]);
+    expect(identifyFile(video)).toEqual({ mimeType: "video/mp4", extension: "mp4", assetType: "video" });
+  });
+
+  it("should check the full size when given only the first bytes", () => {
+    const head = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+    expect(identifyFile(head, 2 * 1024 * 1024)).toEqual({ mimeType: "image/jpeg", extension: "jpg", assetType: "photo" });
+    expect(() => identifyFile(head, 20 * 1024 * 1024)).toThrow(/at most 15 MB/);
+  });
+});
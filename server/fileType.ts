@@ -0,0 +1,84 @@
+/**
+ * Upload Validation
+ * Identifies uploads from their magic bytes instead of trusting a client-supplied
+ * mime type or file extension, and enforces the per-type size limits.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { ASSET_FILE_TYPES, MAX_ASSET_BYTES, type AssetMimeType, type AssetType } from "@shared/assets";
+
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+
+function ascii(data: Uint8Array, start: number, end: number): string {
+  return Buffer.from(data.subarray(start, end)).toString("latin1");
+}
+
+function startsWith(data: Uint8Array, bytes: number[]): boolean {
+  return bytes.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * ISO base media files (MP4, MOV, HEIC, AVIF) share an `ftyp` box; its brands say which
+ */
+function sniffIsoMedia(data: Uint8Array): AssetMimeType | null {
+  if (data.length < 12 || ascii(data, 4, 8) !== "ftyp") return null;
+
+  const boxSize = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+  const brands = [ascii(data, 8, 12)];
+  for (let offset = 16; offset + 4 <= Math.min(boxSize, data.length); offset += 4) {
+    brands.push(ascii(data, offset, offset + 4));
+  }
+
+  // AVIF files usually also list mif1, so check for them first
+  if (brands.some((brand) => AVIF_BRANDS.has(brand))) return "image/avif";
+  if (brands.some((brand) => HEIC_BRANDS.has(brand))) return "image/heic";
+  if (brands[0] === "qt  ") return "video/quicktime";
+  return "video/mp4";
+}
+
+// Enough of a file's start to read all the ftyp brands of ISO media
+export const SNIFF_BYTES = 256;
+
+/**
+ * The asset type of a file's contents, or null when it is not one we accept
+ */
+export function sniffFileType(data: Uint8Array): AssetMimeType | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (data.length >= 6 && (ascii(data, 0, 6) === "GIF87a" || ascii(data, 0, 6) === "GIF89a")) return "image/gif";
+  if (data.length >= 12 && ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 12) === "WEBP") return "image/webp";
+  if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  return sniffIsoMedia(data);
+}
+
+/**
+ * Identify an upload by its contents and check it against its type's size limit
+ * Pass the file's byteSize when data holds only its first bytes.
+ */
+export function identifyFile(data: Buffer, byteSize = data.length) {
+  const mimeType = sniffFileType(data);
+  if (!mimeType) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Unsupported file type. Upload a JPEG, PNG, GIF, WebP, AVIF or HEIC image, or an MP4, MOV or WebM video.",
+    });
+  }
+
+  const { extension, assetType } = ASSET_FILE_TYPES[mimeType];
+  assertWithinSizeLimit(assetType, byteSize);
+  return { mimeType, extension, assetType };
+}
+
+export function assertWithinSizeLimit(assetType: AssetType, byteSize: number): void {
+  if (byteSize > MAX_ASSET_BYTES[assetType]) {
+    throw new TRPCError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: `${assetType === "photo" ? "Images" : "Videos"} can be at most ${formatMegabytes(MAX_ASSET_BYTES[assetType])}`,
+    });
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
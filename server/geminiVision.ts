@@ -1,19 +1,34 @@
 import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
+import { extractJson } from "./llmJson";
+import type {
+  BrandVisionAnalysis,
+  VisionAnalysisRequest,
+  VisionProvider,
+} from "./visionProviders";
 
-// 1. Initialize API with strict error handling for missing keys
-const apiKey = process.env.GEMINI_API_KEY;
-if (!apiKey) {
-  throw new Error("GEMINI_API_KEY is not set in environment variables");
-}
+const GEMINI_VISION_MODEL = "gemini-2.0-flash"; // Latest and fastest Gemini model
+
+let _genAI: GoogleGenerativeAI | null = null;
 
-const genAI = new GoogleGenerativeAI(apiKey);
+// 1. Initialize API lazily so importing this module never requires the key
+function getGenAI(): GoogleGenerativeAI {
+  if (!_genAI) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not set in environment variables");
+    }
+    _genAI = new GoogleGenerativeAI(apiKey);
+  }
+  return _genAI;
+}
 
 /**
  * 2. Define the Rigid Schema
  * This acts as the "Contract" between your O2O App and the AI.
  * It is Model-Agnostic: You can reuse this JSON structure for DeepSeek later.
+ * Responses are validated against the zod mirror in shared/brandVisionAnalysis.ts.
  */
-const BRAND_VISION_SCHEMA: any = {
+export const BRAND_VISION_SCHEMA: any = {
   description: "Brand visual analysis output",
   type: SchemaType.OBJECT,
   properties: {
@@ -80,22 +95,35 @@ const BRAND_VISION_SCHEMA: any = {
         premium_level: { type: SchemaType.STRING }
       },
       required: ["brand_personality", "target_audience"]
+    },
+    image_notes: {
+      type: SchemaType.ARRAY,
+      description: "Per-image observations when several images are analysed together",
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          image_index: { type: SchemaType.INTEGER, description: "1-based position of the image" },
+          notes: { type: SchemaType.STRING }
+        },
+        required: ["image_index", "notes"]
+      }
     }
   },
   required: ["colors", "visual_elements", "mood_and_tone", "brand_insights"]
 };
 
-export async function analyzeImageWithGemini(
-  imageUrl: string,
-  imageContext: string = "",
-  analysisPurpose: string = "",
-  creativityLevel: number = 1.0 // 0.0 to 2.0
-): Promise<string> {
-  try {
+/**
+ * Gemini Vision provider (Native Schema Mode)
+ */
+export const geminiVisionProvider: VisionProvider = {
+  name: "gemini",
+  model: GEMINI_VISION_MODEL,
+
+  async analyze(request: VisionAnalysisRequest): Promise<BrandVisionAnalysis> {
     // 3. Configure Model with "Native Schema Mode"
     // This forces the model to ONLY output JSON matching the schema above.
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash", // Latest and fastest Gemini model
+    const model = getGenAI().getGenerativeModel({
+      model: GEMINI_VISION_MODEL,
       generationConfig: {
         responseMimeType: "application/json",
         responseSchema: BRAND_VISION_SCHEMA,
@@ -103,43 +131,51 @@ export async function analyzeImageWithGemini(
       },
     });
 
-    // Fetch image as binary buffer (required for stable Vision API usage)
-    const imageResp = await fetch(imageUrl);
-    if (!imageResp.ok) throw new Error(`Failed to fetch image: ${imageResp.statusText}`);
-    const imageBuffer = await imageResp.arrayBuffer();
-
-    const promptText = `
-      Act as a Senior Brand Art Director.
-      Analyze this image for: ${analysisPurpose}.
-      Context: ${imageContext}.
-      
-      Output strict JSON. Focus on the 'brand_insights' for the Chinese market.
-    `;
+    // Images go inline as binary (required for stable Vision API usage)
+    const imageParts = request.images.map((image) => ({
+      inlineData: {
+        data: image.data.toString("base64"),
+        mimeType: image.mimeType,
+      },
+    }));
 
     const result = await model.generateContent([
-      { text: promptText },
-      {
-        inlineData: {
-          data: Buffer.from(imageBuffer).toString("base64"),
-          mimeType: imageResp.headers.get("content-type") || "image/png",
-        },
-      },
-    ]);
+      { text: buildVisionPrompt(request) },
+      ...imageParts,
+    ], { signal: request.signal });
 
     // 4. Zero-Risk Return
-    // We explicitly return the raw JSON string. 
-    // The calling function (worker) can parse it.
-    // We do NOT need regex sanitization here because the API enforces the MIME type.
-    const responseText = result.response.text();
-    
-    // Optional: Quick validation check before returning
-    JSON.parse(responseText); // Will throw if invalid, caught by catch block
-    
-    return responseText;
+    // The API enforces the MIME type, so repairs should never be needed; extractJson
+    // logs them if they are, and throws on unparseable output (a permanent stage failure).
+    const { value, repairs } = extractJson(result.response.text());
+    if (repairs.length > 0) {
+      console.warn(`[Vision] Repaired Gemini JSON: ${repairs.join(", ")}`);
+    }
+    return value as BrandVisionAnalysis;
+  },
+};
 
-  } catch (error) {
-    console.error("Gemini Vision Analysis Failed:", error);
-    // Propagate error to the worker for retry logic
-    throw error; 
+/**
+ * Shared Art Director prompt used by every vision provider
+ */
+export function buildVisionPrompt(request: VisionAnalysisRequest): string {
+  if (request.images.length > 1) {
+    return `
+      Act as a Senior Brand Art Director.
+      These ${request.images.length} images are one brand kit. Analyze them together for: ${request.analysisPurpose}.
+      Context: ${request.imageContext}.
+      
+      Return ONE consolidated palette, mood and brand_insights for the whole kit.
+      Add one 'image_notes' entry per image (image_index 1-${request.images.length}, in the order given).
+      Output strict JSON. Focus on the 'brand_insights' for the Chinese market.
+    `;
   }
+
+  return `
+      Act as a Senior Brand Art Director.
+      Analyze this image for: ${request.analysisPurpose}.
+      Context: ${request.imageContext}.
+      
+      Output strict JSON. Focus on the 'brand_insights' for the Chinese market.
+    `;
 }
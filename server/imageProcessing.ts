@@ -0,0 +1,116 @@
+/**
+ * Image Processing
+ * Pixel-level work on uploaded images (dimensions, thumbnails, vision model input, colors),
+ * backed by sharp.
+ */
+
+import sharp from "sharp";
+import { THUMBNAIL_MAX_EDGE } from "@shared/assets";
+import { sniffFileType } from "./fileType";
+
+/**
+ * sharp for an image's bytes
+ * sharp's prebuilt libvips reads HEIF containers but has no HEVC decoder, so it only
+ * decodes AVIF; HEIC (iPhone photos) is decoded to pixels by libheif compiled to WASM.
+ */
+async function openImage(data: Buffer): Promise<sharp.Sharp> {
+  if (sniffFileType(data) !== "image/heic") return sharp(data, { failOn: "error" });
+
+  // Loaded on first use: the decoder is several MB of WASM
+  const { default: decodeHeic } = await import("heic-decode");
+  const { width, height, data: rgba } = await decodeHeic({ buffer: data });
+  const image = sharp(rgba, { raw: { width, height, channels: 4 } });
+  if (!isOpaque(rgba)) return image;
+
+  // The decoder always adds an alpha channel; drop it so photos are not treated as transparent
+  const rgb = await image.removeAlpha().raw().toBuffer();
+  return sharp(rgb, { raw: { width, height, channels: 3 } });
+}
+
+function isOpaque(rgba: Uint8ClampedArray): boolean {
+  for (let index = 3; index < rgba.length; index += 4) {
+    if (rgba[index] !== 255) return false;
+  }
+  return true;
+}
+
+export interface ImageThumbnail {
+  width: number;
+  height: number;
+  thumbnail: Buffer; // WebP, at most THUMBNAIL_MAX_EDGE on its longest edge
+}
+
+/**
+ * Read an image's displayed dimensions and render a thumbnail
+ * Throws when the bytes cannot be decoded as an image.
+ */
+export async function createThumbnail(data: Buffer): Promise<ImageThumbnail> {
+  const image = await openImage(data);
+  const { width, height, orientation } = await image.metadata();
+  if (!width || !height) throw new Error("Image has no dimensions");
+  // EXIF orientations 5-8 rotate by 90°, so viewers show the image with its sides swapped
+  const rotated = orientation !== undefined && orientation >= 5;
+
+  const thumbnail = await image
+    .autoOrient()
+    .resize(THUMBNAIL_MAX_EDGE, THUMBNAIL_MAX_EDGE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  return rotated ? { width: height, height: width, thumbnail } : { width, height, thumbnail };
+}
+
+export interface VisionImage {
+  data: Buffer; // Re-encoded without metadata
+  mimeType: "image/jpeg" | "image/png";
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encode an image for a vision model: upright, at most maxEdge on its longest edge,
+ * as PNG when it has transparency and JPEG otherwise
+ * sharp drops EXIF (including GPS), XMP and ICC metadata unless asked to keep it.
+ * Throws when the bytes cannot be decoded as an image.
+ */
+export async function prepareVisionImage(data: Buffer, maxEdge: number): Promise<VisionImage> {
+  const image = await openImage(data);
+  // Judged from the pixels: AVIF and PNG encoders often keep an alpha channel that is all opaque
+  const hasAlpha = (await image.metadata()).hasAlpha && !(await image.stats()).isOpaque;
+
+  const resized = image.autoOrient().resize(maxEdge, maxEdge, { fit: "inside", withoutEnlargement: true });
+  const encoded = hasAlpha ? resized.png() : resized.jpeg({ quality: 85 });
+  const { data: output, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+  return { data: output, mimeType: hasAlpha ? "image/png" : "image/jpeg", width: info.width, height: info.height };
+}
+
+/**
+ * An image squashed to width x height greyscale pixels, one byte each in row order
+ * Transparent areas count as white.
+ */
+export async function greyscalePixels(data: Buffer, width: number, height: number): Promise<Buffer> {
+  const image = await openImage(data);
+  return await image
+    .autoOrient()
+    .flatten({ background: "#ffffff" })
+    .toColorspace("b-w") // One channel
+    .resize(width, height, { fit: "fill" })
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * An image's pixels as RGBA bytes, at most maxEdge on its longest edge
+ * Shrinks by picking pixels rather than blending them, so every color is one the image has.
+ */
+export async function rgbaPixels(data: Buffer, maxEdge: number): Promise<Buffer> {
+  const image = await openImage(data);
+  return await image
+    .autoOrient()
+    .resize(maxEdge, maxEdge, { fit: "inside", withoutEnlargement: true, kernel: "nearest" })
+    .toColorspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+}
@@ -29,6 +29,25 @@ function createAuthContext(): TrpcContext {
   };
 }
 
+
+// The browser's side of a direct upload: presign, PUT each file to storage, then confirm
+async function uploadDirect(
+  caller: ReturnType<typeof appRouter.createCaller>,
+  files: { fileName: string; mimeType: string; data: Buffer }[]
+): Promise<string[]> {
+  const { uploads } = await caller.imageUpload.createUploadUrls({
+    files: files.map(({ fileName, mimeType, data }) => ({ fileName, mimeType, size: data.length })),
+  });
+  await Promise.all(
+    uploads.map(async (upload, index) => {
+      const response = await fetch(upload.uploadUrl, { method: "PUT", headers: upload.headers, body: new Uint8Array(files[index].data) });
+      expect(response.ok).toBe(true);
+    })
+  );
+  const { urls } = await caller.imageUpload.confirmUploads({ keys: uploads.map(upload => upload.key) });
+  return urls;
+}
+
 describe("Image Upload Integration Test", () => {
   it("should upload a real image file to S3 and return URL", async () => {
     const ctx = createAuthContext();
@@ -45,19 +64,12 @@ describe("Image Upload Integration Test", () => {
 
     // Read the image file
     const imageBuffer = fs.readFileSync(testImagePath);
-    const base64Image = imageBuffer.toString("base64");
-    const dataUri = `data:image/jpeg;base64,${base64Image}`;
-
-    // Call the upload mutation
-    const result = await caller.imageUpload.uploadImages({
-      images: [
-        {
-          fileName: "test-upload.jpg",
-          fileData: dataUri,
-          mimeType: "image/jpeg",
-        },
-      ],
-    });
+
+    // Upload it the way the browser does
+    const urls = await uploadDirect(caller, [
+      { fileName: "test-upload.jpg", mimeType: "image/jpeg", data: imageBuffer },
+    ]);
+    const result = { urls };
 
     // Verify the result
     expect(result).toHaveProperty("urls");
@@ -72,24 +84,15 @@ describe("Image Upload Integration Test", () => {
     const ctx = createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
-    // Create simple base64 images (1x1 pixel red and blue)
-    const redPixel = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
-    const bluePixel = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M/wHwAEBgIApD5fRAAAAABJRU5ErkJggg==";
-
-    const result = await caller.imageUpload.uploadImages({
-      images: [
-        {
-          fileName: "red.png",
-          fileData: redPixel,
-          mimeType: "image/png",
-        },
-        {
-          fileName: "blue.png",
-          fileData: bluePixel,
-          mimeType: "image/png",
-        },
-      ],
-    });
+    // Create simple images (1x1 pixel red and blue)
+    const redPixel = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==", "base64");
+    const bluePixel = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M/wHwAEBgIApD5fRAAAAABJRU5ErkJggg==", "base64");
+
+    const urls = await uploadDirect(caller, [
+      { fileName: "red.png", mimeType: "image/png", data: redPixel },
+      { fileName: "blue.png", mimeType: "image/png", data: bluePixel },
+    ]);
+    const result = { urls };
 
     expect(result.urls.length).toBe(2);
     expect(result.urls[0]).toMatch(/^https?:\/\//);
@@ -105,17 +108,14 @@ describe("Image Upload Integration Test", () => {
     const ctx = createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
-    // Create a large base64 string (>10MB when decoded)
-    const largeData = "A".repeat(15 * 1024 * 1024); // 15MB of 'A' characters
-    const largeImage = `data:image/jpeg;base64,${largeData}`;
-
+    // Refused before any upload URL is issued
     await expect(
-      caller.imageUpload.uploadImages({
-        images: [
+      caller.imageUpload.createUploadUrls({
+        files: [
           {
             fileName: "large.jpg",
-            fileData: largeImage,
             mimeType: "image/jpeg",
+            size: 20 * 1024 * 1024,
           },
         ],
       })
@@ -127,12 +127,12 @@ describe("Image Upload Integration Test", () => {
     const caller = appRouter.createCaller(ctx);
 
     await expect(
-      caller.imageUpload.uploadImages({
-        images: [
+      caller.imageUpload.createUploadUrls({
+        files: [
           {
             fileName: "test.txt",
-            fileData: "data:text/plain;base64,SGVsbG8gV29ybGQ=",
             mimeType: "text/plain",
+            size: 11,
           },
         ],
       })
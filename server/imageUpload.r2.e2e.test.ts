@@ -29,6 +29,25 @@ function createAuthContext(): TrpcContext {
   };
 }
 
+
+// The browser's side of a direct upload: presign, PUT each file to storage, then confirm
+async function uploadDirect(
+  caller: ReturnType<typeof appRouter.createCaller>,
+  files: { fileName: string; mimeType: string; data: Buffer }[]
+): Promise<string[]> {
+  const { uploads } = await caller.imageUpload.createUploadUrls({
+    files: files.map(({ fileName, mimeType, data }) => ({ fileName, mimeType, size: data.length })),
+  });
+  await Promise.all(
+    uploads.map(async (upload, index) => {
+      const response = await fetch(upload.uploadUrl, { method: "PUT", headers: upload.headers, body: new Uint8Array(files[index].data) });
+      expect(response.ok).toBe(true);
+    })
+  );
+  const { urls } = await caller.imageUpload.confirmUploads({ keys: uploads.map(upload => upload.key) });
+  return urls;
+}
+
 describe("Image Upload to Cloudflare R2 E2E Test", () => {
   it("should upload a real brand logo to R2 and return CDN URL", async () => {
     const ctx = createAuthContext();
@@ -42,23 +61,15 @@ describe("Image Upload to Cloudflare R2 E2E Test", () => {
       return;
     }
 
-    // Read and convert to base64
     const imageBuffer = fs.readFileSync(testImagePath);
-    const base64Image = imageBuffer.toString("base64");
-    const dataUri = `data:image/png;base64,${base64Image}`;
 
     console.log(`📤 Uploading test image (${(imageBuffer.length / 1024).toFixed(2)} KB)...`);
 
-    // Call the upload mutation
-    const result = await caller.imageUpload.uploadImages({
-      images: [
-        {
-          fileName: "test-brand-logo.png",
-          fileData: dataUri,
-          mimeType: "image/png",
-        },
-      ],
-    });
+    // Upload it the way the browser does
+    const urls = await uploadDirect(caller, [
+      { fileName: "test-brand-logo.png", mimeType: "image/png", data: imageBuffer },
+    ]);
+    const result = { urls };
 
     // Verify the result
     expect(result).toHaveProperty("urls");
@@ -90,25 +101,16 @@ describe("Image Upload to Cloudflare R2 E2E Test", () => {
     const caller = appRouter.createCaller(ctx);
 
     // Create two small test images
-    const redPixel = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
-    const bluePixel = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M/wHwAEBgIApD5fRAAAAABJRU5ErkJggg==";
+    const redPixel = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==", "base64");
+    const bluePixel = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M/wHwAEBgIApD5fRAAAAABJRU5ErkJggg==", "base64");
 
     console.log("📤 Uploading multiple images...");
 
-    const result = await caller.imageUpload.uploadImages({
-      images: [
-        {
-          fileName: "brand-color-1.png",
-          fileData: redPixel,
-          mimeType: "image/png",
-        },
-        {
-          fileName: "brand-color-2.png",
-          fileData: bluePixel,
-          mimeType: "image/png",
-        },
-      ],
-    });
+    const urls = await uploadDirect(caller, [
+      { fileName: "brand-color-1.png", mimeType: "image/png", data: redPixel },
+      { fileName: "brand-color-2.png", mimeType: "image/png", data: bluePixel },
+    ]);
+    const result = { urls };
 
     expect(result.urls.length).toBe(2);
     expect(result.urls[0]).not.toBe(result.urls[1]);
@@ -1,10 +1,15 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { uploadImage, uploadMultipleImages } from "./imageUpload";
+import { confirmImageUploads, createImageUploads, imageUploadRefs } from "./imageUpload";
 import * as storage from "./storage";
 
 // Mock the storage module
 vi.mock("./storage", () => ({
-  storagePut: vi.fn(),
+  storagePresignPut: vi.fn(async (key: string) => ({ key, uploadUrl: `https://r2.example.com/${key}?X-Amz-Signature=abc` })),
+  storageHead: vi.fn(),
+  storageGetBytes: vi.fn(),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://cdn.example.com/${key}` })),
+  storageDelete: vi.fn().mockResolvedValue(undefined),
+  toStorageRef: (key: string) => `storage:${key}`,
 }));
 
 describe("Image Upload Service", () => {
@@ -12,187 +17,71 @@ describe("Image Upload Service", () => {
     vi.clearAllMocks();
   });
 
-  describe("uploadImage", () => {
-    it("should upload a single image to S3 and return URL", async () => {
-      const mockUrl = "https://s3.example.com/brand-assets/123/image.jpg";
-      vi.mocked(storage.storagePut).mockResolvedValue({
-        key: "brand-assets/123/image.jpg",
-        url: mockUrl,
-      });
-
-      const input = {
-        fileName: "test-image.jpg",
-        fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-        mimeType: "image/jpeg",
-      };
-
-      const result = await uploadImage(input, 123);
-
-      expect(result).toBe(mockUrl);
-      expect(storage.storagePut).toHaveBeenCalledTimes(1);
-      
-      const callArgs = vi.mocked(storage.storagePut).mock.calls[0];
-      expect(callArgs[0]).toMatch(/^brand-assets\/123\/\d+-[a-f0-9]+-test-image\.jpg$/);
-      expect(callArgs[1]).toBeInstanceOf(Buffer);
-      expect(callArgs[2]).toBe("image/jpeg");
-    });
-
-    it("should sanitize file names with special characters", async () => {
-      const mockUrl = "https://s3.example.com/brand-assets/123/image.jpg";
-      vi.mocked(storage.storagePut).mockResolvedValue({
-        key: "brand-assets/123/image.jpg",
-        url: mockUrl,
-      });
-
-      const input = {
-        fileName: "test image@#$%.jpg",
-        fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-        mimeType: "image/jpeg",
-      };
-
-      await uploadImage(input, 123);
-
-      const callArgs = vi.mocked(storage.storagePut).mock.calls[0];
-      expect(callArgs[0]).toMatch(/test_image____\.jpg$/);
+  describe("createImageUploads", () => {
+    it("should issue one upload per image, keyed under the user", async () => {
+      const uploads = await createImageUploads(
+        [
+          { fileName: "image1.jpg", mimeType: "image/jpeg", size: 1000 },
+          { fileName: "image2.webp", mimeType: "image/webp", size: 2000 },
+        ],
+        456
+      );
+
+      expect(uploads).toHaveLength(2);
+      expect(uploads[0].key).toMatch(/^brand-assets\/456\/\d+-[a-f0-9]+-image1\.jpg$/);
+      expect(uploads[1].headers).toEqual({ "Content-Type": "image/webp" });
+      expect(uploads[0].uploadUrl).toContain(uploads[0].key);
     });
 
-    it("should handle base64 data with or without data URI prefix", async () => {
-      const mockUrl = "https://s3.example.com/brand-assets/123/image.jpg";
-      vi.mocked(storage.storagePut).mockResolvedValue({
-        key: "brand-assets/123/image.jpg",
-        url: mockUrl,
-      });
-
-      // Test with data URI prefix
-      const inputWithPrefix = {
-        fileName: "test.jpg",
-        fileData: "data:image/jpeg;base64,SGVsbG8gV29ybGQ=",
-        mimeType: "image/jpeg",
-      };
-
-      await uploadImage(inputWithPrefix, 123);
-
-      const buffer1 = vi.mocked(storage.storagePut).mock.calls[0][1] as Buffer;
-      expect(buffer1.toString()).toBe("Hello World");
-
-      vi.clearAllMocks();
-
-      // Test without data URI prefix
-      const inputWithoutPrefix = {
-        fileName: "test.jpg",
-        fileData: "SGVsbG8gV29ybGQ=",
-        mimeType: "image/jpeg",
-      };
-
-      await uploadImage(inputWithoutPrefix, 123);
-
-      const buffer2 = vi.mocked(storage.storagePut).mock.calls[0][1] as Buffer;
-      expect(buffer2.toString()).toBe("Hello World");
+    it("should reject videos", async () => {
+      await expect(
+        createImageUploads([{ fileName: "clip.mp4", mimeType: "video/mp4", size: 1000 }], 456)
+      ).rejects.toThrow("clip.mp4 is not a supported image");
     });
   });
 
-  describe("uploadMultipleImages", () => {
-    it("should upload multiple images and return array of URLs", async () => {
-      const mockUrls = [
-        "https://s3.example.com/brand-assets/123/image1.jpg",
-        "https://s3.example.com/brand-assets/123/image2.jpg",
-        "https://s3.example.com/brand-assets/123/image3.jpg",
-      ];
-
-      vi.mocked(storage.storagePut)
-        .mockResolvedValueOnce({ key: "key1", url: mockUrls[0] })
-        .mockResolvedValueOnce({ key: "key2", url: mockUrls[1] })
-        .mockResolvedValueOnce({ key: "key3", url: mockUrls[2] });
-
-      const images = [
-        {
-          fileName: "image1.jpg",
-          fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-          mimeType: "image/jpeg",
-        },
-        {
-          fileName: "image2.png",
-          fileData: "data:image/png;base64,iVBORw0KGgo=",
-          mimeType: "image/png",
-        },
-        {
-          fileName: "image3.webp",
-          fileData: "data:image/webp;base64,UklGRiQAAABXRUJQ",
-          mimeType: "image/webp",
-        },
-      ];
-
-      const results = await uploadMultipleImages(images, 123);
-
-      expect(results).toEqual(mockUrls);
-      expect(storage.storagePut).toHaveBeenCalledTimes(3);
+  describe("confirmImageUploads", () => {
+    it("should return the URLs of verified images in order", async () => {
+      vi.mocked(storage.storageHead)
+        .mockResolvedValueOnce({ contentLength: 1000, contentType: "image/jpeg" })
+        .mockResolvedValueOnce({ contentLength: 2000, contentType: "image/png" });
+      vi.mocked(storage.storageGetBytes)
+        .mockResolvedValueOnce(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))
+        .mockResolvedValueOnce(Buffer.from("iVBORw0KGgo=", "base64"));
+
+      const urls = await confirmImageUploads(["brand-assets/123/1-a-one.jpg", "brand-assets/123/2-b-two.png"], 123);
+
+      expect(urls).toEqual([
+        "https://cdn.example.com/brand-assets/123/1-a-one.jpg",
+        "https://cdn.example.com/brand-assets/123/2-b-two.png",
+      ]);
     });
 
-    it("should handle empty array", async () => {
-      const results = await uploadMultipleImages([], 123);
-
-      expect(results).toEqual([]);
-      expect(storage.storagePut).not.toHaveBeenCalled();
+    it("should not confirm another user's uploads", async () => {
+      await expect(confirmImageUploads(["brand-assets/456/1-a-one.jpg"], 123)).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+      expect(storage.storageGet).not.toHaveBeenCalled();
     });
 
-    it("should propagate errors from S3 upload", async () => {
-      vi.mocked(storage.storagePut).mockRejectedValue(new Error("S3 upload failed"));
-
-      const images = [
-        {
-          fileName: "image1.jpg",
-          fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-          mimeType: "image/jpeg",
-        },
-      ];
+    it("should propagate storage errors", async () => {
+      vi.mocked(storage.storageHead).mockRejectedValue(new Error("Failed to read file from R2: timeout"));
 
-      await expect(uploadMultipleImages(images, 123)).rejects.toThrow("S3 upload failed");
+      await expect(confirmImageUploads(["brand-assets/123/1-a-one.jpg"], 123)).rejects.toThrow("timeout");
+      expect(storage.storageDelete).not.toHaveBeenCalled();
     });
   });
 
-  describe("File key generation", () => {
-    it("should generate unique keys for the same file uploaded multiple times", async () => {
-      const mockUrl = "https://s3.example.com/brand-assets/123/image.jpg";
-      vi.mocked(storage.storagePut).mockResolvedValue({
-        key: "brand-assets/123/image.jpg",
-        url: mockUrl,
-      });
-
-      const input = {
-        fileName: "test.jpg",
-        fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-        mimeType: "image/jpeg",
-      };
-
-      await uploadImage(input, 123);
-      const key1 = vi.mocked(storage.storagePut).mock.calls[0][0];
-
-      vi.clearAllMocks();
-
-      await uploadImage(input, 123);
-      const key2 = vi.mocked(storage.storagePut).mock.calls[0][0];
-
-      // Keys should be different due to timestamp and random suffix
-      expect(key1).not.toBe(key2);
+  describe("imageUploadRefs", () => {
+    it("should reference the user's uploads by key", () => {
+      expect(imageUploadRefs(["brand-assets/123/1-a-one.jpg"], 123)).toEqual(["storage:brand-assets/123/1-a-one.jpg"]);
     });
 
-    it("should include user ID in the file key", async () => {
-      const mockUrl = "https://s3.example.com/brand-assets/456/image.jpg";
-      vi.mocked(storage.storagePut).mockResolvedValue({
-        key: "brand-assets/456/image.jpg",
-        url: mockUrl,
-      });
-
-      const input = {
-        fileName: "test.jpg",
-        fileData: "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
-        mimeType: "image/jpeg",
-      };
-
-      await uploadImage(input, 456);
-
-      const callArgs = vi.mocked(storage.storagePut).mock.calls[0];
-      expect(callArgs[0]).toMatch(/^brand-assets\/456\//);
+    it("should refuse keys outside the user's uploads", () => {
+      expect(() => imageUploadRefs(["brand-assets/123/1-a-one.jpg", "brand-assets/456/1-a-one.jpg"], 123)).toThrow(
+        "Upload not found"
+      );
+      expect(() => imageUploadRefs(["brand-assets/123/9/1-a-one.jpg"], 123)).toThrow("Upload not found");
     });
   });
 });
@@ -1,45 +1,48 @@
 /**
  * Image Upload Service
- * Handles uploading brand assets to S3 storage
+ * Direct uploads for the images a user attaches to content generation or a vision job.
+ * Brand library files go through assetIngest.ts instead.
  */
 
-import { storagePut } from "./storage";
-import { randomBytes } from "crypto";
+import { TRPCError } from "@trpc/server";
+import { storageGet, toStorageRef } from "./storage";
+import {
+  confirmDirectUpload,
+  createDirectUpload,
+  isUploadKeyUnder,
+  type DirectUpload,
+  type UploadRequest,
+} from "./directUpload";
 
-interface UploadImageInput {
-  fileName: string;
-  fileData: string; // base64 encoded image data
-  mimeType: string;
+function imageUploadPrefix(userId: number): string {
+  return `brand-assets/${userId}`;
 }
 
 /**
- * Upload a single image to S3
- * Returns the public URL of the uploaded image
+ * Issue a presigned upload URL for each image
+ * Rejects files that are not an accepted image type or exceed its size limit
  */
-export async function uploadImage(input: UploadImageInput, userId: number): Promise<string> {
-  // Generate a unique file key to prevent enumeration
-  const randomSuffix = randomBytes(8).toString('hex');
-  const sanitizedFileName = input.fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
-  const fileKey = `brand-assets/${userId}/${Date.now()}-${randomSuffix}-${sanitizedFileName}`;
-
-  // Convert base64 to buffer
-  const base64Data = input.fileData.split(',')[1] || input.fileData;
-  const buffer = Buffer.from(base64Data, 'base64');
-
-  // Upload to S3
-  const { url } = await storagePut(fileKey, buffer, input.mimeType);
+export async function createImageUploads(files: UploadRequest[], userId: number): Promise<DirectUpload[]> {
+  return await Promise.all(files.map(file => createDirectUpload(imageUploadPrefix(userId), file, ["photo"])));
+}
 
-  return url;
+/**
+ * Verify the user's uploaded images
+ * Returns a URL for each image, in the order of keys; with private storage they expire,
+ * so rows should reference the images with imageUploadRefs instead
+ */
+export async function confirmImageUploads(keys: string[], userId: number): Promise<string[]> {
+  const uploads = await Promise.all(keys.map(key => confirmDirectUpload(imageUploadPrefix(userId), key, ["photo"])));
+  return await Promise.all(uploads.map(async ({ key }) => (await storageGet(key)).url));
 }
 
 /**
- * Upload multiple images to S3
- * Returns an array of public URLs
+ * Storage references to the user's uploaded images, for rows that point at them
+ * Keys issued to anyone else are refused.
  */
-export async function uploadMultipleImages(
-  images: UploadImageInput[],
-  userId: number
-): Promise<string[]> {
-  const uploadPromises = images.map(image => uploadImage(image, userId));
-  return await Promise.all(uploadPromises);
+export function imageUploadRefs(keys: string[], userId: number): string[] {
+  if (keys.some(key => !isUploadKeyUnder(imageUploadPrefix(userId), key))) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+  }
+  return keys.map(toStorageRef);
 }
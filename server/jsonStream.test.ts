@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createJsonArrayStreamParser } from "./jsonStream";
+
+const pieces = [
+  { caption: "第一条 [标签] {括号}", shots: [{ seconds: 5 }, { seconds: 6 }] },
+  { caption: 'Quote \" and backslash \\ inside', shots: [] },
+  { caption: "第三条", shots: [{ seconds: 7 }] },
+];
+
+function feed(text: string, chunkSize: number) {
+  const parser = createJsonArrayStreamParser();
+  const completed: string[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    completed.push(...parser.push(text.slice(i, i + chunkSize)));
+  }
+  return { parser, completed };
+}
+
+describe("JSON Array Stream Parser", () => {
+  it("should emit each element as soon as it closes, whatever the chunk size", () => {
+    const text = JSON.stringify(pieces, null, 2);
+    for (const chunkSize of [1, 7, 64, text.length]) {
+      const { parser, completed } = feed(text, chunkSize);
+      expect(completed.map((element) => JSON.parse(element))).toEqual(pieces);
+      expect(parser.done).toBe(true);
+    }
+  });
+
+  it("should report an element before the rest of the array arrives", () => {
+    const parser = createJsonArrayStreamParser();
+    const text = JSON.stringify(pieces);
+    const firstEnd = JSON.stringify(pieces[0]).length + 1;
+
+    expect(parser.push(text.slice(0, firstEnd - 1))).toEqual([]);
+    expect(parser.push(text.slice(firstEnd - 1, firstEnd + 5))).toEqual([JSON.stringify(pieces[0])]);
+    expect(parser.done).toBe(false);
+  });
+
+  it("should skip code fences and object wrappers around the array", () => {
+    const fenced = "```json\n" + JSON.stringify({ content: pieces }) + "\n```";
+    const { completed } = feed(fenced, 10);
+    expect(completed.map((element) => JSON.parse(element))).toEqual(pieces);
+  });
+
+  it("should ignore anything after the array closes", () => {
+    const { completed } = feed(JSON.stringify(pieces.slice(0, 1)) + ' [{"extra": true}]', 5);
+    expect(completed).toHaveLength(1);
+  });
+});
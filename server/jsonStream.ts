@@ -0,0 +1,84 @@
+/**
+ * Incremental JSON array parsing
+ * Picks completed elements out of a streamed JSON array as soon as each one closes,
+ * so callers can act on early elements before the model finishes the rest.
+ */
+
+export interface JsonArrayStreamParser {
+  /** Feed the next chunk; returns the source text of every element completed by it */
+  push(chunk: string): string[];
+  /** True once the outer array's closing bracket has been seen */
+  readonly done: boolean;
+}
+
+/**
+ * Parser for the first JSON array in a stream
+ * Text before the array (code fences, a `{"content": ` wrapper, prose) is skipped.
+ * Only object and array elements are reported; element text is not JSON.parsed here.
+ */
+export function createJsonArrayStreamParser(): JsonArrayStreamParser {
+  let text = "";
+  let position = 0;
+  let depth = 0; // 0 = before the outer array, 1 = between its elements
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let done = false;
+
+  return {
+    get done() {
+      return done;
+    },
+
+    push(chunk) {
+      const completed: string[] = [];
+      if (done) return completed;
+
+      text += chunk;
+      for (; position < text.length; position++) {
+        const char = text[position];
+
+        if (depth === 0) {
+          if (char === "[") depth = 1;
+          continue;
+        }
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          if (depth === 1) elementStart = position;
+          depth++;
+        } else if (char === "}" || char === "]") {
+          depth--;
+          if (depth === 1 && elementStart >= 0) {
+            completed.push(text.slice(elementStart, position + 1));
+            elementStart = -1;
+          } else if (depth === 0) {
+            done = true;
+            position++;
+            break;
+          }
+        }
+      }
+
+      // Nothing before the current element is needed again
+      const keepFrom = elementStart >= 0 ? elementStart : position;
+      text = text.slice(keepFrom);
+      if (elementStart >= 0) elementStart = 0;
+      position -= keepFrom;
+
+      return completed;
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { completeJson, extractJson, JsonExtractionError, parseLlmJson } from "./llmJson";
+import { fixtureContentProvider } from "./contentProviders";
+import { classifyJobError, StageValidationError } from "./visionJobRetry";
+
+const pieceSchema = z.object({ caption: z.string(), seconds: z.number() });
+const request = { systemPrompt: "system", userPrompt: "user", temperature: 0.7, maxTokens: 100 };
+
+describe("LLM JSON", () => {
+  describe("extractJson", () => {
+    it("should parse clean JSON without repairs", () => {
+      expect(extractJson('[{"caption": "你好"}]')).toEqual({ value: [{ caption: "你好" }], repairs: [] });
+    });
+
+    it("should strip code fences and surrounding prose", () => {
+      expect(extractJson('Here you go:\n```json\n{"a": 1}\n```\nEnjoy!').repairs).toEqual(["code_fence"]);
+      expect(extractJson('Sure! Here are the pieces: [{"a": "[1]"}] Let me know.')).toEqual({
+        value: [{ a: "[1]" }],
+        repairs: ["surrounding_text"],
+      });
+    });
+
+    it("should remove trailing commas outside strings only", () => {
+      expect(extractJson('{"tags": ["a", "b",], "note": "x, ]",}')).toEqual({
+        value: { tags: ["a", "b"], note: "x, ]" },
+        repairs: ["trailing_commas"],
+      });
+    });
+
+    it("should fix smart-quote delimiters but keep smart quotes in Mandarin text", () => {
+      const { value, repairs } = extractJson('{“caption”: “他说“你好”，很开心”, "note": "“保留”"}');
+      expect(value).toEqual({ caption: "他说“你好”，很开心", note: "“保留”" });
+      expect(repairs).toEqual(["smart_quotes"]);
+    });
+
+    it("should throw a permanent JsonExtractionError when nothing parses", () => {
+      expect(() => extractJson("I cannot help with that.")).toThrow(JsonExtractionError);
+      try {
+        extractJson('{"a": ');
+      } catch (error) {
+        expect(classifyJobError(error)).toBe("permanent");
+      }
+    });
+  });
+
+  describe("parseLlmJson", () => {
+    it("should unwrap an array the model put inside an object", () => {
+      const result = parseLlmJson(
+        '{"pieces": [{"caption": "一", "seconds": 5}]}',
+        z.array(pieceSchema),
+        { stage: "deepseek", expectArray: true }
+      );
+      expect(result).toEqual({ value: [{ caption: "一", seconds: 5 }], repairs: ["unwrapped_array"] });
+    });
+
+    it("should report every invalid field", () => {
+      expect(() =>
+        parseLlmJson('[{"caption": 1}]', z.array(pieceSchema), { stage: "deepseek" })
+      ).toThrow(/caption[\s\S]*seconds/);
+    });
+  });
+
+  describe("completeJson", () => {
+    it("should re-prompt once with the errors and record the repair", async () => {
+      const complete = vi
+        .fn()
+        .mockResolvedValueOnce('[{"caption": "一"}]')
+        .mockResolvedValueOnce('```json\n[{"caption": "一", "seconds": 5}]\n```');
+
+      const result = await completeJson(
+        { ...fixtureContentProvider, complete },
+        request,
+        z.array(pieceSchema),
+        { stage: "deepseek" }
+      );
+
+      expect(result.value).toEqual([{ caption: "一", seconds: 5 }]);
+      expect(result.repairs).toEqual(["code_fence", "reprompt"]);
+      const fixPrompt = complete.mock.calls[1][0].userPrompt;
+      expect(fixPrompt).toContain("seconds");
+      expect(fixPrompt).toContain('[{"caption": "一"}]');
+    });
+
+    it("should give up after the single re-prompt", async () => {
+      const complete = vi.fn().mockResolvedValue('[{"caption": "一"}]');
+
+      await expect(
+        completeJson({ ...fixtureContentProvider, complete }, request, z.array(pieceSchema), { stage: "deepseek" })
+      ).rejects.toBeInstanceOf(StageValidationError);
+      expect(complete).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not re-prompt on provider errors", async () => {
+      const complete = vi.fn().mockRejectedValue(new Error("DeepSeek API error"));
+
+      await expect(
+        completeJson({ ...fixtureContentProvider, complete }, request, z.array(pieceSchema), { stage: "deepseek" })
+      ).rejects.toThrow("DeepSeek API error");
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * LLM JSON Extraction and Repair
+ * Models asked for "only JSON" still add fences, preambles, trailing commas, smart
+ * quotes or wrapper objects. Each fix here is applied only when needed and recorded,
+ * so stored outputs show how much repair their response took.
+ */
+
+import { z } from "zod";
+import type { ContentCompletionRequest, ContentProvider } from "./contentProviders";
+import { StageValidationError } from "./visionJobRetry";
+
+export const JSON_REPAIRS = [
+  "code_fence", // ```json ... ``` around the payload
+  "surrounding_text", // A preamble sentence or notes around the payload
+  "smart_quotes", // “ ” used as JSON string delimiters
+  "trailing_commas", // [1, 2,] or {"a": 1,}
+  "unwrapped_array", // { "pieces": [...] } where an array was expected
+  "reprompt", // The model was asked once to fix its own output
+] as const;
+export type JsonRepair = (typeof JSON_REPAIRS)[number];
+
+export interface JsonExtraction<T = unknown> {
+  value: T;
+  repairs: JsonRepair[];
+}
+
+/**
+ * The response held no parseable JSON even after every repair
+ * A SyntaxError, so the retry policy treats it like any malformed output
+ */
+export class JsonExtractionError extends SyntaxError {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonExtractionError";
+  }
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// Inner text of the first fenced block, if any
+function stripCodeFence(text: string): string {
+  const match = text.match(/```(?:json|JSON)?[^\S\n]*\n?([\s\S]*?)\n?[^\S\n]*```/);
+  return match ? match[1].trim() : text;
+}
+
+// From the first { or [ to the bracket that closes it, skipping brackets inside strings
+function sliceOutermostValue(text: string): string {
+  const start = text.search(/[[{]/);
+  if (start < 0) return text;
+
+  let depth = 0;
+  let openQuote: string | null = null; // " or “ while inside a string
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (openQuote) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"' || (openQuote === "“" && char === "”")) openQuote = null;
+      continue;
+    }
+    if (char === '"' || char === "“") openQuote = char;
+    else if (char === "{" || char === "[") depth++;
+    else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  // Unbalanced (e.g. truncated) - keep the rest and let parsing decide
+  return text.slice(start);
+}
+
+/**
+ * Turn smart quotes that delimit JSON strings into ASCII quotes
+ * Smart quotes inside ordinary strings are Mandarin punctuation and are left alone.
+ */
+function normalizeSmartQuotes(text: string): string {
+  let out = "";
+  let state: "none" | "ascii" | "smart" = "none";
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (state === "ascii") {
+      out += char;
+      if (char === "\\") out += text[++i] ?? "";
+      else if (char === '"') state = "none";
+      continue;
+    }
+
+    if (state === "smart") {
+      if (char === "\\") {
+        out += char + (text[++i] ?? "");
+      } else if (char === "”" || char === "“" || char === '"') {
+        // Closing only where JSON expects one: before : , } ] or the end
+        const next = text.slice(i + 1).match(/^\s*(.)/)?.[1];
+        if (next === undefined || ":,}]".includes(next)) {
+          out += '"';
+          state = "none";
+        } else {
+          out += char === '"' ? '\\"' : char;
+        }
+      } else {
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === "“" || char === "”") {
+      out += '"';
+      state = "smart";
+    } else {
+      out += char;
+      if (char === '"') state = "ascii";
+    }
+  }
+
+  return out;
+}
+
+// Drop commas directly before a closing bracket, outside strings
+function removeTrailingCommas(text: string): string {
+  let out = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      out += char;
+      if (char === "\\") out += text[++i] ?? "";
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) continue;
+    out += char;
+  }
+
+  return out;
+}
+
+const REPAIR_STEPS: { repair: JsonRepair; apply: (text: string) => string }[] = [
+  { repair: "code_fence", apply: stripCodeFence },
+  { repair: "surrounding_text", apply: sliceOutermostValue },
+  { repair: "smart_quotes", apply: normalizeSmartQuotes },
+  { repair: "trailing_commas", apply: removeTrailingCommas },
+];
+
+/**
+ * Parse JSON from a model response, repairing common formatting drift
+ * Repairs are cumulative and applied in order; only the ones that changed the text
+ * are reported, and parsing stops at the first step that succeeds.
+ */
+export function extractJson(text: string): JsonExtraction {
+  let candidate = text.trim();
+  const repairs: JsonRepair[] = [];
+
+  const parsed = tryParse(candidate);
+  if (parsed.ok) return { value: parsed.value, repairs };
+
+  for (const step of REPAIR_STEPS) {
+    const repaired = step.apply(candidate);
+    if (repaired === candidate) continue;
+
+    candidate = repaired;
+    repairs.push(step.repair);
+    const result = tryParse(candidate);
+    if (result.ok) return { value: result.value, repairs };
+  }
+
+  throw new JsonExtractionError(`No valid JSON found in response: ${text.substring(0, 200)}`);
+}
+
+/**
+ * Find the array a model wrapped in an object, e.g. { "pieces": [...] }
+ * Returns the value unchanged when it is already an array or has no single array property.
+ */
+export function unwrapArray(value: unknown): { value: unknown; unwrapped: boolean } {
+  if (Array.isArray(value) || typeof value !== "object" || value === null) {
+    return { value, unwrapped: false };
+  }
+  const arrays = Object.values(value).filter(Array.isArray);
+  return arrays.length === 1 ? { value: arrays[0], unwrapped: true } : { value, unwrapped: false };
+}
+
+/**
+ * Extract, repair and validate a model response against a schema
+ * Throws JsonExtractionError for unparseable text and StageValidationError
+ * listing every failing field.
+ */
+export function parseLlmJson<T>(
+  text: string,
+  schema: z.ZodType<T>,
+  options: { stage: string; expectArray?: boolean }
+): JsonExtraction<T> {
+  const extraction = extractJson(text);
+
+  let { value } = extraction;
+  const repairs = [...extraction.repairs];
+  if (options.expectArray) {
+    const unwrapped = unwrapArray(value);
+    value = unwrapped.value;
+    if (unwrapped.unwrapped) repairs.push("unwrapped_array");
+  }
+
+  const validated = schema.safeParse(value);
+  if (!validated.success) {
+    throw new StageValidationError(options.stage, z.prettifyError(validated.error));
+  }
+  return { value: validated.data, repairs };
+}
+
+/**
+ * Complete a request and parse its JSON, re-prompting the model once if that fails
+ * The follow-up shows the model its own response and the errors to fix.
+ */
+export async function completeJson<T>(
+  provider: ContentProvider,
+  request: ContentCompletionRequest,
+  schema: z.ZodType<T>,
+  options: { stage: string; expectArray?: boolean }
+): Promise<JsonExtraction<T> & { rawText: string }> {
+  const rawText = await provider.complete(request);
+  console.log(`Raw ${provider.name} response:`, rawText.substring(0, 500));
+
+  try {
+    return { ...parseLlmJson(rawText, schema, options), rawText };
+  } catch (error) {
+    if (!(error instanceof JsonExtractionError || error instanceof StageValidationError)) throw error;
+    console.warn(`[LLM JSON] ${provider.name} output unusable, re-prompting once:`, error.message);
+
+    const fixText = await provider.complete({
+      ...request,
+      userPrompt:
+        `${request.userPrompt}\n\n` +
+        `Your previous response could not be used:\n${error.message}\n\n` +
+        `Previous response:\n${rawText}\n\n` +
+        `Fix your JSON: reply again with ONLY the corrected JSON, no markdown and no other text.`,
+    });
+
+    const fixed = parseLlmJson(fixText, schema, options);
+    return { value: fixed.value, repairs: [...fixed.repairs, "reprompt"], rawText: fixText };
+  }
+}
@@ -2,10 +2,71 @@ import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import * as db from "./db";
-import { generateMandarinContent, generateContentWithVisualContext } from "./aiContentGenerator";
-import { uploadMultipleImages } from "./imageUpload";
+import { visionJobs, type Brand } from "../drizzle/schema";
+import { CONTENT_PLATFORMS, type ContentPlatform } from "@shared/contentPlatforms";
+import { parseStoryboardShots, parseStringList } from "@shared/contentPieces";
+import { brandVoiceProfileSchema, parseBrandVoiceProfile } from "@shared/brandVoice";
+import { INVITATION_TTL_MS, WORKSPACE_ROLES } from "@shared/workspaces";
+import { MAX_UPLOAD_FILES } from "@shared/assets";
+import {
+  generateMandarinContent,
+  generateContentWithVisualContext,
+  getBrandVoice,
+  refineContentPiece,
+} from "./aiContentGenerator";
+import {
+  requireBrandAccess,
+  requireBrandAssetAccess,
+  requireBrandInputAccess,
+  requireContentAccess,
+  requireConversationAccess,
+  requireVisionJobAccess,
+  requireWorkspaceRole,
+  resolveBrandWorkspace,
+  resolveWorkspaceId,
+} from "./authorization";
+import { parseMessageLog, replyAsBrandSpecialist, type ChatMessage } from "./brandSpecialistChat";
+import { confirmImageUploads, createImageUploads, imageUploadRefs } from "./imageUpload";
+import { createBrandAssetUploads, deleteBrandAsset, ingestBrandAsset, withAssetUrls } from "./assetIngest";
+import { resolveStorageRef, toStorageRef } from "./storage";
+import { VISION_PROVIDER_NAMES } from "./visionProviders";
+import { CONTENT_PROVIDER_NAMES, getContentProvider } from "./contentProviders";
+import { cancelRunningVisionJob } from "./visionJobWorker";
+import { runStreamingContentGeneration } from "./contentGenerationRunner";
+import { publishVisionJobEvent } from "./visionJobEvents";
+
+const MAX_VISION_JOB_IMAGES = 10; // Keeps a brand-kit request within the vision model's input limits
+
+// Procedures that create or list workspace rows act in the user's personal workspace when this is omitted
+const workspaceScope = z.object({ workspaceId: z.number().optional() });
+
+// A file the browser is about to upload straight to storage
+const uploadRequestInput = z.object({
+  fileName: z.string().min(1),
+  mimeType: z.string(),
+  size: z.number().int().positive(), // Bytes
+});
+
+const contentGenerationInput = z.object({
+  productInfo: z.string().min(10),
+  sellingPoints: z.string().min(10),
+  targetAudience: z.string().optional(),
+  painPoints: z.string().optional(),
+  scenarios: z.string().optional(),
+  ctaOffer: z.string().optional(),
+  platforms: z.array(z.enum(CONTENT_PLATFORMS)).min(1).optional(), // Defaults to every platform
+  brandId: z.number().optional(),
+  workspaceId: z.number().optional(),
+  contentProvider: z.enum(CONTENT_PROVIDER_NAMES).optional(),
+});
+
+// Logos are stored as references, since URLs to private files expire; clients get a fresh URL
+async function withLogoUrl(brand: Brand): Promise<Brand> {
+  return { ...brand, logoUrl: brand.logoUrl && (await resolveStorageRef(brand.logoUrl)) };
+}
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -21,70 +82,242 @@ export const appRouter = router({
     }),
   }),
 
+  // Team workspaces: members, roles and email invitations
+  workspace: router({
+    // Every workspace the user belongs to, with their role; creates their personal one on first use
+    list: protectedProcedure
+      .query(async ({ ctx }) => {
+        await resolveWorkspaceId(ctx.user, undefined);
+        return await db.getWorkspacesForUser(ctx.user.id);
+      }),
+
+    create: protectedProcedure
+      .input(z.object({ name: z.string().trim().min(1).max(255) }))
+      .mutation(async ({ ctx, input }) => {
+        return await db.createWorkspace(input.name, ctx.user.id);
+      }),
+
+    rename: protectedProcedure
+      .input(z.object({
+        workspaceId: z.number(),
+        name: z.string().trim().min(1).max(255),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await requireWorkspaceRole(ctx.user, input.workspaceId, "owner");
+        await db.renameWorkspace(input.workspaceId, input.name);
+        return { success: true };
+      }),
+
+    // Members for everyone in the workspace; pending invitations for owners only
+    members: protectedProcedure
+      .input(z.object({ workspaceId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const role = await requireWorkspaceRole(ctx.user, input.workspaceId);
+        const [members, invitations] = await Promise.all([
+          db.getWorkspaceMembers(input.workspaceId),
+          role === "owner" ? db.getPendingWorkspaceInvitations(input.workspaceId) : [],
+        ]);
+        return { role, members, invitations };
+      }),
+
+    // Invitees join by signing in with an OAuth account that has this email
+    invite: protectedProcedure
+      .input(z.object({
+        workspaceId: z.number(),
+        email: z.email(),
+        role: z.enum(WORKSPACE_ROLES),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await requireWorkspaceRole(ctx.user, input.workspaceId, "owner");
+        return await db.createWorkspaceInvitation({
+          workspaceId: input.workspaceId,
+          email: input.email.toLowerCase(),
+          role: input.role,
+          invitedBy: ctx.user.id,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        });
+      }),
+
+    revokeInvitation: protectedProcedure
+      .input(z.object({ invitationId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const invitation = await db.getWorkspaceInvitationById(input.invitationId);
+        if (!invitation) throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+        await requireWorkspaceRole(ctx.user, invitation.workspaceId, "owner");
+
+        await db.deleteWorkspaceInvitation(invitation.id);
+        return { success: true };
+      }),
+
+    // Invitations for the signed-in user's email, for users who were already signed in when invited
+    myInvitations: protectedProcedure
+      .query(async ({ ctx }) => {
+        return ctx.user.email ? await db.getPendingInvitationsForEmail(ctx.user.email) : [];
+      }),
+
+    acceptInvitation: protectedProcedure
+      .input(z.object({ invitationId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const invitation = ctx.user.email
+          ? (await db.getPendingInvitationsForEmail(ctx.user.email)).find(({ id }) => id === input.invitationId)
+          : undefined;
+        if (!invitation) throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+
+        await db.acceptWorkspaceInvitation(invitation, ctx.user.id);
+        return { workspaceId: invitation.workspaceId };
+      }),
+
+    updateMemberRole: protectedProcedure
+      .input(z.object({
+        workspaceId: z.number(),
+        userId: z.number(),
+        role: z.enum(WORKSPACE_ROLES),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await requireWorkspaceRole(ctx.user, input.workspaceId, "owner");
+        const member = await db.getWorkspaceMember(input.workspaceId, input.userId);
+        if (!member) throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+        if (member.role === "owner" && input.role !== "owner" && await db.countWorkspaceOwners(input.workspaceId) <= 1) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A workspace needs at least one owner" });
+        }
+
+        await db.updateWorkspaceMemberRole(input.workspaceId, input.userId, input.role);
+        return { success: true };
+      }),
+
+    // Owners can remove anyone; other members can only leave
+    removeMember: protectedProcedure
+      .input(z.object({
+        workspaceId: z.number(),
+        userId: z.number(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await requireWorkspaceRole(ctx.user, input.workspaceId, input.userId === ctx.user.id ? "viewer" : "owner");
+        const member = await db.getWorkspaceMember(input.workspaceId, input.userId);
+        if (!member) throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+        if (member.role === "owner" && await db.countWorkspaceOwners(input.workspaceId) <= 1) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A workspace needs at least one owner" });
+        }
+
+        await db.removeWorkspaceMember(input.workspaceId, input.userId);
+        return { success: true };
+      }),
+  }),
+
   // Brand management
   brand: router({
     create: protectedProcedure
-      .input(z.object({
+      .input(workspaceScope.extend({
         brandName: z.string().min(1),
-        logoUrl: z.string().optional(),
+        logoKey: z.string().optional(), // From imageUpload.createUploadUrls
+        contentProvider: z.enum(CONTENT_PROVIDER_NAMES).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        return await db.createBrand({
+        const brand = await db.createBrand({
+          workspaceId: await resolveWorkspaceId(ctx.user, input.workspaceId, "editor"),
           userId: ctx.user.id,
           brandName: input.brandName,
-          logoUrl: input.logoUrl || null,
+          logoUrl: input.logoKey ? imageUploadRefs([input.logoKey], ctx.user.id)[0] : null,
+          contentProvider: input.contentProvider || null,
         });
+        return await withLogoUrl(brand);
       }),
 
     list: protectedProcedure
-      .query(async ({ ctx }) => {
-        return await db.getBrandsByUserId(ctx.user.id);
+      .input(workspaceScope.optional())
+      .query(async ({ ctx, input }) => {
+        const brands = await db.getBrandsByWorkspaceId(await resolveWorkspaceId(ctx.user, input?.workspaceId));
+        return await Promise.all(brands.map(withLogoUrl));
       }),
 
     getById: protectedProcedure
       .input(z.object({ brandId: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getBrandById(input.brandId);
+      .query(async ({ ctx, input }) => {
+        return await withLogoUrl(await requireBrandAccess(ctx.user, input.brandId));
+      }),
+
+    // Voice profile injected into every generation for the brand; null until one is saved
+    getVoiceProfile: protectedProcedure
+      .input(z.object({ brandId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const brand = await requireBrandAccess(ctx.user, input.brandId);
+        return parseBrandVoiceProfile(brand.voiceProfile);
+      }),
+
+    updateVoiceProfile: protectedProcedure
+      .input(z.object({
+        brandId: z.number(),
+        profile: brandVoiceProfileSchema,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const brand = await requireBrandAccess(ctx.user, input.brandId, "editor");
+        await db.updateBrandVoiceProfile(brand.id, JSON.stringify(input.profile));
+        return input.profile;
       }),
   }),
 
   // Brand assets management
   brandAsset: router({
-    create: protectedProcedure
+    // Presigned URLs to PUT files to; each one is added to the library by confirmUpload
+    createUploadUrls: protectedProcedure
       .input(z.object({
         brandId: z.number(),
-        assetType: z.enum(["photo", "video"]),
-        storageUrl: z.string(),
-        mimeType: z.string().optional(),
-      }))
-      .mutation(async ({ input }) => {
-        return await db.createBrandAsset({
-          brandId: input.brandId,
-          assetType: input.assetType,
-          storageUrl: input.storageUrl,
-          mimeType: input.mimeType || null,
-        });
+        files: z.array(uploadRequestInput).min(1).max(MAX_UPLOAD_FILES),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const brand = await requireBrandAccess(ctx.user, input.brandId, "editor");
+        return { uploads: await createBrandAssetUploads(brand, input.files) };
+      }),
+
+    // Type, dimensions and thumbnail come from the file itself; re-uploads return the existing asset
+    confirmUpload: protectedProcedure
+      .input(z.object({
+        brandId: z.number(),
+        key: z.string(),
+        fileName: z.string().min(1),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const brand = await requireBrandAccess(ctx.user, input.brandId, "editor");
+        return await ingestBrandAsset(brand, input, ctx.user.id);
       }),
 
     listByBrand: protectedProcedure
       .input(z.object({ brandId: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getBrandAssetsByBrandId(input.brandId);
+      .query(async ({ ctx, input }) => {
+        const brand = await requireBrandAccess(ctx.user, input.brandId);
+        const assets = await db.getBrandAssetsByBrandId(brand.id);
+        return await Promise.all(assets.map(withAssetUrls));
+      }),
+
+    // Removes the stored file and thumbnail along with the row
+    delete: protectedProcedure
+      .input(z.object({ assetId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { asset } = await requireBrandAssetAccess(ctx.user, input.assetId, "editor");
+        await deleteBrandAsset(asset);
+        return { success: true };
       }),
   }),
 
   // Image upload router
   imageUpload: router({
-    uploadImages: protectedProcedure
+    // Presigned URLs the browser PUTs each image to, with the returned headers
+    createUploadUrls: protectedProcedure
       .input(z.object({
-        images: z.array(z.object({
-          fileName: z.string(),
-          fileData: z.string(), // base64
-          mimeType: z.string(),
-        })),
+        files: z.array(uploadRequestInput).min(1).max(MAX_UPLOAD_FILES),
       }))
       .mutation(async ({ input, ctx }) => {
-        const urls = await uploadMultipleImages(input.images, ctx.user.id);
+        const uploads = await createImageUploads(input.files, ctx.user.id);
+        return { uploads };
+      }),
+
+    // Call once every PUT has finished; returns the image URLs in the order of keys
+    confirmUploads: protectedProcedure
+      .input(z.object({
+        keys: z.array(z.string()).min(1).max(MAX_UPLOAD_FILES),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const urls = await confirmImageUploads(input.keys, ctx.user.id);
         return { urls };
       }),
   }),
@@ -93,18 +326,17 @@ export const appRouter = router({
   contentGeneration: router({
     // Submit product details and generate 5 Mandarin content pieces
     generate: protectedProcedure
-      .input(z.object({
-        productInfo: z.string().min(10),
-        sellingPoints: z.string().min(10),
-        targetAudience: z.string().optional(),
-        painPoints: z.string().optional(),
-        scenarios: z.string().optional(),
-        ctaOffer: z.string().optional(),
-      }))
+      .input(contentGenerationInput)
       .mutation(async ({ ctx, input }) => {
+        const { brand, workspaceId } = await resolveBrandWorkspace(ctx.user, input.brandId, input.workspaceId, "editor");
+        // Provider precedence: explicit request > brand preference > CONTENT_PROVIDER
+        const provider = getContentProvider(input.contentProvider || brand?.contentProvider);
+
         // Save the input to database
         const savedInput = await db.createBrandInput({
+          workspaceId,
           userId: ctx.user.id,
+          brandId: brand?.id ?? null,
           productInfo: input.productInfo,
           sellingPoints: input.sellingPoints,
           targetAudience: input.targetAudience || null,
@@ -121,7 +353,9 @@ export const appRouter = router({
           painPoints: input.painPoints,
           scenarios: input.scenarios,
           ctaOffer: input.ctaOffer,
-        });
+          platforms: input.platforms,
+          brandVoice: getBrandVoice(brand),
+        }, provider);
 
         // Save each generated piece to database
         const savedContent = await Promise.all(
@@ -129,11 +363,19 @@ export const appRouter = router({
             db.createGeneratedContent({
               inputId: savedInput.id,
               userId: ctx.user.id,
+              platform: piece.platform,
               storyboardMandarin: piece.storyboardMandarin,
+              storyboardShots: JSON.stringify(piece.storyboardShots),
               captionMandarin: piece.captionMandarin,
+              hashtags: JSON.stringify(piece.hashtags),
+              coverText: piece.coverText || null,
+              ruleViolations: JSON.stringify(piece.ruleViolations),
+              jsonRepairs: JSON.stringify(piece.jsonRepairs),
               explanationEnglish: piece.explanationEnglish,
               userFeedbackScore: null,
               userFeedbackText: null,
+              contentProvider: provider.name,
+              contentModel: provider.model,
             })
           )
         );
@@ -144,17 +386,107 @@ export const appRouter = router({
         };
       }),
 
+    // Same as generate, but returns at once; pieces stream over /api/content-generations/:inputId/events
+    generateStreaming: protectedProcedure
+      .input(contentGenerationInput)
+      .mutation(async ({ ctx, input }) => {
+        const { brand, workspaceId } = await resolveBrandWorkspace(ctx.user, input.brandId, input.workspaceId, "editor");
+        const provider = getContentProvider(input.contentProvider || brand?.contentProvider);
+
+        const savedInput = await db.createBrandInput({
+          workspaceId,
+          userId: ctx.user.id,
+          brandId: brand?.id ?? null,
+          productInfo: input.productInfo,
+          sellingPoints: input.sellingPoints,
+          targetAudience: input.targetAudience || null,
+          painPoints: input.painPoints || null,
+          scenarios: input.scenarios || null,
+          ctaOffer: input.ctaOffer || null,
+          generationStatus: "generating",
+        });
+
+        // Runs past this request; failures are recorded on the brandInputs row
+        void runStreamingContentGeneration(savedInput, input.platforms, provider, getBrandVoice(brand));
+
+        return { inputId: savedInput.id };
+      }),
+
+    // Rewrite one piece with an instruction, saving the result as a new version
+    refine: protectedProcedure
+      .input(z.object({
+        contentId: z.number(),
+        instruction: z.string().min(3).max(500),
+        contentProvider: z.enum(CONTENT_PROVIDER_NAMES).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { content: parent, brandInput } = await requireContentAccess(ctx.user, input.contentId, "editor");
+
+        // Refine with the provider that wrote the piece unless told otherwise
+        const provider = getContentProvider(input.contentProvider || parent.contentProvider);
+        const brand = brandInput.brandId ? await db.getBrandById(brandInput.brandId) : undefined;
+
+        const refined = await refineContentPiece(
+          {
+            productInfo: brandInput.productInfo,
+            sellingPoints: brandInput.sellingPoints,
+            targetAudience: brandInput.targetAudience || undefined,
+            painPoints: brandInput.painPoints || undefined,
+            scenarios: brandInput.scenarios || undefined,
+            ctaOffer: brandInput.ctaOffer || undefined,
+            brandVoice: getBrandVoice(brand),
+          },
+          {
+            // Pieces from before platform targeting are refined as WeChat posts
+            platform: (CONTENT_PLATFORMS as readonly string[]).includes(parent.platform ?? "")
+              ? (parent.platform as ContentPlatform)
+              : "wechat",
+            storyboardMandarin: parent.storyboardMandarin,
+            storyboardShots: parseStoryboardShots(parent.storyboardShots) ?? [],
+            captionMandarin: parent.captionMandarin,
+            hashtags: parseStringList(parent.hashtags),
+            coverText: parent.coverText ?? "",
+            explanationEnglish: parent.explanationEnglish,
+          },
+          input.instruction,
+          provider
+        );
+
+        return await db.createContentRevision({
+          inputId: parent.inputId,
+          userId: ctx.user.id,
+          parentId: parent.id,
+          rootId: parent.rootId ?? parent.id,
+          refineInstruction: input.instruction,
+          platform: refined.platform,
+          storyboardMandarin: refined.storyboardMandarin,
+          storyboardShots: JSON.stringify(refined.storyboardShots),
+          captionMandarin: refined.captionMandarin,
+          hashtags: JSON.stringify(refined.hashtags),
+          coverText: refined.coverText || null,
+          ruleViolations: JSON.stringify(refined.ruleViolations),
+          jsonRepairs: JSON.stringify(refined.jsonRepairs),
+          explanationEnglish: refined.explanationEnglish,
+          userFeedbackScore: null,
+          userFeedbackText: null,
+          contentProvider: provider.name,
+          contentModel: provider.model,
+        });
+      }),
+
     // Get user's content generation history
     history: protectedProcedure
-      .query(async ({ ctx }) => {
-        return await db.getBrandInputsByUserId(ctx.user.id);
+      .input(workspaceScope.optional())
+      .query(async ({ ctx, input }) => {
+        return await db.getBrandInputsByWorkspaceId(await resolveWorkspaceId(ctx.user, input?.workspaceId));
       }),
 
     // Get generated content for a specific input
     getByInputId: protectedProcedure
       .input(z.object({ inputId: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getGeneratedContentByInputId(input.inputId);
+      .query(async ({ ctx, input }) => {
+        const brandInput = await requireBrandInputAccess(ctx.user, input.inputId);
+        return await db.getGeneratedContentByInputId(brandInput.id);
       }),
 
     // Submit feedback on generated content
@@ -164,9 +496,10 @@ export const appRouter = router({
         score: z.number().min(-1).max(1), // -1 for thumbs down, 1 for thumbs up
         text: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const { content } = await requireContentAccess(ctx.user, input.contentId, "editor");
         await db.updateContentFeedback(
-          input.contentId,
+          content.id,
           input.score,
           input.text
         );
@@ -177,72 +510,199 @@ export const appRouter = router({
   // A.I. Brand Specialist Chat (Premium feature)
   conversation: router({
     create: protectedProcedure
-      .input(z.object({
+      .input(workspaceScope.extend({
         brandId: z.number().optional(),
         initialMessage: z.string(),
       }))
       .mutation(async ({ ctx, input }) => {
+        const { brand, workspaceId } = await resolveBrandWorkspace(ctx.user, input.brandId, input.workspaceId, "editor");
         const messageLog = JSON.stringify([
           { role: "user", content: input.initialMessage, timestamp: Date.now() }
         ]);
 
         return await db.createConversation({
+          workspaceId,
           userId: ctx.user.id,
-          brandId: input.brandId || null,
+          brandId: brand?.id ?? null,
           messageLog,
         });
       }),
 
     list: protectedProcedure
-      .query(async ({ ctx }) => {
-        return await db.getConversationsByUserId(ctx.user.id);
+      .input(workspaceScope.optional())
+      .query(async ({ ctx, input }) => {
+        return await db.getConversationsByWorkspaceId(await resolveWorkspaceId(ctx.user, input?.workspaceId));
       }),
 
     update: protectedProcedure
       .input(z.object({
         conversationId: z.number(),
-        messageLog: z.string(),
+        messageLog: z.string().refine((raw) => parseMessageLog(raw) !== null, "Invalid message log"),
       }))
-      .mutation(async ({ input }) => {
-        await db.updateConversation(input.conversationId, input.messageLog);
+      .mutation(async ({ ctx, input }) => {
+        const conversation = await requireConversationAccess(ctx.user, input.conversationId, "editor");
+        await db.updateConversation(conversation.id, input.messageLog);
         return { success: true };
       }),
+
+    // Send a message and get the specialist's reply, in the brand's voice when the chat has a brand
+    sendMessage: protectedProcedure
+      .input(z.object({
+        conversationId: z.number(),
+        message: z.string().min(1).max(4000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const conversation = await requireConversationAccess(ctx.user, input.conversationId, "editor");
+        const brand = conversation.brandId ? await requireBrandAccess(ctx.user, conversation.brandId) : undefined;
+        const history = parseMessageLog(conversation.messageLog);
+        if (!history) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The conversation's message log is invalid" });
+        }
+        const messages: ChatMessage[] = [
+          ...history,
+          { role: "user", content: input.message, timestamp: Date.now() },
+        ];
+
+        const reply = await replyAsBrandSpecialist(
+          messages,
+          getBrandVoice(brand),
+          getContentProvider(brand?.contentProvider)
+        );
+        const messageLog = [...messages, { role: "assistant", content: reply, timestamp: Date.now() }];
+
+        await db.updateConversation(conversation.id, JSON.stringify(messageLog));
+        return { reply, messageLog };
+      }),
   }),
 
   visionPipeline: router({
     createJob: protectedProcedure
       .input(z.object({
-        imageUrl: z.string(),
+        // Images to analyse together: the user's uploads, external URLs, or every image in a brand kit
+        imageKeys: z.array(z.string()).max(MAX_VISION_JOB_IMAGES).optional(), // From imageUpload.createUploadUrls
+        imageUrl: z.string().optional(),
+        imageUrls: z.array(z.string()).max(MAX_VISION_JOB_IMAGES).optional(),
+        brandId: z.number().optional(),
+        workspaceId: z.number().optional(),
         analysisPurpose: z.string(),
         imageContext: z.string().optional(),
         additionalInstructions: z.string().optional(),
         creativityLevel: z.number().default(1.0),
+        visionProvider: z.enum(VISION_PROVIDER_NAMES).optional(),
+        contentProvider: z.enum(CONTENT_PROVIDER_NAMES).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        // Uploads are stored as references, since URLs to private files expire
+        let imageUrls = [
+          ...imageUploadRefs(input.imageKeys ?? [], ctx.user.id),
+          ...(input.imageUrl ? [input.imageUrl] : []),
+          ...(input.imageUrls ?? []),
+        ];
+
+        const { brand, workspaceId } = await resolveBrandWorkspace(ctx.user, input.brandId, input.workspaceId, "editor");
+        if (brand) {
+          // No explicit URLs = analyse the whole kit: logo first, then photos
+          if (imageUrls.length === 0) {
+            const assets = await db.getBrandAssetsByBrandId(brand.id);
+            imageUrls = [
+              ...(brand.logoUrl ? [brand.logoUrl] : []),
+              ...assets
+                .filter((asset) => asset.assetType === "photo")
+                .map((asset) => (asset.storageKey ? toStorageRef(asset.storageKey) : asset.storageUrl)),
+            ].slice(0, MAX_VISION_JOB_IMAGES);
+          }
+        }
+
+        // Checked on the combined list: each input alone can be within its limit
+        if (imageUrls.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "At least one image is required" });
+        }
+        if (imageUrls.length > MAX_VISION_JOB_IMAGES) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `A job can analyse at most ${MAX_VISION_JOB_IMAGES} images`,
+          });
+        }
+
         const job = await db.createVisionJob(
+          workspaceId,
           ctx.user.id,
-          input.imageUrl,
+          imageUrls,
           input.analysisPurpose,
           "detailed_analysis",
           input.creativityLevel,
           input.imageContext,
-          input.additionalInstructions
+          input.additionalInstructions,
+          input.visionProvider,
+          input.contentProvider,
+          input.brandId
         );
-        return { jobId: job.id, status: job.status };
+        return { jobId: job.id, status: job.status, imageCount: imageUrls.length };
       }),
 
     getJobStatus: protectedProcedure
       .input(z.object({ jobId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const job = await db.getVisionJobById(input.jobId);
-        if (!job) throw new Error("Job not found");
-        if (job.userId !== ctx.user.id) throw new Error("Unauthorized");
-        return job;
+        const job = await requireVisionJobAccess(ctx.user, input.jobId);
+        const images = await db.getVisionJobImages(job.id);
+        return {
+          ...job,
+          imageUrl: await resolveStorageRef(job.imageUrl),
+          images: await Promise.all(
+            images.map(async (image) => ({ ...image, imageUrl: await resolveStorageRef(image.imageUrl) }))
+          ),
+        };
+      }),
+
+    cancelJob: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await requireVisionJobAccess(ctx.user, input.jobId, "editor");
+
+        const cancelled = await db.cancelVisionJob(input.jobId);
+        if (!cancelled) {
+          throw new TRPCError({ code: "CONFLICT", message: "Job cannot be cancelled in its current state" });
+        }
+
+        // Stop in-flight provider calls if this instance is running the job
+        cancelRunningVisionJob(input.jobId);
+        publishVisionJobEvent({ type: "status", jobId: input.jobId, status: "cancelled", progress: job.progress });
+        return { success: true };
+      }),
+
+    retryJob: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await requireVisionJobAccess(ctx.user, input.jobId, "editor");
+
+        // Checkpointed stage outputs are kept, so the retry resumes where the job stopped
+        const requeued = await db.requeueVisionJob(input.jobId);
+        if (!requeued) {
+          throw new TRPCError({ code: "CONFLICT", message: "Job cannot be retried in its current state" });
+        }
+
+        publishVisionJobEvent({ type: "status", jobId: input.jobId, status: "pending", progress: 0 });
+        return { success: true };
       }),
 
     getJobHistory: protectedProcedure
-      .query(async ({ ctx }) => {
-        return await db.getUserVisionJobs(ctx.user.id);
+      .input(z.object({
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+        statuses: z.array(z.enum(visionJobs.status.enumValues)).optional(),
+        workspaceId: z.number().optional(),
+      }).optional())
+      .query(async ({ ctx, input }) => {
+        const { limit = 20, offset = 0, statuses } = input ?? {};
+        const workspaceId = await resolveWorkspaceId(ctx.user, input?.workspaceId);
+        const [jobs, total] = await Promise.all([
+          db.getWorkspaceVisionJobs(workspaceId, limit, offset, statuses),
+          db.countWorkspaceVisionJobs(workspaceId, statuses),
+        ]);
+        const withUrls = await Promise.all(
+          jobs.map(async (job) => ({ ...job, imageUrl: await resolveStorageRef(job.imageUrl) }))
+        );
+        return { jobs: withUrls, total, limit, offset };
       }),
   }),
 });
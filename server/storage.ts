@@ -1,75 +1,185 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-
-const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-const accessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID;
-const secretAccessKey = process.env.CLOUDFLARE_R2_SECRET_ACCESS_KEY;
-const bucketName = process.env.CLOUDFLARE_R2_BUCKET_NAME;
-const publicDomain = process.env.CLOUDFLARE_R2_PUBLIC_DOMAIN;
-
-if (!accountId || !accessKeyId || !secretAccessKey || !bucketName) {
-  throw new Error(
-    "Missing Cloudflare R2 credentials. Please configure CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_R2_ACCESS_KEY_ID, CLOUDFLARE_R2_SECRET_ACCESS_KEY, and CLOUDFLARE_R2_BUCKET_NAME environment variables."
-  );
+/**
+ * File Storage
+ * Every stored file goes through one StorageDriver, chosen by STORAGE_DRIVER:
+ * Cloudflare R2 (storageR2.ts), the Manus forge storage proxy (storageForge.ts) or the
+ * local disk (storageLocal.ts). The driver is created on first use, so importing this
+ * module never requires credentials.
+ *
+ * With STORAGE_PRIVATE=true files are only readable through signed URLs that expire, so
+ * rows never hold a URL: they hold a storage reference (toStorageRef), which is turned
+ * into a URL when it is needed (resolveStorageRef).
+ */
+
+import { ENV } from "./_core/env";
+import { createForgeStorageDriver } from "./storageForge";
+import { createLocalStorageDriver } from "./storageLocal";
+import { createR2StorageDriver } from "./storageR2";
+
+export const STORAGE_DRIVER_NAMES = ["r2", "forge", "local"] as const;
+export type StorageDriverName = (typeof STORAGE_DRIVER_NAMES)[number];
+
+// Lifetime of signed download URLs; long enough for a page view or a vision job stage
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Prefix of storage references, e.g. "storage:brand-assets/1/logo.png"
+const STORAGE_REF_PREFIX = "storage:";
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  /** Store a file, replacing any file under the same key */
+  put(key: string, data: Buffer | Uint8Array | string, contentType?: string): Promise<{ key: string; url: string }>;
+  /** The file's public URL */
+  get(key: string): Promise<{ key: string; url: string }>;
+  /** A URL the file can be read from until it expires, for private buckets */
+  presignGet(key: string, expiresIn: number): Promise<{ key: string; url: string }>;
+  /** The file's contents, or just its first maxBytes; null when there is no file */
+  getBytes(key: string, maxBytes?: number): Promise<Buffer | null>;
+  /** The file's size and type without reading it; null when there is no file */
+  head(key: string): Promise<{ contentLength: number; contentType?: string } | null>;
+  /** Deleting a key that does not exist succeeds, so retries are safe */
+  delete(key: string): Promise<void>;
+  /** Files whose keys start with prefix */
+  list(prefix: string): Promise<StoredObject[]>;
+  /** A URL the browser can PUT exactly this type and size of file to */
+  presignPut(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    expiresIn: number
+  ): Promise<{ key: string; uploadUrl: string }>;
+}
+
+const driverFactories: Record<StorageDriverName, () => StorageDriver> = {
+  r2: createR2StorageDriver,
+  forge: createForgeStorageDriver,
+  local: createLocalStorageDriver,
+};
+
+let driver: StorageDriver | null = null;
+
+function isStorageDriverName(name: string): name is StorageDriverName {
+  return (STORAGE_DRIVER_NAMES as readonly string[]).includes(name);
 }
 
-// Create S3 client configured for Cloudflare R2
-const r2Client = new S3Client({
-  region: "auto",
-  endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId,
-    secretAccessKey,
-  },
-});
+export function getStorageDriverName(): StorageDriverName {
+  if (!isStorageDriverName(ENV.storageDriver)) {
+    throw new Error(`Unknown storage driver: ${ENV.storageDriver}. Use one of ${STORAGE_DRIVER_NAMES.join(", ")}.`);
+  }
+  return ENV.storageDriver;
+}
 
 /**
- * Upload a file to Cloudflare R2 storage
- * @param relKey - Relative key/path for the file in the bucket (e.g., "brand-assets/user-123/logo.png")
+ * The configured driver, created on first use
+ * Throws when the driver's configuration is missing.
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) driver = driverFactories[getStorageDriverName()]();
+  return driver;
+}
+
+/**
+ * Upload a file to storage
+ * @param relKey - Relative key/path for the file (e.g., "brand-assets/user-123/logo.png")
  * @param data - File data as Buffer, Uint8Array, or string
  * @param contentType - MIME type of the file (e.g., "image/png")
- * @returns Object containing the file key and public URL
+ * @returns Object containing the file key and a URL it can be read from, as storageGet
  */
 export async function storagePut(
   relKey: string,
   data: Buffer | Uint8Array | string,
   contentType?: string
 ): Promise<{ key: string; url: string }> {
-  try {
-    const putCommand = new PutObjectCommand({
-      Bucket: bucketName,
-      Key: relKey,
-      Body: data,
-      ContentType: contentType,
-    });
-
-    await r2Client.send(putCommand);
-
-    // Construct public URL
-    const url = publicDomain
-      ? `https://${publicDomain}/${relKey}`
-      : `https://${bucketName}.${accountId}.r2.cloudflarestorage.com/${relKey}`;
-
-    return { key: relKey, url };
-  } catch (error) {
-    console.error("[Cloudflare R2] Upload failed:", error);
-    throw new Error(`Failed to upload file to R2: ${error instanceof Error ? error.message : "Unknown error"}`);
-  }
+  const stored = await getStorageDriver().put(relKey, data, contentType);
+  return ENV.storagePrivate ? await storageGet(stored.key) : stored;
 }
 
 /**
- * Generate a public URL for a file in R2 storage
+ * Generate a URL for a stored file
+ * Don't persist it: in private mode it is signed and stops working after expiresIn.
  * @param relKey - Relative key/path of the file
- * @param expiresIn - (Not used for R2 public buckets, kept for API compatibility)
- * @returns Object containing the file key and public URL
+ * @param expiresIn - Seconds a signed URL stays valid; public URLs don't expire
+ * @returns Object containing the file key and URL
  */
 export async function storageGet(
   relKey: string,
-  expiresIn?: number
+  expiresIn = SIGNED_URL_TTL_SECONDS
 ): Promise<{ key: string; url: string }> {
-  // For R2 with public domain, we can directly construct the URL
-  const url = publicDomain
-    ? `https://${publicDomain}/${relKey}`
-    : `https://${bucketName}.${accountId}.r2.cloudflarestorage.com/${relKey}`;
+  const storageDriver = getStorageDriver();
+  return ENV.storagePrivate
+    ? await storageDriver.presignGet(relKey, expiresIn)
+    : await storageDriver.get(relKey);
+}
+
+/**
+ * The value rows store to point at a stored file
+ */
+export function toStorageRef(relKey: string): string {
+  return `${STORAGE_REF_PREFIX}${relKey}`;
+}
+
+/**
+ * The key a storage reference points at, or null for anything else (e.g. an external URL)
+ */
+export function storageRefKey(value: string): string | null {
+  return value.startsWith(STORAGE_REF_PREFIX) ? value.slice(STORAGE_REF_PREFIX.length) : null;
+}
+
+/**
+ * A URL for a stored value: storage references become a storageGet URL, and
+ * anything else (external URLs, rows from before references) is returned as is
+ */
+export async function resolveStorageRef(value: string, expiresIn?: number): Promise<string> {
+  const key = storageRefKey(value);
+  return key ? (await storageGet(key, expiresIn)).url : value;
+}
+
+/**
+ * Download a stored file, or just its first bytes
+ * @returns null when there is no file under the key
+ */
+export async function storageGetBytes(relKey: string, maxBytes?: number): Promise<Buffer | null> {
+  return await getStorageDriver().getBytes(relKey, maxBytes);
+}
+
+/**
+ * Look up a stored file's size and content type without downloading it
+ * @returns null when there is no file under the key
+ */
+export async function storageHead(relKey: string): Promise<{ contentLength: number; contentType?: string } | null> {
+  return await getStorageDriver().head(relKey);
+}
 
-  return { key: relKey, url };
+/**
+ * Delete a stored file
+ * Deleting a key that does not exist succeeds, so retries are safe
+ */
+export async function storageDelete(relKey: string): Promise<void> {
+  await getStorageDriver().delete(relKey);
+}
+
+/**
+ * List stored files whose keys start with prefix
+ */
+export async function storageList(prefix: string): Promise<StoredObject[]> {
+  return await getStorageDriver().list(prefix);
+}
+
+/**
+ * Presign a PUT so the browser can upload a file straight to storage
+ * Content type and length are part of the signature; any other type or size is rejected.
+ * @param expiresIn - Seconds the URL stays valid
+ */
+export async function storagePresignPut(
+  relKey: string,
+  contentType: string,
+  contentLength: number,
+  expiresIn: number
+): Promise<{ key: string; uploadUrl: string }> {
+  return await getStorageDriver().presignPut(relKey, contentType, contentLength, expiresIn);
 }
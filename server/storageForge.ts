@@ -0,0 +1,165 @@
+/**
+ * Manus Forge Storage Driver
+ * Uses the Biz-provided storage proxy (Authorization: Bearer <token>).
+ * The proxy only uploads and hands out download URLs, which are already temporary; reads
+ * go through those URLs, and deleting, listing and presigned uploads are not available.
+ */
+
+import { ENV } from "./_core/env";
+import type { StorageDriver } from "./storage";
+
+type StorageConfig = { baseUrl: string; apiKey: string };
+
+function getStorageConfig(): StorageConfig {
+  const baseUrl = ENV.forgeApiUrl;
+  const apiKey = ENV.forgeApiKey;
+
+  if (!baseUrl || !apiKey) {
+    throw new Error(
+      "Storage proxy credentials missing: set BUILT_IN_FORGE_API_URL and BUILT_IN_FORGE_API_KEY"
+    );
+  }
+
+  return { baseUrl: baseUrl.replace(/\/+$/, ""), apiKey };
+}
+
+function buildUploadUrl(baseUrl: string, relKey: string): URL {
+  const url = new URL("v1/storage/upload", ensureTrailingSlash(baseUrl));
+  url.searchParams.set("path", normalizeKey(relKey));
+  return url;
+}
+
+async function buildDownloadUrl(
+  baseUrl: string,
+  relKey: string,
+  apiKey: string
+): Promise<string> {
+  const downloadApiUrl = new URL(
+    "v1/storage/downloadUrl",
+    ensureTrailingSlash(baseUrl)
+  );
+  downloadApiUrl.searchParams.set("path", normalizeKey(relKey));
+  const response = await fetch(downloadApiUrl, {
+    method: "GET",
+    headers: buildAuthHeaders(apiKey),
+  });
+  return (await response.json()).url;
+}
+
+function ensureTrailingSlash(value: string): string {
+  return value.endsWith("/") ? value : `${value}/`;
+}
+
+function normalizeKey(relKey: string): string {
+  return relKey.replace(/^\/+/, "");
+}
+
+function toFormData(
+  data: Buffer | Uint8Array | string,
+  contentType: string,
+  fileName: string
+): FormData {
+  const blob =
+    typeof data === "string"
+      ? new Blob([data], { type: contentType })
+      : new Blob([data as any], { type: contentType });
+  const form = new FormData();
+  form.append("file", blob, fileName || "file");
+  return form;
+}
+
+function buildAuthHeaders(apiKey: string): HeadersInit {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+/**
+ * GET a file through its download URL; null when there is no file
+ */
+async function fetchStoredFile(config: StorageConfig, relKey: string, range?: string): Promise<Response | null> {
+  const url = await buildDownloadUrl(config.baseUrl, relKey, config.apiKey);
+  const response = await fetch(url, { headers: range ? { Range: range } : undefined });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Storage download failed (${response.status} ${response.statusText})`);
+  }
+  return response;
+}
+
+function unsupported(operation: string): never {
+  throw new Error(`Forge storage cannot ${operation}; use STORAGE_DRIVER=r2 or local`);
+}
+
+export function createForgeStorageDriver(): StorageDriver {
+  const config = getStorageConfig();
+
+  return {
+    name: "forge",
+
+    async put(relKey, data, contentType = "application/octet-stream") {
+      const key = normalizeKey(relKey);
+      const uploadUrl = buildUploadUrl(config.baseUrl, key);
+      const formData = toFormData(data, contentType, key.split("/").pop() ?? key);
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: buildAuthHeaders(config.apiKey),
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const message = await response.text().catch(() => response.statusText);
+        throw new Error(
+          `Storage upload failed (${response.status} ${response.statusText}): ${message}`
+        );
+      }
+      const url = (await response.json()).url;
+      return { key, url };
+    },
+
+    async get(relKey) {
+      const key = normalizeKey(relKey);
+      return {
+        key,
+        url: await buildDownloadUrl(config.baseUrl, key, config.apiKey),
+      };
+    },
+
+    // The proxy decides how long its download URLs last
+    async presignGet(relKey) {
+      const key = normalizeKey(relKey);
+      return {
+        key,
+        url: await buildDownloadUrl(config.baseUrl, key, config.apiKey),
+      };
+    },
+
+    async getBytes(relKey, maxBytes) {
+      const response = await fetchStoredFile(config, relKey, maxBytes ? `bytes=0-${maxBytes - 1}` : undefined);
+      if (!response) return null;
+      const data = Buffer.from(await response.arrayBuffer());
+      // Servers may ignore the Range header and send everything
+      return maxBytes ? data.subarray(0, maxBytes) : data;
+    },
+
+    async head(relKey) {
+      // Download URLs are presigned for GET only, so ask for a single byte instead
+      const response = await fetchStoredFile(config, relKey, "bytes=0-0");
+      if (!response) return null;
+      const total = response.headers.get("content-range")?.split("/")[1];
+      const contentLength = Number(total ?? response.headers.get("content-length") ?? 0);
+      await response.body?.cancel();
+      return { contentLength, contentType: response.headers.get("content-type") ?? undefined };
+    },
+
+    async delete() {
+      unsupported("delete files");
+    },
+
+    async list() {
+      unsupported("list files");
+    },
+
+    async presignPut() {
+      unsupported("issue presigned uploads");
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createLocalStorageDriver,
+  registerLocalStorageRoutes,
+  verifyLocalDownload,
+  verifyLocalUpload,
+} from "./storageLocal";
+import { ENV } from "./_core/env";
+
+ENV.cookieSecret = "local-storage-test-secret";
+ENV.localStorageBaseUrl = "http://localhost:3000";
+
+const root = mkdtempSync(path.join(tmpdir(), "local-storage-"));
+const driver = createLocalStorageDriver(root);
+const png = Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64");
+
+describe("Local storage driver", () => {
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should store, read, list and delete files", async () => {
+    const stored = await driver.put("brand-assets/1/logo.png", png, "image/png");
+    await driver.put("brand-assets/2/other.png", png, "image/png");
+
+    expect(stored.key).toBe("brand-assets/1/logo.png");
+    expect(stored.url).toMatch(/\/api\/local-storage\/brand-assets\/1\/logo\.png$/);
+    expect(await driver.getBytes("brand-assets/1/logo.png")).toEqual(png);
+    expect(await driver.getBytes("brand-assets/1/logo.png", 4)).toEqual(png.subarray(0, 4));
+    expect(await driver.head("brand-assets/1/logo.png")).toEqual({ contentLength: png.length, contentType: "image/png" });
+    expect((await driver.list("brand-assets/1/")).map((object) => object.key)).toEqual(["brand-assets/1/logo.png"]);
+
+    await driver.delete("brand-assets/1/logo.png");
+    await driver.delete("brand-assets/1/logo.png");
+    expect(await driver.head("brand-assets/1/logo.png")).toBeNull();
+    expect(await driver.getBytes("brand-assets/1/logo.png")).toBeNull();
+  });
+
+  it("should refuse keys outside its directory", async () => {
+    await expect(driver.put("../escape.png", png)).rejects.toThrow("Invalid storage key");
+    await expect(driver.put(".meta/brand-assets/1/logo.png.json", "{}")).rejects.toThrow("Invalid storage key");
+  });
+
+  it("should only accept uploads matching the presigned type and size", async () => {
+    const { uploadUrl } = await driver.presignPut("brand-assets/1/upload.png", "image/png", png.length, 600);
+    const url = new URL(uploadUrl);
+    const expires = Number(url.searchParams.get("expires"));
+    const signature = url.searchParams.get("signature")!;
+
+    expect(url.pathname).toBe("/api/local-storage/brand-assets/1/upload.png");
+    expect(verifyLocalUpload("brand-assets/1/upload.png", "image/png", png.length, expires, signature)).toBe(true);
+    expect(verifyLocalUpload("brand-assets/1/upload.png", "image/jpeg", png.length, expires, signature)).toBe(false);
+    expect(verifyLocalUpload("brand-assets/1/upload.png", "image/png", png.length + 1, expires, signature)).toBe(false);
+    expect(verifyLocalUpload("brand-assets/1/other.png", "image/png", png.length, expires, signature)).toBe(false);
+    expect(verifyLocalUpload("brand-assets/1/upload.png", "image/png", png.length, expires + 1, signature)).toBe(false);
+    expect(verifyLocalUpload("brand-assets/1/upload.png", "image/png", png.length, Date.now() - 1, signature)).toBe(false);
+  });
+
+  it("should sign download URLs for one file until they expire", async () => {
+    const { url } = await driver.presignGet("brand-assets/1/logo.png", 600);
+    const signed = new URL(url);
+    const expires = Number(signed.searchParams.get("expires"));
+    const signature = signed.searchParams.get("signature")!;
+
+    expect(signed.pathname).toBe("/api/local-storage/brand-assets/1/logo.png");
+    expect(expires).toBeGreaterThan(Date.now());
+    expect(verifyLocalDownload("brand-assets/1/logo.png", expires, signature)).toBe(true);
+    expect(verifyLocalDownload("brand-assets/1/other.png", expires, signature)).toBe(false);
+    expect(verifyLocalDownload("brand-assets/1/logo.png", expires + 1, signature)).toBe(false);
+    expect(verifyLocalDownload("brand-assets/1/logo.png", Date.now() - 1, signature)).toBe(false);
+  });
+
+  it("should sign with a key derived from JWT_SECRET, so URLs survive restarts", async () => {
+    const { url } = await driver.presignGet("brand-assets/1/logo.png", 600);
+    const signed = new URL(url);
+    const expires = Number(signed.searchParams.get("expires"));
+    const signature = signed.searchParams.get("signature")!;
+
+    expect(signed.origin).toBe("http://localhost:3000");
+    expect(verifyLocalDownload("brand-assets/1/logo.png", expires, signature)).toBe(true);
+
+    // Nothing per-process goes into the signature: only JWT_SECRET decides whether it verifies
+    const secret = ENV.cookieSecret;
+    ENV.cookieSecret = "another-secret";
+    expect(verifyLocalDownload("brand-assets/1/logo.png", expires, signature)).toBe(false);
+    ENV.cookieSecret = "";
+    expect(() => verifyLocalDownload("brand-assets/1/logo.png", expires, signature)).toThrow("JWT_SECRET is required");
+    ENV.cookieSecret = secret;
+  });
+
+  async function listen(privateFiles: boolean): Promise<{ server: Server; origin: string }> {
+    const app = express();
+    registerLocalStorageRoutes(app, root, privateFiles);
+    const server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    return { server, origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+  }
+
+  describe("routes", () => {
+    let server: Server;
+    let origin: string;
+
+    beforeAll(async () => {
+      ({ server, origin } = await listen(false));
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should accept a presigned PUT and serve the file back", async () => {
+      const { uploadUrl } = await driver.presignPut("brand-assets/3/photo.png", "image/png", png.length, 600);
+      const { pathname, search } = new URL(uploadUrl);
+
+      const put = await fetch(`${origin}${pathname}${search}`, {
+        method: "PUT",
+        headers: { "Content-Type": "image/png" },
+        body: new Uint8Array(png),
+      });
+      expect(put.status).toBe(200);
+      expect(await driver.head("brand-assets/3/photo.png")).toEqual({ contentLength: png.length, contentType: "image/png" });
+
+      const get = await fetch(`${origin}${pathname}`);
+      expect(get.headers.get("content-type")).toBe("image/png");
+      expect(Buffer.from(await get.arrayBuffer())).toEqual(png);
+    });
+
+    it("should reject PUTs that do not match their signature", async () => {
+      const { uploadUrl } = await driver.presignPut("brand-assets/3/forged.png", "image/png", png.length, 600);
+      const { pathname, search } = new URL(uploadUrl);
+
+      const put = await fetch(`${origin}${pathname}${search}`, {
+        method: "PUT",
+        headers: { "Content-Type": "image/png" },
+        body: new Uint8Array(Buffer.concat([png, png])),
+      });
+      expect(put.status).toBe(403);
+      expect(await driver.head("brand-assets/3/forged.png")).toBeNull();
+    });
+
+    it("should not serve metadata or missing files", async () => {
+      await driver.put("brand-assets/4/logo.png", png, "image/png");
+
+      expect((await fetch(`${origin}/api/local-storage/.meta/brand-assets/4/logo.png.json`)).status).toBe(404);
+      expect((await fetch(`${origin}/api/local-storage/brand-assets/4/missing.png`)).status).toBe(404);
+    });
+  });
+
+  describe("private routes", () => {
+    let server: Server;
+    let origin: string;
+
+    beforeAll(async () => {
+      ({ server, origin } = await listen(true));
+      await driver.put("brand-assets/5/logo.png", png, "image/png");
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should only serve files on a signed download URL", async () => {
+      const { url } = await driver.presignGet("brand-assets/5/logo.png", 600);
+      const { pathname, search } = new URL(url);
+
+      expect((await fetch(`${origin}${pathname}`)).status).toBe(403);
+      const get = await fetch(`${origin}${pathname}${search}`);
+      expect(get.status).toBe(200);
+      expect(Buffer.from(await get.arrayBuffer())).toEqual(png);
+    });
+
+    it("should not serve a file on another file's signature", async () => {
+      await driver.put("brand-assets/5/other.png", png, "image/png");
+      const { url } = await driver.presignGet("brand-assets/5/logo.png", 600);
+      const { search } = new URL(url);
+
+      expect((await fetch(`${origin}/api/local-storage/brand-assets/5/other.png${search}`)).status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Local Disk Storage Driver
+ * Keeps files under LOCAL_STORAGE_DIR and serves them from /api/local-storage, so uploads
+ * and vision jobs run without cloud credentials. Presigned uploads are PUTs to the same
+ * route; with STORAGE_PRIVATE=true downloads need a signed URL too. URLs are signed with
+ * a key derived from JWT_SECRET, so they stay valid across restarts and instances.
+ */
+
+import express, { type Express, type Request, type Response } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { MAX_ASSET_BYTES } from "@shared/assets";
+import { ENV } from "./_core/env";
+import type { StorageDriver, StoredObject } from "./storage";
+
+export const LOCAL_STORAGE_ROUTE = "/api/local-storage";
+// Content types live here; the static route never serves dot directories
+const META_DIR = ".meta";
+
+// Derived rather than JWT_SECRET itself, so a URL signature can never pass as a session signature
+function signingKey(): Buffer {
+  if (!ENV.cookieSecret) throw new Error("JWT_SECRET is required to sign local storage URLs");
+  return createHmac("sha256", ENV.cookieSecret).update("local-storage-urls").digest();
+}
+
+function sign(...fields: (string | number)[]): string {
+  return createHmac("sha256", signingKey()).update(fields.join("\n")).digest("hex");
+}
+
+function verifySignature(expected: string, signature: string, expires: number): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now()) return false;
+  const expectedBytes = Buffer.from(expected, "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expectedBytes.length && timingSafeEqual(given, expectedBytes);
+}
+
+/**
+ * Whether a PUT matches the upload URL presignPut issued for the key
+ */
+export function verifyLocalUpload(
+  key: string,
+  contentType: string,
+  contentLength: number,
+  expires: number,
+  signature: string
+): boolean {
+  return verifySignature(sign("PUT", key, contentType, contentLength, expires), signature, expires);
+}
+
+/**
+ * Whether a GET carries the download URL presignGet issued for the key
+ */
+export function verifyLocalDownload(key: string, expires: number, signature: string): boolean {
+  return verifySignature(sign("GET", key, expires), signature, expires);
+}
+
+function signedUrl(url: string, expires: number, signature: string): string {
+  const signed = new URL(url);
+  signed.searchParams.set("expires", expires.toString());
+  signed.searchParams.set("signature", signature);
+  return signed.toString();
+}
+
+/**
+ * The file's path under root, refusing keys that would escape it or reach the metadata
+ */
+function resolveKeyPath(root: string, key: string): string {
+  const segments = key.split("/");
+  if (segments.some((segment) => !segment || segment.startsWith("."))) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return path.join(root, ...segments);
+}
+
+function metaPath(root: string, key: string): string {
+  return `${resolveKeyPath(path.join(root, META_DIR), key)}.json`;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+async function writeStoredFile(root: string, key: string, data: Buffer | Uint8Array | string, contentType?: string) {
+  const filePath = resolveKeyPath(root, key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data);
+  await fs.mkdir(path.dirname(metaPath(root, key)), { recursive: true });
+  await fs.writeFile(metaPath(root, key), JSON.stringify({ contentType }));
+}
+
+async function listFiles(root: string, directory: string): Promise<StoredObject[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+
+  const objects: StoredObject[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      objects.push(...(await listFiles(root, entryPath)));
+    } else {
+      const stats = await fs.stat(entryPath);
+      const key = path.relative(root, entryPath).split(path.sep).join("/");
+      objects.push({ key, size: stats.size, lastModified: stats.mtime });
+    }
+  }
+  return objects;
+}
+
+export function createLocalStorageDriver(rootDir = ENV.localStorageDir): StorageDriver {
+  const root = path.resolve(rootDir);
+  // Read per URL: without LOCAL_STORAGE_BASE_URL it is only known once the server is listening
+  const fileUrl = (key: string) => {
+    if (!ENV.localStorageBaseUrl) {
+      throw new Error("LOCAL_STORAGE_BASE_URL is not set and the server is not listening yet");
+    }
+    return `${ENV.localStorageBaseUrl.replace(/\/+$/, "")}${LOCAL_STORAGE_ROUTE}/${key}`;
+  };
+
+  return {
+    name: "local",
+
+    async put(key, data, contentType) {
+      await writeStoredFile(root, key, data, contentType);
+      return { key, url: fileUrl(key) };
+    },
+
+    async get(key) {
+      return { key, url: fileUrl(key) };
+    },
+
+    async presignGet(key, expiresIn) {
+      resolveKeyPath(root, key);
+      const expires = Date.now() + expiresIn * 1000;
+      return { key, url: signedUrl(fileUrl(key), expires, sign("GET", key, expires)) };
+    },
+
+    async getBytes(key, maxBytes) {
+      try {
+        if (!maxBytes) return await fs.readFile(resolveKeyPath(root, key));
+        const file = await fs.open(resolveKeyPath(root, key), "r");
+        try {
+          const buffer = Buffer.alloc(maxBytes);
+          const { bytesRead } = await file.read(buffer, 0, maxBytes, 0);
+          return buffer.subarray(0, bytesRead);
+        } finally {
+          await file.close();
+        }
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async head(key) {
+      try {
+        const stats = await fs.stat(resolveKeyPath(root, key));
+        const meta = await fs.readFile(metaPath(root, key), "utf8").then(
+          (json) => JSON.parse(json) as { contentType?: string },
+          () => ({ contentType: undefined })
+        );
+        return { contentLength: stats.size, contentType: meta.contentType };
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKeyPath(root, key), { force: true });
+      await fs.rm(metaPath(root, key), { force: true });
+    },
+
+    async list(prefix) {
+      const objects = await listFiles(root, root);
+      return objects.filter((object) => object.key.startsWith(prefix));
+    },
+
+    async presignPut(key, contentType, contentLength, expiresIn) {
+      resolveKeyPath(root, key);
+      const expires = Date.now() + expiresIn * 1000;
+      const signature = sign("PUT", key, contentType, contentLength, expires);
+      return { key, uploadUrl: signedUrl(fileUrl(key), expires, signature) };
+    },
+  };
+}
+
+function querySignature(req: Request): { expires: number; signature: string } {
+  return {
+    expires: Number(req.query.expires),
+    signature: typeof req.query.signature === "string" ? req.query.signature : "",
+  };
+}
+
+/**
+ * PUT and GET /api/local-storage/<key> - presigned uploads and file downloads
+ * Only registered when STORAGE_DRIVER=local.
+ */
+export function registerLocalStorageRoutes(
+  app: Express,
+  rootDir = ENV.localStorageDir,
+  privateFiles = ENV.storagePrivate
+) {
+  const root = path.resolve(rootDir);
+
+  app.put(
+    `${LOCAL_STORAGE_ROUTE}/*`,
+    express.raw({ type: () => true, limit: Math.max(...Object.values(MAX_ASSET_BYTES)) }),
+    async (req: Request, res: Response) => {
+      const key = req.params[0];
+      const contentType = req.headers["content-type"] ?? "";
+      const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const { expires, signature } = querySignature(req);
+
+      if (!verifyLocalUpload(key, contentType, data.length, expires, signature)) {
+        res.status(403).json({ error: "Upload URL is invalid or has expired" });
+        return;
+      }
+
+      try {
+        await writeStoredFile(root, key, data, contentType);
+        res.status(200).end();
+      } catch (error) {
+        console.error("[Local storage] Upload failed:", error);
+        res.status(500).json({ error: "Upload failed" });
+      }
+    }
+  );
+
+  if (privateFiles) {
+    app.get(`${LOCAL_STORAGE_ROUTE}/*`, (req: Request, res: Response, next) => {
+      const { expires, signature } = querySignature(req);
+      if (!verifyLocalDownload(req.params[0], expires, signature)) {
+        res.status(403).json({ error: "Download URL is invalid or has expired" });
+        return;
+      }
+      next();
+    });
+  }
+  app.use(LOCAL_STORAGE_ROUTE, express.static(root, { dotfiles: "ignore", index: false, fallthrough: false }));
+}
@@ -0,0 +1,148 @@
+/**
+ * Cloudflare R2 Storage Driver
+ * S3-compatible API; public files are served from CLOUDFLARE_R2_PUBLIC_DOMAIN when set,
+ * private ones through presigned GET URLs.
+ * The bucket's CORS policy must allow PUT with a Content-Type header from the app's origin.
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { StorageDriver, StoredObject } from "./storage";
+
+/**
+ * Log an R2 error and wrap it, e.g. failure("upload file to", error)
+ */
+function failure(action: string, error: unknown): Error {
+  console.error(`[Cloudflare R2] Failed to ${action} R2:`, error);
+  return new Error(`Failed to ${action} R2: ${error instanceof Error ? error.message : "Unknown error"}`);
+}
+
+export function createR2StorageDriver(): StorageDriver {
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+  const accessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.CLOUDFLARE_R2_SECRET_ACCESS_KEY;
+  const bucketName = process.env.CLOUDFLARE_R2_BUCKET_NAME;
+  const publicDomain = process.env.CLOUDFLARE_R2_PUBLIC_DOMAIN;
+
+  if (!accountId || !accessKeyId || !secretAccessKey || !bucketName) {
+    throw new Error(
+      "Missing Cloudflare R2 credentials. Please configure CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_R2_ACCESS_KEY_ID, CLOUDFLARE_R2_SECRET_ACCESS_KEY, and CLOUDFLARE_R2_BUCKET_NAME environment variables, or set STORAGE_DRIVER=local."
+    );
+  }
+
+  // Create S3 client configured for Cloudflare R2
+  const r2Client = new S3Client({
+    region: "auto",
+    endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId,
+      secretAccessKey,
+    },
+    // Otherwise presigned PUTs carry the checksum of an empty body and every browser upload fails
+    requestChecksumCalculation: "WHEN_REQUIRED",
+  });
+
+  const publicUrl = (relKey: string) =>
+    publicDomain
+      ? `https://${publicDomain}/${relKey}`
+      : `https://${bucketName}.${accountId}.r2.cloudflarestorage.com/${relKey}`;
+
+  return {
+    name: "r2",
+
+    async put(relKey, data, contentType) {
+      try {
+        await r2Client.send(new PutObjectCommand({ Bucket: bucketName, Key: relKey, Body: data, ContentType: contentType }));
+      } catch (error) {
+        throw failure("upload file to", error);
+      }
+      return { key: relKey, url: publicUrl(relKey) };
+    },
+
+    async get(relKey) {
+      return { key: relKey, url: publicUrl(relKey) };
+    },
+
+    async presignGet(relKey, expiresIn) {
+      const url = await getSignedUrl(r2Client, new GetObjectCommand({ Bucket: bucketName, Key: relKey }), { expiresIn });
+      return { key: relKey, url };
+    },
+
+    async getBytes(relKey, maxBytes) {
+      try {
+        const response = await r2Client.send(
+          new GetObjectCommand({
+            Bucket: bucketName,
+            Key: relKey,
+            Range: maxBytes ? `bytes=0-${maxBytes - 1}` : undefined,
+          })
+        );
+        if (!response.Body) return Buffer.alloc(0);
+        return Buffer.from(await response.Body.transformToByteArray());
+      } catch (error) {
+        if (error instanceof NoSuchKey || error instanceof NotFound) return null;
+        throw failure("read file from", error);
+      }
+    },
+
+    async head(relKey) {
+      try {
+        const head = await r2Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: relKey }));
+        return { contentLength: head.ContentLength ?? 0, contentType: head.ContentType };
+      } catch (error) {
+        if (error instanceof NotFound || error instanceof NoSuchKey) return null;
+        throw failure("read file from", error);
+      }
+    },
+
+    async delete(relKey) {
+      try {
+        await r2Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: relKey }));
+      } catch (error) {
+        throw failure("delete file from", error);
+      }
+    },
+
+    async list(prefix) {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+      try {
+        do {
+          const page = await r2Client.send(
+            new ListObjectsV2Command({ Bucket: bucketName, Prefix: prefix, ContinuationToken: continuationToken })
+          );
+          for (const object of page.Contents ?? []) {
+            if (object.Key) objects.push({ key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified });
+          }
+          continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+        } while (continuationToken);
+      } catch (error) {
+        throw failure("list files in", error);
+      }
+      return objects;
+    },
+
+    async presignPut(relKey, contentType, contentLength, expiresIn) {
+      const putCommand = new PutObjectCommand({
+        Bucket: bucketName,
+        Key: relKey,
+        ContentType: contentType,
+        ContentLength: contentLength,
+      });
+      const uploadUrl = await getSignedUrl(r2Client, putCommand, {
+        expiresIn,
+        signableHeaders: new Set(["content-type", "content-length"]),
+      });
+      return { key: relKey, uploadUrl };
+    },
+  };
+}
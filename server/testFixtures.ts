@@ -0,0 +1,163 @@
+/**
+ * Test Fixtures
+ * Complete database rows for tests that mock ./db, typed as drizzle's select types so a
+ * new column shows up here instead of hiding behind casts. Pass only what a test is about.
+ */
+
+import type {
+  Brand,
+  BrandAsset,
+  BrandInput,
+  Conversation,
+  GeneratedContent,
+  VisionJob,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+} from "../drizzle/schema";
+
+const createdAt = new Date("2025-01-01T00:00:00Z");
+const timestamps = { createdAt, updatedAt: createdAt };
+
+export function makeWorkspace(overrides: Partial<Workspace> = {}): Workspace {
+  return { id: 10, name: "Agency", createdBy: 1, personalForUserId: null, ...timestamps, ...overrides };
+}
+
+export function makeWorkspaceMember(overrides: Partial<WorkspaceMember> = {}): WorkspaceMember {
+  return { id: 1, workspaceId: 10, userId: 1, role: "owner", createdAt, ...overrides };
+}
+
+export function makeWorkspaceInvitation(overrides: Partial<WorkspaceInvitation> = {}): WorkspaceInvitation {
+  return {
+    id: 1,
+    workspaceId: 10,
+    email: "new@agency.com",
+    role: "editor",
+    invitedBy: 1,
+    acceptedBy: null,
+    acceptedAt: null,
+    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    createdAt,
+    ...overrides,
+  };
+}
+
+export function makeBrand(overrides: Partial<Brand> = {}): Brand {
+  return {
+    id: 3,
+    workspaceId: 10,
+    userId: 1,
+    brandName: "Herbal Co",
+    logoUrl: null,
+    contentProvider: null,
+    voiceProfile: null,
+    ...timestamps,
+    ...overrides,
+  };
+}
+
+export function makeBrandAsset(overrides: Partial<BrandAsset> = {}): BrandAsset {
+  return {
+    id: 9,
+    brandId: 3,
+    assetType: "photo",
+    storageUrl: "storage:brand-assets/10/3/1-a-logo.png",
+    mimeType: "image/png",
+    storageKey: "brand-assets/10/3/1-a-logo.png",
+    fileName: "logo.png",
+    byteSize: 16,
+    width: 1200,
+    height: 800,
+    contentHash: null,
+    thumbnailKey: null,
+    thumbnailUrl: null,
+    uploadedBy: 1,
+    createdAt,
+    ...overrides,
+  };
+}
+
+export function makeBrandInput(overrides: Partial<BrandInput> = {}): BrandInput {
+  return {
+    id: 4,
+    workspaceId: 10,
+    userId: 1,
+    brandId: null,
+    productInfo: "Herbal sleep tea",
+    sellingPoints: "Caffeine free",
+    targetAudience: null,
+    painPoints: null,
+    scenarios: null,
+    ctaOffer: null,
+    generationStatus: "complete",
+    generationError: null,
+    createdAt,
+    ...overrides,
+  };
+}
+
+export function makeGeneratedContent(overrides: Partial<GeneratedContent> = {}): GeneratedContent {
+  return {
+    id: 5,
+    inputId: 4,
+    userId: 1,
+    parentId: null,
+    rootId: null,
+    version: 1,
+    refineInstruction: null,
+    platform: "douyin",
+    storyboardMandarin: "分镜1：产品特写",
+    storyboardShots: null,
+    captionMandarin: "每一天，都值得被温柔对待。",
+    hashtags: null,
+    coverText: null,
+    ruleViolations: null,
+    jsonRepairs: null,
+    explanationEnglish: "A calm product close-up",
+    userFeedbackScore: null,
+    userFeedbackText: null,
+    contentProvider: null,
+    contentModel: null,
+    ...timestamps,
+    ...overrides,
+  };
+}
+
+export function makeConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return { id: 6, workspaceId: 10, userId: 1, brandId: null, messageLog: "[]", ...timestamps, ...overrides };
+}
+
+export function makeVisionJob(overrides: Partial<VisionJob> = {}): VisionJob {
+  return {
+    id: 7,
+    workspaceId: 10,
+    userId: 1,
+    brandId: null,
+    imageUrl: "https://cdn.example.com/logo.png",
+    imageContext: "",
+    analysisPurpose: "Launch campaign",
+    outputFormat: "social_posts",
+    creativityLevel: "1.0",
+    additionalInstructions: null,
+    visionProvider: null,
+    contentProvider: null,
+    contentModel: null,
+    status: "pending",
+    progress: 0,
+    geminOutput: null,
+    analysisCacheKey: null,
+    deepseekOutput: null,
+    geminAnalyzedAt: null,
+    deepseekGeneratedAt: null,
+    completedAt: null,
+    errorMessage: null,
+    errorStage: null,
+    retryCount: 0,
+    maxRetries: 3,
+    nextAttemptAt: null,
+    lockedBy: null,
+    lockedUntil: null,
+    ...timestamps,
+    ...overrides,
+  };
+}
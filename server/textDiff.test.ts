@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { diffText } from "@shared/textDiff";
+
+describe("Text Diff", () => {
+  it("should return one equal segment for identical text", () => {
+    expect(diffText("清润回甘", "清润回甘")).toEqual([{ type: "equal", text: "清润回甘" }]);
+  });
+
+  it("should mark removed and added characters, merging neighbours", () => {
+    expect(diffText("早起一杯草本茶", "早起来一杯花茶")).toEqual([
+      { type: "equal", text: "早起" },
+      { type: "added", text: "来" },
+      { type: "equal", text: "一杯" },
+      { type: "removed", text: "草本" },
+      { type: "added", text: "花" },
+      { type: "equal", text: "茶" },
+    ]);
+  });
+
+  it("should handle empty text on either side", () => {
+    expect(diffText("", "新")).toEqual([{ type: "added", text: "新" }]);
+    expect(diffText("旧", "")).toEqual([{ type: "removed", text: "旧" }]);
+    expect(diffText("", "")).toEqual([]);
+  });
+});
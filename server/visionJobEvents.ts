@@ -0,0 +1,31 @@
+/**
+ * Vision Job Event Bus
+ * In-process pub/sub between the job worker and SSE connections
+ */
+
+import { EventEmitter } from "events";
+import type { VisionJobEvent } from "@shared/visionJobEvents";
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection - don't warn on busy jobs
+emitter.setMaxListeners(0);
+
+const channel = (jobId: number) => `job:${jobId}`;
+
+export function publishVisionJobEvent(event: VisionJobEvent): void {
+  emitter.emit(channel(event.jobId), event);
+}
+
+/**
+ * Subscribe to a single job's events
+ * Returns an unsubscribe function
+ */
+export function subscribeToVisionJob(
+  jobId: number,
+  listener: (event: VisionJobEvent) => void
+): () => void {
+  emitter.on(channel(jobId), listener);
+  return () => {
+    emitter.off(channel(jobId), listener);
+  };
+}
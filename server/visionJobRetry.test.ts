@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { HttpError } from "@shared/_core/errors";
+import {
+  classifyJobError,
+  computeRetryDelayMs,
+  StageTimeoutError,
+  StageValidationError,
+} from "./visionJobRetry";
+
+describe("Vision Job Retry Policy", () => {
+  describe("classifyJobError", () => {
+    it("should retry rate limits, timeouts and server errors", () => {
+      expect(classifyJobError(new HttpError(429, "DeepSeek API error"))).toBe("retryable");
+      expect(classifyJobError(new HttpError(408, "Request timeout"))).toBe("retryable");
+      expect(classifyJobError(new HttpError(503, "DeepSeek API error"))).toBe("retryable");
+      expect(classifyJobError(Object.assign(new Error("fetch failed"), { status: 500 }))).toBe("retryable");
+    });
+
+    it("should treat network failures and aborts as retryable", () => {
+      expect(classifyJobError(new TypeError("fetch failed"))).toBe("retryable");
+      expect(classifyJobError(new DOMException("The operation was aborted", "AbortError"))).toBe("retryable");
+      expect(classifyJobError(new StageTimeoutError("gemini", 90_000))).toBe("retryable");
+      expect(classifyJobError(new StageValidationError("gemini", "colors: Required"))).toBe("retryable");
+    });
+
+    it("should not retry bad image URLs or schema violations", () => {
+      expect(classifyJobError(new HttpError(404, "Failed to fetch image: Not Found"))).toBe("permanent");
+      expect(classifyJobError(new HttpError(422, "Invalid content format"))).toBe("permanent");
+      expect(classifyJobError(new SyntaxError("Unexpected token < in JSON"))).toBe("permanent");
+    });
+
+    it("should read the status from invokeLLM error messages", () => {
+      expect(classifyJobError(new Error("LLM invoke failed: 400 Bad Request – invalid"))).toBe("permanent");
+      expect(classifyJobError(new Error("LLM invoke failed: 502 Bad Gateway – upstream"))).toBe("retryable");
+    });
+  });
+
+  describe("computeRetryDelayMs", () => {
+    it("should double the delay on every attempt", () => {
+      const noJitter = () => 1;
+      const first = computeRetryDelayMs("deepseek", 1, noJitter);
+      const second = computeRetryDelayMs("deepseek", 2, noJitter);
+
+      expect(second).toBe(first * 2);
+    });
+
+    it("should back off harder for DeepSeek than for storage", () => {
+      const noJitter = () => 1;
+      expect(computeRetryDelayMs("deepseek", 1, noJitter)).toBeGreaterThan(
+        computeRetryDelayMs("storage", 1, noJitter)
+      );
+    });
+
+    it("should keep jitter within half of the exponential delay", () => {
+      const low = computeRetryDelayMs("gemini", 3, () => 0);
+      const high = computeRetryDelayMs("gemini", 3, () => 1);
+
+      expect(low).toBe(high / 2);
+    });
+
+    it("should cap the delay at 10 minutes", () => {
+      expect(computeRetryDelayMs("deepseek", 20, () => 1)).toBe(10 * 60 * 1000);
+    });
+  });
+});
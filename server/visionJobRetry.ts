@@ -0,0 +1,105 @@
+/**
+ * Vision Job Retry Policy
+ * Classifies stage errors and schedules retries with exponential backoff + jitter
+ */
+
+/**
+ * Base delay before the first retry, per errorStage
+ * DeepSeek outages tend to last longer, so content generation backs off harder
+ */
+const RETRY_BASE_DELAY_MS: Record<string, number> = {
+  preprocess: 15 * 1000,
+  preprocess_timeout: 15 * 1000,
+  gemini: 15 * 1000,
+  gemini_timeout: 15 * 1000,
+  gemini_validation: 15 * 1000,
+  deepseek: 30 * 1000,
+  deepseek_timeout: 30 * 1000,
+  deepseek_validation: 30 * 1000,
+  storage: 5 * 1000,
+  unknown: 15 * 1000,
+};
+
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000; // Never wait more than 10 minutes
+
+export type JobErrorClass = "retryable" | "permanent";
+
+/**
+ * A stage ran past its deadline and was aborted
+ * Recorded under its own errorStage (e.g. `gemini_timeout`)
+ */
+export class StageTimeoutError extends Error {
+  constructor(
+    public stage: string,
+    public timeoutMs: number
+  ) {
+    super(`Stage ${stage} timed out after ${timeoutMs}ms`);
+    this.name = "StageTimeoutError";
+  }
+}
+
+/**
+ * A stage returned output that doesn't match its schema
+ * Recorded under its own errorStage (e.g. `gemini_validation`) and retried,
+ * since a fresh model call usually produces a conforming response
+ */
+export class StageValidationError extends Error {
+  constructor(
+    public stage: string,
+    details: string
+  ) {
+    super(`Stage ${stage} returned invalid output: ${details}`);
+    this.name = "StageValidationError";
+  }
+}
+
+/**
+ * Read an HTTP status from HttpError, Gemini SDK fetch errors, etc.
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+  if (typeof statusCode === "number") return statusCode;
+  if (typeof status === "number") return status;
+  return undefined;
+}
+
+function classifyStatus(status: number): JobErrorClass {
+  return status === 408 || status === 429 || status >= 500 ? "retryable" : "permanent";
+}
+
+/**
+ * Retryable: timeouts, schema violations, 408/429, 5xx and network failures
+ * Permanent: other 4xx (e.g. bad image URL) and malformed (non-JSON) output
+ */
+export function classifyJobError(error: unknown): JobErrorClass {
+  if (error instanceof StageTimeoutError || error instanceof StageValidationError) return "retryable";
+
+  // JSON.parse / extractJson failures mean the model ignored the schema - retrying won't fix the input
+  if (error instanceof SyntaxError) return "permanent";
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) return classifyStatus(status);
+
+  // invokeLLM only reports the status inside its message
+  const message = error instanceof Error ? error.message : String(error);
+  const llmStatus = message.match(/LLM invoke failed: (\d{3})/);
+  if (llmStatus) return classifyStatus(Number(llmStatus[1]));
+
+  // Aborts, timeouts, DNS / socket errors and anything unrecognised get another attempt
+  return "retryable";
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half is random,
+ * so jobs that failed together during an outage don't all retry in lockstep
+ */
+export function computeRetryDelayMs(
+  stage: string,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const base = RETRY_BASE_DELAY_MS[stage] ?? RETRY_BASE_DELAY_MS.unknown;
+  const exponential = Math.min(base * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
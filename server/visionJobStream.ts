@@ -0,0 +1,138 @@
+/**
+ * Vision Job SSE Stream
+ * GET /api/vision-jobs/:id/events - live status, progress, stage outputs and errors
+ * Each connection is tracked as a visionJobSessions row and closed at its expiresAt
+ */
+
+import type { Express, Request, Response } from "express";
+import { nanoid } from "nanoid";
+import { UNAUTHED_ERR_MSG } from "@shared/const";
+import {
+  TERMINAL_VISION_JOB_STATUSES,
+  type VisionJobEvent,
+} from "@shared/visionJobEvents";
+import type { VisionJob } from "../drizzle/schema";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { canAccess } from "./authorization";
+import { subscribeToVisionJob } from "./visionJobEvents";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000; // Keeps proxies from closing idle streams
+// Jobs can be processed by a worker in another instance, whose events never reach this bus
+const DB_SYNC_INTERVAL_MS = 5 * 1000;
+
+function toStatusEvent(job: VisionJob): VisionJobEvent {
+  return {
+    type: "status",
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    errorMessage: job.errorMessage,
+    errorStage: job.errorStage,
+    nextAttemptAt: job.nextAttemptAt ? job.nextAttemptAt.toISOString() : null,
+  };
+}
+
+function writeEvent(res: Response, event: VisionJobEvent) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+export function registerVisionJobEventRoutes(app: Express) {
+  app.get("/api/vision-jobs/:id/events", async (req: Request, res: Response) => {
+    let user;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch (error) {
+      res.status(401).json({ error: UNAUTHED_ERR_MSG });
+      return;
+    }
+
+    const jobId = Number(req.params.id);
+    if (!Number.isInteger(jobId)) {
+      res.status(400).json({ error: "Invalid job ID" });
+      return;
+    }
+
+    // Express 4 ignores rejected handlers; a DB failure must not become an unhandled rejection
+    try {
+      const job = await db.getVisionJobById(jobId);
+      if (!job || !(await canAccess(user, job))) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const session = await db.createVisionJobSession(jobId, user.id, nanoid());
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      // Initial snapshot so the client renders immediately
+      writeEvent(res, toStatusEvent(job));
+      if (TERMINAL_VISION_JOB_STATUSES.includes(job.status)) {
+        await db.deactivateVisionJobSession(session.sessionId);
+        res.end();
+        return;
+      }
+
+      let lastSignature = `${job.status}:${job.progress}`;
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeatTimer);
+        clearInterval(syncTimer);
+        clearTimeout(expiryTimer);
+        db.deactivateVisionJobSession(session.sessionId).catch((error) =>
+          console.error("[VisionJobStream] Failed to deactivate session:", error)
+        );
+        res.end();
+      };
+
+      const send = (event: VisionJobEvent) => {
+        if (closed) return;
+        writeEvent(res, event);
+        if (event.type === "status") {
+          lastSignature = `${event.status}:${event.progress}`;
+          if (TERMINAL_VISION_JOB_STATUSES.includes(event.status)) close();
+        }
+      };
+
+      const unsubscribe = subscribeToVisionJob(jobId, send);
+
+      const heartbeatTimer = setInterval(() => {
+        if (!closed) res.write(": heartbeat\n\n");
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const syncTimer = setInterval(async () => {
+        try {
+          const latest = await db.getVisionJobById(jobId);
+          if (latest && `${latest.status}:${latest.progress}` !== lastSignature) {
+            send(toStatusEvent(latest));
+          }
+        } catch (error) {
+          console.error("[VisionJobStream] DB sync failed:", error);
+        }
+      }, DB_SYNC_INTERVAL_MS);
+
+      const expiresInMs = session.expiresAt
+        ? Math.max(session.expiresAt.getTime() - Date.now(), 0)
+        : 60 * 60 * 1000;
+      const expiryTimer = setTimeout(() => {
+        send({ type: "expired", jobId });
+        close();
+      }, expiresInMs);
+
+      req.on("close", close);
+    } catch (error) {
+      console.error("[VisionJobStream] Stream failed:", error);
+      if (res.headersSent) res.end();
+      else res.status(500).json({ error: "Failed to stream job events" });
+    }
+  });
+}
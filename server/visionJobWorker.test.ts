@@ -0,0 +1,398 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "./db";
+import { HttpError } from "@shared/_core/errors";
+import { preprocessVisionImages } from "./visionPreprocess";
+import { extractImagesPalette } from "./colorPalette";
+import {
+  cancelRunningVisionJob,
+  getWorkerStatus,
+  processVisionJob,
+  startJobQueueWorker,
+  stopJobQueueWorker,
+} from "./visionJobWorker";
+import { subscribeToVisionJob } from "./visionJobEvents";
+import { stubVisionProvider } from "./visionProviders";
+import { fixtureContentProvider } from "./contentProviders";
+import { DEFAULT_BRAND_VOICE_PROFILE } from "@shared/brandVoice";
+import type { VisionJobEvent } from "@shared/visionJobEvents";
+import type { BrandVisionAnalysis, PaletteColor } from "@shared/brandVisionAnalysis";
+import type { VisionJob } from "../drizzle/schema";
+import { makeBrand, makeVisionJob } from "./testFixtures";
+import { ENV } from "./_core/env";
+
+vi.mock("./db", () => ({
+  claimNextVisionJob: vi.fn(),
+  renewVisionJobLease: vi.fn().mockResolvedValue(true),
+  releaseVisionJobLease: vi.fn().mockResolvedValue(undefined),
+  updateVisionJobStatus: vi.fn().mockResolvedValue(true),
+  completeVisionJob: vi.fn().mockResolvedValue(true),
+  getVisionJobById: vi.fn(),
+  getVisionJobImages: vi.fn().mockResolvedValue([]),
+  getBrandById: vi.fn().mockResolvedValue(undefined),
+  findCachedVisionAnalysis: vi.fn().mockResolvedValue(null),
+}));
+
+// Jobs' images are never downloaded here
+vi.mock("./visionPreprocess", () => ({
+  preprocessVisionImages: vi.fn(async (urls: string[]) =>
+    urls.map((url, index) => ({
+      data: Buffer.from(url),
+      mimeType: "image/png",
+      width: 800,
+      height: 600,
+      perceptualHash: index.toString(16).padStart(16, "0"),
+    }))
+  ),
+  visionAnalysisCacheKey: vi.fn(() => "cache-key"),
+}));
+
+vi.mock("./colorPalette", () => ({
+  extractImagesPalette: vi.fn().mockResolvedValue([]),
+  mergePalette: vi.fn((colors, palette) => ({ ...colors, palette })),
+}));
+
+function makeJob(id: number, overrides: Partial<VisionJob> = {}): VisionJob {
+  return makeVisionJob({
+    id,
+    workspaceId: 5,
+    visionProvider: "stub",
+    contentProvider: "fixture",
+    lockedBy: getWorkerStatus().workerId,
+    ...overrides,
+  });
+}
+
+describe("Vision Job Worker", () => {
+  const { workerId } = getWorkerStatus();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await stopJobQueueWorker();
+  });
+
+  it("should stop claiming once all concurrency slots are busy", async () => {
+    const queue = [1, 2, 3, 4, 5].map((id) => makeJob(id));
+    vi.mocked(db.claimNextVisionJob).mockImplementation(async () => queue.shift() ?? null);
+    // Keep every job in flight so the slots stay occupied
+    let releaseJobs!: (updated: boolean) => void;
+    const inFlight = new Promise<boolean>((resolve) => (releaseJobs = resolve));
+    vi.mocked(db.updateVisionJobStatus).mockReturnValue(inFlight);
+    const { maxConcurrentJobs } = getWorkerStatus();
+
+    startJobQueueWorker();
+    await vi.waitFor(() => expect(getWorkerStatus().activeJobs).toBe(maxConcurrentJobs));
+
+    expect(db.claimNextVisionJob).toHaveBeenCalledTimes(maxConcurrentJobs);
+
+    const stopped = stopJobQueueWorker();
+    releaseJobs(true);
+    await stopped;
+    expect(getWorkerStatus().activeJobs).toBe(0);
+    vi.mocked(db.updateVisionJobStatus).mockResolvedValue(true);
+  });
+
+  it("should abort running jobs and release their leases when stopped", async () => {
+    vi.mocked(db.claimNextVisionJob).mockResolvedValueOnce(makeJob(23)).mockResolvedValue(null);
+    const analyze = vi.spyOn(stubVisionProvider, "analyze");
+    // Hold the job at its first status write, as if mid-stage when the server shuts down
+    let resume!: (updated: boolean) => void;
+    vi.mocked(db.updateVisionJobStatus).mockReturnValueOnce(new Promise((resolve) => (resume = resolve)));
+
+    startJobQueueWorker();
+    await vi.waitFor(() => expect(getWorkerStatus().activeJobs).toBe(1));
+    const stopped = stopJobQueueWorker();
+    resume(true);
+    await stopped;
+
+    expect(getWorkerStatus().activeJobs).toBe(0);
+    expect(analyze).not.toHaveBeenCalled();
+    expect(db.completeVisionJob).not.toHaveBeenCalled();
+    // Not rescheduled: the released job resumes from its checkpoint on another instance
+    expect(db.updateVisionJobStatus).toHaveBeenCalledTimes(1);
+    expect(db.releaseVisionJobLease).toHaveBeenCalledWith(23, workerId);
+    analyze.mockRestore();
+  });
+
+  it("should claim with this worker's id and release the lease when done", async () => {
+    vi.mocked(db.claimNextVisionJob).mockResolvedValueOnce(makeJob(7)).mockResolvedValue(null);
+
+    startJobQueueWorker();
+    await vi.waitFor(() => expect(db.releaseVisionJobLease).toHaveBeenCalledWith(7, workerId));
+
+    expect(db.claimNextVisionJob).toHaveBeenCalledWith(workerId, getWorkerStatus().leaseMs);
+    expect(db.completeVisionJob).toHaveBeenCalledWith(7, workerId, expect.any(String), expect.any(String));
+  });
+
+  it("should write every status change as the lease holder", async () => {
+    await processVisionJob(makeJob(7));
+
+    const writers = vi.mocked(db.updateVisionJobStatus).mock.calls.map(([, writer]) => writer);
+    expect(writers.length).toBeGreaterThan(0);
+    expect(writers.every((writer) => writer === workerId)).toBe(true);
+  });
+
+  it("should schedule a backoff retry for retryable errors", async () => {
+    vi.stubEnv("DEEPSEEK_API_KEY", "");
+
+    await processVisionJob(makeJob(8, { contentProvider: "deepseek" }));
+    vi.unstubAllEnvs();
+
+    expect(db.updateVisionJobStatus).toHaveBeenLastCalledWith(8, workerId, "error", 0, expect.objectContaining({
+      errorStage: "deepseek",
+      retryCount: 1,
+      nextAttemptAt: expect.any(Date),
+    }));
+  });
+
+  it("should mark permanent errors as failed without retrying", async () => {
+    vi.stubEnv("GEMINI_API_KEY", "test-key");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 404, statusText: "Not Found" })));
+
+    await processVisionJob(makeJob(9, { visionProvider: "gemini" }));
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+
+    expect(db.updateVisionJobStatus).toHaveBeenLastCalledWith(9, workerId, "failed", 0, expect.objectContaining({
+      errorStage: "gemini",
+      nextAttemptAt: null,
+    }));
+  });
+
+  it("should abort a hung stage at its deadline and record a timeout stage", async () => {
+    const visionStageTimeoutMs = ENV.visionStageTimeoutMs;
+    ENV.visionStageTimeoutMs = 5;
+    vi.stubEnv("GEMINI_API_KEY", "test-key");
+    // Image fetch that never settles on its own
+    vi.stubGlobal("fetch", vi.fn().mockReturnValue(new Promise(() => {})));
+
+    await processVisionJob(makeJob(13, { visionProvider: "gemini" }));
+    ENV.visionStageTimeoutMs = visionStageTimeoutMs;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+
+    expect(db.updateVisionJobStatus).toHaveBeenLastCalledWith(13, workerId, "error", 0, expect.objectContaining({
+      errorStage: "gemini_timeout",
+      nextAttemptAt: expect.any(Date),
+    }));
+    expect(getWorkerStatus().activeJobs).toBe(0);
+  });
+
+  it("should retry off-schema vision output under a validation stage", async () => {
+    // Deliberately not a BrandVisionAnalysis
+    const offSchema = { colors: { primary: "teal" } } as unknown as BrandVisionAnalysis;
+    vi.spyOn(stubVisionProvider, "analyze").mockResolvedValueOnce(offSchema);
+
+    await processVisionJob(makeJob(15));
+
+    const updates = vi.mocked(db.updateVisionJobStatus).mock.calls.map(([, , , , update]) => update);
+    expect(updates.some((update) => update?.geminOutput)).toBe(false);
+    expect(db.updateVisionJobStatus).toHaveBeenLastCalledWith(15, workerId, "error", 0, expect.objectContaining({
+      errorStage: "gemini_validation",
+      nextAttemptAt: expect.any(Date),
+    }));
+  });
+
+  it("should resume from the first incomplete stage on retry", async () => {
+    const checkpoint = JSON.stringify({ colors: { primary: ["#000000"] } });
+
+    await processVisionJob(
+      makeJob(10, {
+        status: "error",
+        retryCount: 1,
+        // Gemini would fail without a key, so it must not be called again
+        visionProvider: "gemini",
+        geminOutput: checkpoint,
+      })
+    );
+
+    const statuses = vi.mocked(db.updateVisionJobStatus).mock.calls.map(([, , status]) => status);
+    expect(statuses).not.toContain("gemini_analyzing");
+    expect(db.updateVisionJobStatus).toHaveBeenCalledWith(10, workerId, "deepseek_generating", 90, {
+      deepseekOutput: expect.any(String),
+    });
+    expect(db.completeVisionJob).toHaveBeenCalledWith(10, workerId, checkpoint, expect.any(String));
+  });
+
+  it("should stop a cancelled job without completing or rescheduling it", async () => {
+    // Hold the job at its first status write so it can be cancelled mid-flight
+    let resume!: (updated: boolean) => void;
+    vi.mocked(db.updateVisionJobStatus).mockReturnValueOnce(new Promise((resolve) => (resume = resolve)));
+
+    const run = processVisionJob(makeJob(12));
+    expect(cancelRunningVisionJob(12)).toBe(true);
+    resume(true);
+    await run;
+
+    const statuses = vi.mocked(db.updateVisionJobStatus).mock.calls.map(([, , status]) => status);
+    expect(statuses).toEqual(["gemini_analyzing"]);
+    expect(db.completeVisionJob).not.toHaveBeenCalled();
+    expect(db.releaseVisionJobLease).toHaveBeenCalledWith(12, workerId);
+    expect(cancelRunningVisionJob(12)).toBe(false);
+  });
+
+  it("should stop a job whose lease another worker reclaimed", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const renewal = Promise.resolve(false);
+    vi.mocked(db.renewVisionJobLease).mockReturnValueOnce(renewal);
+    const analyze = vi.spyOn(stubVisionProvider, "analyze");
+    let resume!: (updated: boolean) => void;
+    vi.mocked(db.updateVisionJobStatus).mockReturnValueOnce(new Promise((resolve) => (resume = resolve)));
+
+    const run = processVisionJob(makeJob(20));
+    // The first renewal finds the lease gone while the job waits on its status write
+    vi.advanceTimersByTime(getWorkerStatus().leaseMs / 3);
+    await renewal;
+    resume(true);
+    await run;
+    vi.useRealTimers();
+
+    expect(db.renewVisionJobLease).toHaveBeenCalledWith(20, workerId, getWorkerStatus().leaseMs);
+    expect(analyze).not.toHaveBeenCalled();
+    expect(db.updateVisionJobStatus).toHaveBeenCalledTimes(1);
+    expect(db.completeVisionJob).not.toHaveBeenCalled();
+    analyze.mockRestore();
+  });
+
+  it("should stop a job once its status writes are skipped", async () => {
+    vi.mocked(db.updateVisionJobStatus).mockResolvedValueOnce(false);
+    const analyze = vi.spyOn(stubVisionProvider, "analyze");
+    const events: VisionJobEvent[] = [];
+    const unsubscribe = subscribeToVisionJob(21, (event) => events.push(event));
+
+    await processVisionJob(makeJob(21));
+    unsubscribe();
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(db.updateVisionJobStatus).toHaveBeenCalledTimes(1);
+    expect(db.completeVisionJob).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+    analyze.mockRestore();
+  });
+
+  it("should not announce completion of a job cancelled while it finished", async () => {
+    vi.mocked(db.completeVisionJob).mockResolvedValueOnce(false);
+    const events: VisionJobEvent[] = [];
+    const unsubscribe = subscribeToVisionJob(22, (event) => events.push(event));
+    const { jobsProcessedToday } = getWorkerStatus();
+
+    await processVisionJob(makeJob(22));
+    unsubscribe();
+
+    expect(db.completeVisionJob).toHaveBeenCalled();
+    expect(events.some((event) => event.type === "status" && event.status === "complete")).toBe(false);
+    expect(getWorkerStatus().jobsProcessedToday).toBe(jobsProcessedToday);
+  });
+
+    it("should analyse every image of a multi-image job together", async () => {
+    vi.mocked(db.getVisionJobImages).mockResolvedValueOnce([
+      { id: 1, jobId: 14, imageUrl: "https://cdn.example.com/logo.png", position: 1, createdAt: new Date() },
+      { id: 2, jobId: 14, imageUrl: "https://cdn.example.com/photo-1.jpg", position: 2, createdAt: new Date() },
+    ]);
+
+    await processVisionJob(makeJob(14));
+
+    const [, , geminOutput] = vi.mocked(db.completeVisionJob).mock.calls[0];
+    expect(JSON.parse(geminOutput).image_notes).toHaveLength(2);
+    expect(preprocessVisionImages).toHaveBeenCalledWith(
+      ["https://cdn.example.com/logo.png", "https://cdn.example.com/photo-1.jpg"],
+      expect.any(AbortSignal)
+    );
+  });
+
+  it("should reuse a cached analysis of the same images instead of calling the model", async () => {
+    const analysis = await stubVisionProvider.analyze({
+      images: [],
+      imageContext: "",
+      analysisPurpose: "",
+      creativityLevel: 1,
+    });
+    const cached = JSON.stringify({ ...analysis, colors: { ...analysis.colors, palette: [] } });
+    vi.mocked(db.findCachedVisionAnalysis).mockResolvedValueOnce({ jobId: 3, geminOutput: cached });
+    const analyze = vi.spyOn(stubVisionProvider, "analyze");
+
+    await processVisionJob(makeJob(17));
+
+    expect(db.findCachedVisionAnalysis).toHaveBeenCalledWith(5, "cache-key");
+    expect(analyze).not.toHaveBeenCalled();
+    expect(db.updateVisionJobStatus).toHaveBeenCalledWith(17, workerId, "gemini_analyzing", 50, {
+      geminOutput: cached,
+      analysisCacheKey: "cache-key",
+    });
+    expect(db.completeVisionJob).toHaveBeenCalledWith(17, workerId, cached, expect.any(String));
+    analyze.mockRestore();
+  });
+
+  it("should add the palette measured from the images to the analysis", async () => {
+    const palette: PaletteColor[] = [
+      { hex: "#2F5D50", rgb: [47, 93, 80], hsl: [163, 33, 27], coverage: 62.5, name: "Charcoal", role: "primary" },
+    ];
+    vi.mocked(extractImagesPalette).mockResolvedValueOnce(palette);
+
+    await processVisionJob(makeJob(19));
+
+    const [, , geminOutput] = vi.mocked(db.completeVisionJob).mock.calls[0];
+    expect(JSON.parse(geminOutput).colors).toMatchObject({ primary: ["#2F5D50"], palette });
+  });
+
+  it("should fail jobs whose downloads are not images under the preprocess stage", async () => {
+    vi.mocked(preprocessVisionImages).mockRejectedValueOnce(
+      new HttpError(415, "Image 1 is not a JPEG, PNG, GIF, WebP, AVIF or HEIC image")
+    );
+    const analyze = vi.spyOn(stubVisionProvider, "analyze");
+
+    await processVisionJob(makeJob(18));
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(db.updateVisionJobStatus).toHaveBeenLastCalledWith(18, workerId, "failed", 0, expect.objectContaining({
+      errorStage: "preprocess",
+      nextAttemptAt: null,
+    }));
+    analyze.mockRestore();
+  });
+
+  it("should write a brand-kit job's copy in the brand's voice", async () => {
+    const complete = vi.spyOn(fixtureContentProvider, "complete");
+    const brand = makeBrand({
+      workspaceId: 5,
+      voiceProfile: JSON.stringify({
+        ...DEFAULT_BRAND_VOICE_PROFILE,
+        mandarinBrandName: "草本家",
+        forbiddenTerms: ["便宜"],
+      }),
+    });
+    vi.mocked(db.getBrandById).mockResolvedValueOnce(brand);
+
+    await processVisionJob(makeJob(16, { brandId: 3 }));
+
+    expect(db.getBrandById).toHaveBeenCalledWith(3);
+    const { userPrompt } = complete.mock.calls[0][0];
+    expect(userPrompt).toContain("Mandarin brand name: 草本家");
+    expect(userPrompt).toContain("Never use: 便宜");
+    expect(db.completeVisionJob).toHaveBeenCalled();
+    complete.mockRestore();
+  });
+
+  it("should publish progress, stage outputs and completion to subscribers", async () => {
+    const events: VisionJobEvent[] = [];
+    const unsubscribe = subscribeToVisionJob(11, (event) => events.push(event));
+
+    await processVisionJob(makeJob(11));
+    unsubscribe();
+
+    const steps = events.map((event) =>
+      event.type === "status" ? event.status : event.type === "stage_output" ? event.stage : event.type
+    );
+    expect(steps).toEqual([
+      "gemini_analyzing",
+      "gemini_analyzing",
+      "gemini",
+      "deepseek_generating",
+      "deepseek_generating",
+      "deepseek",
+      "complete",
+    ]);
+  });
+});
@@ -2,31 +2,58 @@
  * Vision Job Queue Worker
  * Polls database for pending jobs and processes them through Gemini + DeepSeek pipeline
  * Supports up to 3 concurrent jobs using in-memory semaphore
+ * Jobs are claimed with a renewable lease, so several worker instances can share the queue
  */
 
+import { hostname } from "os";
+import { randomBytes } from "crypto";
 import {
-  getNextPendingVisionJob,
-  getFailedJobsForRetry,
+  claimNextVisionJob,
+  renewVisionJobLease,
+  releaseVisionJobLease,
   updateVisionJobStatus,
   completeVisionJob,
   getVisionJobById,
+  getVisionJobImages,
+  getBrandById,
+  findCachedVisionAnalysis,
 } from "./db";
-import { analyzeImageWithGemini } from "./geminiVision";
-import { generateMandarinContent } from "./aiContentGenerator";
+import { getVisionProvider } from "./visionProviders";
+import { getContentProvider } from "./contentProviders";
+import {
+  classifyJobError,
+  computeRetryDelayMs,
+  StageTimeoutError,
+  StageValidationError,
+} from "./visionJobRetry";
+import { publishVisionJobEvent } from "./visionJobEvents";
+import { resolveStorageRef } from "./storage";
+import { preprocessVisionImages, visionAnalysisCacheKey, type PreparedVisionImage } from "./visionPreprocess";
+import { extractImagesPalette, mergePalette } from "./colorPalette";
+import type { VisionJob } from "../drizzle/schema";
+import { generateMandarinContent, getBrandVoice } from "./aiContentGenerator";
+import { ENV } from "./_core/env";
+import { brandVisionAnalysisSchema, parseBrandVisionAnalysis, type PaletteColor } from "@shared/brandVisionAnalysis";
+import { z } from "zod";
 
 /**
  * Job Worker Configuration
  */
 const POLL_INTERVAL_MS = 2000; // Poll every 2 seconds
 const MAX_RETRIES = 3;
-const JOB_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 const MAX_CONCURRENT_JOBS = 3; // Process up to 3 jobs in parallel
+const LEASE_MS = 60 * 1000; // Claimed jobs are reclaimable 1 minute after the last renewal
+const LEASE_RENEW_INTERVAL_MS = LEASE_MS / 3;
+const WORKER_ID = `${hostname()}-${process.pid}-${randomBytes(4).toString("hex")}`;
 
 let isWorkerRunning = false;
+let isPolling = false; // Prevents overlapping polls from over-claiming slots
 let pollIntervalId: NodeJS.Timeout | null = null;
 let jobsProcessedToday = 0;
 let lastPollTime: Date | null = null;
 let activeJobs = 0; // In-memory semaphore for concurrent job tracking
+const runningJobs = new Map<number, AbortController>(); // Cooperative cancellation handles
+const jobRuns = new Set<Promise<void>>(); // Settle once each job has released its lease
 
 /**
  * Start the job queue worker
@@ -41,6 +68,7 @@ export function startJobQueueWorker() {
   isWorkerRunning = true;
   console.log("[JobWorker] Started - polling every", POLL_INTERVAL_MS, "ms");
   console.log("[JobWorker] Max concurrent jobs:", MAX_CONCURRENT_JOBS);
+  console.log("[JobWorker] Worker ID:", WORKER_ID);
 
   // Initial poll
   pollAndProcessJobs();
@@ -51,162 +79,259 @@ export function startJobQueueWorker() {
 
 /**
  * Stop the job queue worker
+ * Running jobs are aborted; resolves once they have released their leases, so another
+ * instance can resume them from their last checkpoint without waiting for the lease to expire
  */
-export function stopJobQueueWorker() {
+export async function stopJobQueueWorker(): Promise<void> {
   isWorkerRunning = false;
   if (pollIntervalId) {
     clearInterval(pollIntervalId);
     pollIntervalId = null;
   }
+
+  for (const controller of Array.from(runningJobs.values())) controller.abort();
+  await Promise.all(Array.from(jobRuns));
   console.log("[JobWorker] Stopped");
 }
 
 /**
- * Main polling loop - handles up to 3 concurrent jobs
+ * Main polling loop - claims jobs until all 3 concurrency slots are busy
+ * Jobs run in the background; each claim is atomic across worker instances
  */
 async function pollAndProcessJobs() {
-  if (!isWorkerRunning) return;
+  if (!isWorkerRunning || isPolling) return;
 
+  isPolling = true;
   lastPollTime = new Date();
 
   try {
-    // Calculate how many new jobs we can start
-    const slotsAvailable = MAX_CONCURRENT_JOBS - activeJobs;
-
-    if (slotsAvailable > 0) {
-      // Fetch up to `slotsAvailable` pending jobs
-      const jobsToProcess: any[] = [];
-      for (let i = 0; i < slotsAvailable; i++) {
-        const job = await getNextPendingVisionJob();
-        if (job) {
-          jobsToProcess.push(job);
-        } else {
-          break; // No more pending jobs
-        }
-      }
+    while (isWorkerRunning && activeJobs < MAX_CONCURRENT_JOBS) {
+      const job = await claimNextVisionJob(WORKER_ID, LEASE_MS);
+      if (!job) break; // No more runnable jobs
 
-      // Process all fetched jobs in parallel
-      if (jobsToProcess.length > 0) {
-        console.log(
-          `[JobWorker] Starting ${jobsToProcess.length} jobs (${activeJobs} already active)`
-        );
-        const promises = jobsToProcess.map((job) => processVisionJob(job));
-        await Promise.all(promises);
+      // Stopped while claiming: hand the job straight back
+      if (!isWorkerRunning) {
+        await releaseVisionJobLease(job.id, WORKER_ID);
+        break;
       }
-    }
 
-    // Check for failed jobs that need retry
-    const failedJobs = await getFailedJobsForRetry();
-    if (failedJobs.length > 0 && activeJobs < MAX_CONCURRENT_JOBS) {
-      const retrySlots = Math.min(
-        failedJobs.length,
-        MAX_CONCURRENT_JOBS - activeJobs
+      const isRetry = job.status === "error";
+      console.log(
+        `[JobWorker] Claimed job ${job.id}${isRetry ? " (retry)" : ""} (${activeJobs} already active)`
       );
-      console.log(`[JobWorker] Retrying ${retrySlots} failed jobs`);
-      const retryPromises = failedJobs
-        .slice(0, retrySlots)
-        .map((job) => processVisionJob(job, true));
-      await Promise.all(retryPromises);
+      const run = processVisionJob(job);
+      jobRuns.add(run);
+      void run.finally(() => jobRuns.delete(run));
     }
   } catch (error) {
     console.error("[JobWorker] Polling error:", error);
+  } finally {
+    isPolling = false;
   }
 }
 
 /**
- * Process a single vision job through the pipeline
+ * Process a single claimed vision job through the pipeline
+ * Resolves once the job has finished, failed or stopped and its lease is released
  */
-async function processVisionJob(job: any, isRetry: boolean = false) {
+export async function processVisionJob(job: VisionJob): Promise<void> {
   // Increment active job counter
   activeJobs++;
   console.log(
     `[Job ${job.id}] Starting (active jobs: ${activeJobs}/${MAX_CONCURRENT_JOBS})`
   );
 
-  try {
-    // Check timeout
-    const elapsedTime = Date.now() - job.createdAt.getTime();
-    if (elapsedTime > JOB_TIMEOUT_MS) {
-      console.log(
-        `[Job ${job.id}] Timeout: ${elapsedTime}ms > ${JOB_TIMEOUT_MS}ms`
-      );
-      await handleJobError(
-        job,
-        "timeout",
-        new Error("Job exceeded 5-minute timeout")
-      );
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // Keep the lease alive while the pipeline runs, and pick up cancellations
+  // requested through another server instance
+  const leaseTimer = setInterval(() => {
+    renewVisionJobLease(job.id, WORKER_ID, LEASE_MS)
+      .then(async (renewed) => {
+        // The worker that reclaimed the job runs it; stop before calling the models twice
+        if (!renewed) {
+          console.warn(`[Job ${job.id}] Lease lost to another worker, stopping`);
+          controller.abort();
+          return;
+        }
+        const latest = await getVisionJobById(job.id);
+        if (latest?.status === "cancelled") controller.abort();
+      })
+      .catch((error) => console.error(`[Job ${job.id}] Lease renewal failed:`, error));
+  }, LEASE_RENEW_INTERVAL_MS);
+
+  // Aborted stages surface as errors; a cancelled or reclaimed job must not be rescheduled
+  const failStage = async (stage: string, error: unknown) => {
+    if (controller.signal.aborted) {
+      console.log(`[Job ${job.id}] Stopped during ${stage}`);
       return;
     }
+    await handleJobError(job, stage, error);
+  };
 
-    // Step 1: Gemini Vision Analysis
-    console.log(`[Job ${job.id}] Step 1: Gemini Vision Analysis`);
-    await updateVisionJobStatus(job.id, "gemini_analyzing", 25);
-
+  try {
+    // Step 1: Vision Analysis (Gemini by default, per-job provider override)
+    // Each stage checkpoints its output on the row, so retries resume from the first incomplete stage
     let geminOutput: string;
-    try {
-      geminOutput = await analyzeImageWithGemini(
-        job.imageUrl,
-        job.imageContext || "",
-        job.analysisPurpose,
-        Number(job.creativityLevel) || 1.0
-      );
+    if (job.geminOutput) {
+      console.log(`[Job ${job.id}] Step 1: Reusing checkpointed vision analysis`);
+      geminOutput = job.geminOutput;
+    } else {
+      console.log(`[Job ${job.id}] Step 1: Vision Analysis`);
+      await reportJobStatus(job.id, "gemini_analyzing", 25);
 
-      // Strip markdown formatting if present
-      geminOutput = geminOutput.replace(/```json\n?|\n?```/g, "").trim();
+      // Verify, strip and downscale the images before any model sees them, and measure their colors
+      let images: PreparedVisionImage[];
+      let palette: PaletteColor[];
+      try {
+        // Legacy single-image jobs have no visionJobImages rows
+        const jobImages = await getVisionJobImages(job.id);
+        const storedImages = jobImages.length > 0 ? jobImages.map((image) => image.imageUrl) : [job.imageUrl];
+        // Fresh URLs for each attempt: those to private files expire
+        const imageUrls = await Promise.all(storedImages.map((value) => resolveStorageRef(value)));
+        ({ images, palette } = await runStage(
+          "preprocess",
+          ENV.visionStageTimeoutMs,
+          controller.signal,
+          async (signal) => {
+            const prepared = await preprocessVisionImages(imageUrls, signal);
+            return { images: prepared, palette: await extractImagesPalette(prepared) };
+          }
+        ));
+      } catch (error) {
+        console.error(`[Job ${job.id}] Image preprocessing failed:`, error);
+        await failStage("preprocess", error);
+        return;
+      }
 
-      console.log(
-        `[Job ${job.id}] Gemini response: ${geminOutput.substring(0, 100)}...`
-      );
-    } catch (error) {
-      console.error(`[Job ${job.id}] Gemini analysis failed:`, error);
-      await handleJobError(job, "gemini", error);
-      return;
+      try {
+        const visionProvider = getVisionProvider(job.visionProvider);
+        console.log(
+          `[Job ${job.id}] Vision provider: ${visionProvider.name} (${visionProvider.model})`
+        );
+        const request = {
+          imageContext: job.imageContext || "",
+          analysisPurpose: job.analysisPurpose,
+          creativityLevel: Number(job.creativityLevel) || 1.0,
+        };
+        const analysisCacheKey = visionAnalysisCacheKey(images, {
+          ...request,
+          provider: visionProvider.name,
+          model: visionProvider.model,
+        });
+
+        // The same images analysed the same way: reuse the result rather than call the model
+        const cached = await findCachedVisionAnalysis(job.workspaceId, analysisCacheKey);
+        const cachedAnalysis = cached ? parseBrandVisionAnalysis(cached.geminOutput) : null;
+        if (cached && cachedAnalysis) {
+          console.log(`[Job ${job.id}] Reusing the vision analysis of job ${cached.jobId}`);
+        }
+
+        const analysis =
+          cachedAnalysis ??
+          (await runStage("gemini", ENV.visionStageTimeoutMs, controller.signal, (signal) =>
+            visionProvider.analyze({ ...request, images, signal })
+          ));
+        // Providers don't guarantee the shape; never checkpoint drifted output
+        const validated = brandVisionAnalysisSchema.safeParse(analysis);
+        if (!validated.success) {
+          throw new StageValidationError("gemini", z.prettifyError(validated.error));
+        }
+        // Swatches come from the measured palette, never the model's guesses
+        geminOutput = JSON.stringify({ ...validated.data, colors: mergePalette(validated.data.colors, palette) });
+
+        console.log(
+          `[Job ${job.id}] Vision response: ${geminOutput.substring(0, 100)}...`
+        );
+
+        // Checkpoint: a later DeepSeek failure must not re-run the vision analysis
+        await reportJobStatus(job.id, "gemini_analyzing", 50, { geminOutput, analysisCacheKey });
+      } catch (error) {
+        console.error(`[Job ${job.id}] Vision analysis failed:`, error);
+        await failStage("gemini", error);
+        return;
+      }
     }
 
     // Step 2: DeepSeek Content Generation
-    console.log(`[Job ${job.id}] Step 2: DeepSeek Content Generation`);
-    await updateVisionJobStatus(job.id, "deepseek_generating", 60);
-
     let deepseekOutput: string;
-    try {
-      // Create input object for DeepSeek content generation
-      const deepseekInput = {
-        productInfo: `Brand Visual Analysis from Gemini:\n${geminOutput}`,
-        sellingPoints: job.analysisPurpose,
-        targetAudience: job.imageContext || "",
-        ctaOffer: job.additionalInstructions,
-      };
+    if (job.deepseekOutput) {
+      console.log(`[Job ${job.id}] Step 2: Reusing checkpointed content`);
+      deepseekOutput = job.deepseekOutput;
+    } else {
+      console.log(`[Job ${job.id}] Step 2: DeepSeek Content Generation`);
 
-      const contentPieces = await generateMandarinContent(deepseekInput);
-      deepseekOutput = JSON.stringify(contentPieces);
+      try {
+        const contentProvider = getContentProvider(job.contentProvider);
+        await reportJobStatus(job.id, "deepseek_generating", 60, {
+          contentProvider: contentProvider.name,
+          contentModel: contentProvider.model,
+        });
 
-      // Strip markdown formatting if present
-      deepseekOutput = deepseekOutput.replace(/```json\n?|\n?```/g, "").trim();
+        // Brand-kit jobs write in the brand's voice profile
+        const brand = job.brandId ? await getBrandById(job.brandId) : undefined;
 
-      console.log(
-        `[Job ${job.id}] DeepSeek response: ${deepseekOutput.substring(0, 150)}...`
-      );
-    } catch (error) {
-      console.error(`[Job ${job.id}] DeepSeek generation failed:`, error);
-      await handleJobError(job, "deepseek", error);
+        // Create input object for DeepSeek content generation
+        const deepseekInput = {
+          productInfo: `Brand Visual Analysis from Gemini:\n${geminOutput}`,
+          sellingPoints: job.analysisPurpose,
+          targetAudience: job.imageContext || "",
+          ctaOffer: job.additionalInstructions ?? undefined,
+          brandVoice: getBrandVoice(brand),
+        };
+
+        const contentPieces = await runStage(
+          "deepseek",
+          ENV.contentStageTimeoutMs,
+          controller.signal,
+          (signal) => generateMandarinContent(deepseekInput, contentProvider, signal)
+        );
+        deepseekOutput = JSON.stringify(contentPieces);
+
+        console.log(
+          `[Job ${job.id}] DeepSeek response: ${deepseekOutput.substring(0, 150)}...`
+        );
+
+        // Checkpoint: a storage failure must not re-run content generation
+        await reportJobStatus(job.id, "deepseek_generating", 90, { deepseekOutput });
+      } catch (error) {
+        console.error(`[Job ${job.id}] DeepSeek generation failed:`, error);
+        await failStage("deepseek", error);
+        return;
+      }
+    }
+
+    if (controller.signal.aborted) {
+      console.log(`[Job ${job.id}] Stopped before storing outputs`);
       return;
     }
 
     // Step 3: Complete the job
     console.log(`[Job ${job.id}] Step 3: Storing outputs`);
     try {
-      await completeVisionJob(job.id, geminOutput, deepseekOutput);
+      if (!(await completeVisionJob(job.id, WORKER_ID, geminOutput, deepseekOutput))) {
+        console.log(`[Job ${job.id}] Cancelled or reclaimed before completing, outputs not stored`);
+        return;
+      }
+      publishVisionJobEvent({ type: "status", jobId: job.id, status: "complete", progress: 100 });
       jobsProcessedToday++;
       console.log(`[Job ${job.id}] ✅ COMPLETE`);
     } catch (error) {
       console.error(`[Job ${job.id}] Storage failed:`, error);
-      await handleJobError(job, "storage", error);
+      await failStage("storage", error);
       return;
     }
   } catch (error) {
     console.error(`[Job ${job.id}] Unexpected error:`, error);
-    await handleJobError(job, "unknown", error);
+    await failStage("unknown", error);
   } finally {
+    clearInterval(leaseTimer);
+    runningJobs.delete(job.id);
+    await releaseVisionJobLease(job.id, WORKER_ID).catch((error) =>
+      console.error(`[Job ${job.id}] Lease release failed:`, error)
+    );
+
     // Decrement active job counter
     activeJobs--;
     console.log(
@@ -215,32 +340,128 @@ async function processVisionJob(job: any, isRetry: boolean = false) {
   }
 }
 
+/**
+ * Run one pipeline stage under its own deadline
+ * The signal aborts the provider's fetch / SDK call; the race frees the slot
+ * even if a provider ignores it
+ */
+async function runStage<T>(
+  stage: string,
+  timeoutMs: number,
+  jobSignal: AbortSignal,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const deadline = AbortSignal.timeout(timeoutMs);
+  const signal = AbortSignal.any([jobSignal, deadline]);
+  signal.throwIfAborted();
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () =>
+      reject(deadline.aborted && !jobSignal.aborted ? new StageTimeoutError(stage, timeoutMs) : signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    run(signal)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Persist a status change and publish it to SSE subscribers
+ * Checkpointed stage outputs are published as partial results
+ */
+async function reportJobStatus(
+  jobId: number,
+  status: VisionJob["status"],
+  progress: number,
+  updates?: Parameters<typeof updateVisionJobStatus>[4]
+) {
+  // The cancelled status is final for this run; don't broadcast stale progress
+  const controller = runningJobs.get(jobId);
+  if (controller?.signal.aborted) return;
+
+  // Skipped when the job was cancelled or reclaimed by another worker: stop running it
+  if (!(await updateVisionJobStatus(jobId, WORKER_ID, status, progress, updates))) {
+    console.warn(`[Job ${jobId}] Cancelled or reclaimed by another worker, stopping`);
+    controller?.abort();
+    return;
+  }
+
+  publishVisionJobEvent({
+    type: "status",
+    jobId,
+    status,
+    progress,
+    errorMessage: updates?.errorMessage ?? null,
+    errorStage: updates?.errorStage ?? null,
+    nextAttemptAt: updates?.nextAttemptAt ? updates.nextAttemptAt.toISOString() : null,
+  });
+
+  if (updates?.geminOutput) {
+    publishVisionJobEvent({ type: "stage_output", jobId, stage: "gemini", output: updates.geminOutput });
+  }
+  if (updates?.deepseekOutput) {
+    publishVisionJobEvent({ type: "stage_output", jobId, stage: "deepseek", output: updates.deepseekOutput });
+  }
+}
+
 /**
  * Handle job errors with retry logic
+ * Retryable errors are rescheduled with backoff; permanent or exhausted ones become `failed`
  */
-async function handleJobError(job: any, stage: string, error: any) {
+async function handleJobError(job: VisionJob, stage: string, error: unknown) {
   const newRetryCount = (job.retryCount || 0) + 1;
+  const maxRetries = job.maxRetries ?? MAX_RETRIES;
   const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorClass = classifyJobError(error);
+  const errorStage =
+    error instanceof StageTimeoutError
+      ? `${stage}_timeout`
+      : error instanceof StageValidationError
+        ? `${stage}_validation`
+        : stage;
 
-  if (newRetryCount < MAX_RETRIES) {
+  if (errorClass === "retryable" && newRetryCount < maxRetries) {
+    const delayMs = computeRetryDelayMs(errorStage, newRetryCount);
     console.log(
-      `[Job ${job.id}] Error in ${stage}, retry ${newRetryCount}/${MAX_RETRIES}`
+      `[Job ${job.id}] Error in ${errorStage}, retry ${newRetryCount}/${maxRetries} in ${delayMs}ms`
     );
-    await updateVisionJobStatus(job.id, "error", 0, {
-      errorMessage: `${stage}: ${errorMessage}. Retry ${newRetryCount}/${MAX_RETRIES}`,
-      errorStage: stage,
+    await reportJobStatus(job.id, "error", 0, {
+      errorMessage: `${errorStage}: ${errorMessage}. Retry ${newRetryCount}/${maxRetries}`,
+      errorStage,
+      retryCount: newRetryCount,
+      nextAttemptAt: new Date(Date.now() + delayMs),
+    });
+  } else if (errorClass === "permanent") {
+    console.error(`[Job ${job.id}] Permanent error in ${errorStage}, not retrying`);
+    await reportJobStatus(job.id, "failed", 0, {
+      errorMessage: `Permanent error in ${errorStage}: ${errorMessage}`,
+      errorStage,
       retryCount: newRetryCount,
+      nextAttemptAt: null,
     });
   } else {
     console.error(`[Job ${job.id}] Max retries exceeded`);
-    await updateVisionJobStatus(job.id, "error", 0, {
-      errorMessage: `Failed after ${MAX_RETRIES} retries in ${stage}: ${errorMessage}`,
-      errorStage: stage,
+    await reportJobStatus(job.id, "failed", 0, {
+      errorMessage: `Failed after ${maxRetries} retries in ${errorStage}: ${errorMessage}`,
+      errorStage,
       retryCount: newRetryCount,
+      nextAttemptAt: null,
     });
   }
 }
 
+/**
+ * Abort a job this worker is currently processing
+ * Other instances notice the cancelled status on their next lease renewal
+ */
+export function cancelRunningVisionJob(jobId: number): boolean {
+  const controller = runningJobs.get(jobId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
 /**
  * Get worker status (for monitoring)
  */
@@ -249,8 +470,13 @@ export function getWorkerStatus() {
     isRunning: isWorkerRunning,
     pollIntervalMs: POLL_INTERVAL_MS,
     maxRetries: MAX_RETRIES,
-    jobTimeoutMs: JOB_TIMEOUT_MS,
+    stageTimeoutsMs: {
+      gemini: ENV.visionStageTimeoutMs,
+      deepseek: ENV.contentStageTimeoutMs,
+    },
     maxConcurrentJobs: MAX_CONCURRENT_JOBS,
+    workerId: WORKER_ID,
+    leaseMs: LEASE_MS,
     activeJobs,
     jobsProcessedToday,
     lastPollTime,
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readFileSync } from "fs";
+import sharp from "sharp";
+import { greyscalePixels, prepareVisionImage } from "./imageProcessing";
+import {
+  differenceHash,
+  preprocessVisionImage,
+  VISION_MAX_EDGE,
+  visionAnalysisCacheKey,
+  type PreparedVisionImage,
+} from "./visionPreprocess";
+
+vi.mock("./imageProcessing", () => ({
+  prepareVisionImage: vi.fn(),
+  greyscalePixels: vi.fn(),
+}));
+
+const png = Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64");
+const mp4 = Buffer.from("\x00\x00\x00\x10ftypisom\x00\x00\x00\x00", "latin1");
+// 32x24 HEVC-coded HEIC: teal on the left three quarters, white on the right
+const heic = readFileSync(new URL("./fixtures/teal-white.heic", import.meta.url));
+// Brightness rising left to right on every row
+const gradient = Uint8Array.from({ length: 72 }, (_, index) => (index % 9) * 20);
+
+function serve(data: Buffer, headers: Record<string, string> = {}) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockResolvedValue(new Response(new Uint8Array(data), { status: 200, headers }))
+  );
+}
+
+describe("Vision image preprocessing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prepareVisionImage).mockResolvedValue({
+      data: Buffer.from("jpeg"),
+      mimeType: "image/jpeg",
+      width: 1536,
+      height: 1024,
+    });
+    vi.mocked(greyscalePixels).mockResolvedValue(Buffer.from(gradient));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("differenceHash", () => {
+    it("should set a bit wherever a pixel is darker than its right neighbour", () => {
+      expect(differenceHash(gradient)).toBe("ffffffffffffffff");
+      expect(differenceHash(gradient.slice().reverse())).toBe("0000000000000000");
+    });
+
+    it("should give images differing only in brightness the same hash", () => {
+      const brighter = gradient.map((value) => value + 30);
+      expect(differenceHash(brighter)).toBe(differenceHash(gradient));
+    });
+  });
+
+  describe("preprocessVisionImage", () => {
+    it("should re-encode the downloaded image and hash the result", async () => {
+      // The host's content type is ignored in favour of the bytes
+      serve(png, { "content-type": "application/octet-stream" });
+
+      const image = await preprocessVisionImage("https://cdn.example.com/logo.png", 1);
+
+      expect(prepareVisionImage).toHaveBeenCalledWith(png, VISION_MAX_EDGE);
+      expect(greyscalePixels).toHaveBeenCalledWith(Buffer.from("jpeg"), 9, 8);
+      expect(image).toEqual({
+        data: Buffer.from("jpeg"),
+        mimeType: "image/jpeg",
+        width: 1536,
+        height: 1024,
+        perceptualHash: "ffffffffffffffff",
+      });
+    });
+
+    it("should refuse downloads that are not images", async () => {
+      serve(mp4, { "content-type": "image/png" });
+
+      await expect(preprocessVisionImage("https://cdn.example.com/clip.png", 2)).rejects.toMatchObject({
+        statusCode: 415,
+        message: "Image 2 is not a JPEG, PNG, GIF, WebP, AVIF or HEIC image",
+      });
+      expect(prepareVisionImage).not.toHaveBeenCalled();
+    });
+
+    it("should refuse images over the upload size limit", async () => {
+      serve(png, { "content-length": String(100 * 1024 * 1024) });
+
+      await expect(preprocessVisionImage("https://cdn.example.com/huge.png", 1)).rejects.toMatchObject({
+        statusCode: 413,
+      });
+    });
+
+    it("should report images that cannot be decoded", async () => {
+      serve(png);
+      vi.mocked(prepareVisionImage).mockRejectedValue(new Error("Input buffer has corrupt header"));
+
+      await expect(preprocessVisionImage("https://cdn.example.com/broken.png", 1)).rejects.toMatchObject({
+        statusCode: 422,
+        message: "Image 1 could not be decoded: Input buffer has corrupt header",
+      });
+    });
+
+    it("should pass on the host's error status", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 503, statusText: "Unavailable" })));
+
+      await expect(preprocessVisionImage("https://cdn.example.com/logo.png", 1)).rejects.toMatchObject({
+        statusCode: 503,
+      });
+    });
+  });
+
+  describe("converting images", () => {
+    // The fixture's picture, width x height
+    function tealAndWhite(width: number, height: number, alpha = 255) {
+      const pixels = Buffer.alloc(width * height * 4);
+      for (let index = 0; index < width * height; index++) {
+        const color = index % width < (width * 3) / 4 ? [47, 93, 80, alpha] : [255, 255, 255, alpha];
+        pixels.set(color, index * 4);
+      }
+      return sharp(pixels, { raw: { width, height, channels: 4 } });
+    }
+
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import("./imageProcessing")>("./imageProcessing");
+      vi.mocked(prepareVisionImage).mockImplementation(actual.prepareVisionImage);
+      vi.mocked(greyscalePixels).mockImplementation(actual.greyscalePixels);
+    });
+
+    it.each([
+      ["HEIC", async () => heic],
+      ["WebP", () => tealAndWhite(32, 24).webp({ lossless: true }).toBuffer()],
+      ["AVIF", () => tealAndWhite(32, 24).avif({ lossless: true }).toBuffer()],
+    ])("should convert %s images to JPEG", async (_format, encode) => {
+      serve(await encode());
+
+      const image = await preprocessVisionImage("https://cdn.example.com/shelf", 1);
+
+      expect(image).toMatchObject({ mimeType: "image/jpeg", width: 32, height: 24 });
+      const { format, width, height, hasAlpha } = await sharp(image.data).metadata();
+      expect({ format, width, height, hasAlpha }).toEqual({ format: "jpeg", width: 32, height: 24, hasAlpha: false });
+      // Teal and white wherever the picture has them, whatever it was encoded as
+      const [left, right] = await Promise.all(
+        [0, 31].map((x) => sharp(image.data).extract({ left: x, top: 12, width: 1, height: 1 }).raw().toBuffer())
+      );
+      expect(Array.from(left).every((channel, index) => Math.abs(channel - [47, 93, 80][index]) < 8)).toBe(true);
+      expect(Array.from(right).every((channel) => channel > 245)).toBe(true);
+    });
+
+    it("should give the same picture the same hash in any format", async () => {
+      const hashes: string[] = [];
+      for (const data of [heic, await tealAndWhite(32, 24).webp({ lossless: true }).toBuffer()]) {
+        serve(data);
+        hashes.push((await preprocessVisionImage("https://cdn.example.com/shelf", 1)).perceptualHash);
+      }
+
+      expect(hashes[0]).toMatch(/^[a-f0-9]{16}$/);
+      expect(hashes[1]).toBe(hashes[0]);
+    });
+
+    it("should downscale large images and keep transparency as PNG", async () => {
+      serve(await tealAndWhite(2048, 1024, 128).webp().toBuffer());
+
+      const image = await preprocessVisionImage("https://cdn.example.com/logo.webp", 1);
+
+      expect(image).toMatchObject({ mimeType: "image/png", width: VISION_MAX_EDGE, height: 768 });
+      expect((await sharp(image.data).metadata()).hasAlpha).toBe(true);
+    });
+
+    it("should strip the photo's metadata", async () => {
+      const photo = await tealAndWhite(32, 24)
+        .jpeg()
+        .withExif({ IFD0: { Make: "Apple", Model: "iPhone 15" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "31/1 14/1 0/1" } })
+        .toBuffer();
+      expect((await sharp(photo).metadata()).exif).toBeDefined();
+      serve(photo);
+
+      const image = await preprocessVisionImage("https://cdn.example.com/photo.jpg", 1);
+
+      expect((await sharp(image.data).metadata()).exif).toBeUndefined();
+    });
+  });
+
+  describe("visionAnalysisCacheKey", () => {
+    const image = (perceptualHash: string): PreparedVisionImage => ({
+      data: Buffer.from("jpeg"),
+      mimeType: "image/jpeg",
+      width: 800,
+      height: 600,
+      perceptualHash,
+    });
+    const inputs = {
+      provider: "gemini",
+      model: "gemini-2.0-flash",
+      imageContext: "",
+      analysisPurpose: "Douyin launch campaign",
+      creativityLevel: 1,
+    };
+
+    it("should match the same images analysed the same way", () => {
+      const key = visionAnalysisCacheKey([image("00ff00ff00ff00ff")], inputs);
+
+      expect(key).toMatch(/^[a-f0-9]{64}$/);
+      expect(visionAnalysisCacheKey([{ ...image("00ff00ff00ff00ff"), width: 400 }], inputs)).toBe(key);
+    });
+
+    it("should differ for other images, image order or analysis inputs", () => {
+      const images = [image("00ff00ff00ff00ff"), image("ff00ff00ff00ff00")];
+      const key = visionAnalysisCacheKey(images, inputs);
+
+      expect(visionAnalysisCacheKey([images[0]], inputs)).not.toBe(key);
+      expect(visionAnalysisCacheKey(images.slice().reverse(), inputs)).not.toBe(key);
+      expect(visionAnalysisCacheKey(images, { ...inputs, analysisPurpose: "Xiaohongshu posts" })).not.toBe(key);
+      expect(visionAnalysisCacheKey(images, { ...inputs, provider: "forge" })).not.toBe(key);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Vision Image Preprocessing
+ * Runs before a job's images reach the vision model. Each download must really be an
+ * image; it is re-encoded without its metadata (EXIF, GPS), downscaled and converted to
+ * JPEG or PNG, which every vision provider accepts. A perceptual hash of each image keys
+ * the analysis cache, so re-analysing the same images reuses the earlier result.
+ */
+
+import { createHash } from "crypto";
+import { HttpError } from "@shared/_core/errors";
+import { ASSET_FILE_TYPES, MAX_ASSET_BYTES } from "@shared/assets";
+import { BRAND_VISION_SCHEMA_VERSION } from "@shared/brandVisionAnalysis";
+import { sniffFileType } from "./fileType";
+import { greyscalePixels, prepareVisionImage, type VisionImage } from "./imageProcessing";
+
+// Enough detail to read packaging text; larger images only cost upload time and tokens
+export const VISION_MAX_EDGE = 1536;
+
+// A difference hash compares each pixel with its right neighbour: 9x8 pixels give 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface PreparedVisionImage extends VisionImage {
+  perceptualHash: string; // 16 hex digits; re-encoded or resized copies of an image share it
+}
+
+/**
+ * The difference hash of HASH_WIDTH x HASH_HEIGHT greyscale pixels, as hex
+ */
+export function differenceHash(pixels: Uint8Array): string {
+  let bits = "";
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    for (let column = 0; column < HASH_WIDTH - 1; column++) {
+      const index = row * HASH_WIDTH + column;
+      bits += pixels[index] < pixels[index + 1] ? "1" : "0";
+    }
+  }
+  return bits.replace(/[01]{4}/g, (nibble) => parseInt(nibble, 2).toString(16));
+}
+
+async function downloadImage(url: string, position: number, signal?: AbortSignal): Promise<Buffer> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new HttpError(response.status, `Failed to fetch image ${position}: ${response.statusText}`);
+  }
+
+  const tooLarge = () =>
+    new HttpError(413, `Image ${position} is larger than ${MAX_ASSET_BYTES.photo / (1024 * 1024)} MB`);
+  if (Number(response.headers.get("content-length")) > MAX_ASSET_BYTES.photo) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_ASSET_BYTES.photo) throw tooLarge();
+  return data;
+}
+
+/**
+ * Download one image and prepare it for the vision model
+ * Failures are HttpErrors with 4xx statuses, so the job fails without retrying; only
+ * 408, 429 and 5xx responses from the image host are retried.
+ * @param position - 1-based, for error messages
+ */
+export async function preprocessVisionImage(
+  url: string,
+  position: number,
+  signal?: AbortSignal
+): Promise<PreparedVisionImage> {
+  const data = await downloadImage(url, position, signal);
+
+  // Checked from the bytes: content-type headers are whatever the host says
+  const mimeType = sniffFileType(data);
+  if (!mimeType || ASSET_FILE_TYPES[mimeType].assetType !== "photo") {
+    throw new HttpError(415, `Image ${position} is not a JPEG, PNG, GIF, WebP, AVIF or HEIC image`);
+  }
+
+  let image: VisionImage;
+  try {
+    image = await prepareVisionImage(data, VISION_MAX_EDGE);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new HttpError(422, `Image ${position} could not be decoded: ${reason}`);
+  }
+  const perceptualHash = differenceHash(await greyscalePixels(image.data, HASH_WIDTH, HASH_HEIGHT));
+
+  return { ...image, perceptualHash };
+}
+
+/**
+ * Prepare a job's images, in order
+ */
+export async function preprocessVisionImages(urls: string[], signal?: AbortSignal): Promise<PreparedVisionImage[]> {
+  return await Promise.all(urls.map((url, index) => preprocessVisionImage(url, index + 1, signal)));
+}
+
+export interface VisionCacheInputs {
+  provider: string;
+  model: string;
+  imageContext: string;
+  analysisPurpose: string;
+  creativityLevel: number;
+}
+
+/**
+ * The analysis cache key: the images' perceptual hashes in order, plus everything else
+ * that shapes the analysis. Bumping BRAND_VISION_SCHEMA_VERSION retires every entry.
+ */
+export function visionAnalysisCacheKey(images: PreparedVisionImage[], inputs: VisionCacheInputs): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        BRAND_VISION_SCHEMA_VERSION,
+        inputs.provider,
+        inputs.model,
+        images.map((image) => image.perceptualHash),
+        inputs.imageContext,
+        inputs.analysisPurpose,
+        inputs.creativityLevel,
+      ])
+    )
+    .digest("hex");
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { brandVisionAnalysisSchema, parseBrandVisionAnalysis } from "@shared/brandVisionAnalysis";
+import {
+  getVisionProvider,
+  stubVisionProvider,
+  VISION_PROVIDER_NAMES,
+} from "./visionProviders";
+
+const image = { data: Buffer.from("png"), mimeType: "image/png" as const, width: 800, height: 600 };
+
+const request = {
+  images: [image],
+  imageContext: "Busy professionals aged 25-45",
+  analysisPurpose: "Douyin launch campaign",
+  creativityLevel: 1.0,
+};
+
+describe("Vision Providers", () => {
+  describe("getVisionProvider", () => {
+    it("should resolve every registered provider by name", () => {
+      for (const name of VISION_PROVIDER_NAMES) {
+        expect(getVisionProvider(name).name).toBe(name);
+      }
+    });
+
+    it("should fall back to the default provider when no name is given", () => {
+      expect(getVisionProvider(null).name).toBe(process.env.VISION_PROVIDER || "gemini");
+    });
+
+    it("should reject unknown provider names", () => {
+      expect(() => getVisionProvider("unknown")).toThrow("Unknown vision provider: unknown");
+    });
+  });
+
+  describe("stubVisionProvider", () => {
+    it("should return the same analysis for the same request", async () => {
+      const first = await stubVisionProvider.analyze(request);
+      const second = await stubVisionProvider.analyze(request);
+
+      expect(first).toEqual(second);
+    });
+
+    it("should return an object matching the brand vision schema", async () => {
+      const analysis = await stubVisionProvider.analyze(request);
+
+      expect(brandVisionAnalysisSchema.safeParse(analysis).success).toBe(true);
+      expect(analysis.colors.primary.length).toBeGreaterThan(0);
+      expect(analysis.colors.description).toBeTruthy();
+      expect(analysis.visual_elements.objects).toBeInstanceOf(Array);
+      expect(analysis.mood_and_tone.mood).toBeTruthy();
+      expect(analysis.brand_insights.target_audience).toBe(request.imageContext);
+      expect(analysis.brand_insights.brand_personality).toBeTruthy();
+    });
+
+    it("should return one note per image for a brand kit", async () => {
+      const analysis = await stubVisionProvider.analyze({
+        ...request,
+        images: [image, { ...image, mimeType: "image/jpeg" as const }],
+      });
+
+      expect(analysis.image_notes?.map((note) => note.image_index)).toEqual([1, 2]);
+    });
+  });
+
+  describe("parseBrandVisionAnalysis", () => {
+    it("should reject malformed or drifted output instead of returning partial data", async () => {
+      const analysis = await stubVisionProvider.analyze(request);
+      const { mood_and_tone, ...drifted } = analysis;
+
+      expect(parseBrandVisionAnalysis(JSON.stringify(analysis))).toEqual(analysis);
+      expect(parseBrandVisionAnalysis(JSON.stringify(drifted))).toBeNull();
+      expect(parseBrandVisionAnalysis("not json")).toBeNull();
+      expect(parseBrandVisionAnalysis(null)).toBeNull();
+    });
+  });
+});
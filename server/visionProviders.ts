@@ -0,0 +1,147 @@
+/**
+ * Vision Provider Registry
+ * Every provider returns the same BRAND_VISION_SCHEMA object, so the job worker
+ * can switch between Gemini, the forge LLM and an offline stub per job
+ */
+
+import type { BrandVisionAnalysis } from "@shared/brandVisionAnalysis";
+import { ENV } from "./_core/env";
+import type { VisionImage } from "./imageProcessing";
+import { invokeLLM } from "./_core/llm";
+import { extractJson } from "./llmJson";
+import { BRAND_VISION_SCHEMA, buildVisionPrompt, geminiVisionProvider } from "./geminiVision";
+
+export type { BrandVisionAnalysis };
+
+export const VISION_PROVIDER_NAMES = ["gemini", "forge", "stub"] as const;
+export type VisionProviderName = (typeof VISION_PROVIDER_NAMES)[number];
+
+export interface VisionAnalysisRequest {
+  images: VisionImage[]; // From visionPreprocess.ts, analysed together as one brand kit
+  imageContext: string;
+  analysisPurpose: string;
+  creativityLevel: number; // 0.0 to 2.0
+  signal?: AbortSignal; // Aborts the model call
+}
+
+/**
+ * Providers return the model's parsed JSON as-is;
+ * the worker validates it against brandVisionAnalysisSchema
+ */
+export interface VisionProvider {
+  name: VisionProviderName;
+  model: string;
+  analyze(request: VisionAnalysisRequest): Promise<BrandVisionAnalysis>;
+}
+
+/**
+ * Forge provider - routes the analysis through invokeLLM with a JSON schema
+ */
+export const forgeVisionProvider: VisionProvider = {
+  name: "forge",
+  model: "gemini-2.5-flash",
+
+  async analyze(request) {
+    const result = await invokeLLM({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: buildVisionPrompt(request) },
+            ...request.images.map((image) => ({
+              type: "image_url" as const,
+              image_url: {
+                url: `data:${image.mimeType};base64,${image.data.toString("base64")}`,
+                detail: "high" as const,
+              },
+            })),
+          ],
+        },
+      ],
+      outputSchema: {
+        name: "brand_vision_analysis",
+        schema: BRAND_VISION_SCHEMA,
+      },
+      signal: request.signal,
+    });
+
+    const content = result.choices[0]?.message?.content;
+    if (typeof content !== "string" || !content) {
+      throw new Error("No analysis generated from forge LLM");
+    }
+
+    const { value, repairs } = extractJson(content);
+    if (repairs.length > 0) {
+      console.warn(`[Vision] Repaired forge JSON: ${repairs.join(", ")}`);
+    }
+    return value as BrandVisionAnalysis;
+  },
+};
+
+/**
+ * Stub provider - deterministic, offline output for tests and local development
+ */
+export const stubVisionProvider: VisionProvider = {
+  name: "stub",
+  model: "stub-v1",
+
+  async analyze(request) {
+    request.signal?.throwIfAborted();
+    return {
+      colors: {
+        primary: ["#2F5D50"],
+        secondary: ["#F4EFE6"],
+        accent: ["#C8A24A"],
+        description: "Calm botanical greens on a warm neutral base",
+      },
+      visual_elements: {
+        objects: ["product packaging"],
+        shapes: ["rounded rectangle"],
+        text: "",
+        icons: [],
+      },
+      mood_and_tone: {
+        mood: "calm",
+        tone: "trustworthy",
+        energy_level: "medium",
+      },
+      composition: {
+        layout: "centered",
+        balance: "symmetrical",
+        focal_point: "product",
+        negative_space: "moderate",
+      },
+      brand_insights: {
+        perceived_industry: "wellness",
+        target_audience: request.imageContext || "Health-conscious adults",
+        brand_personality: request.analysisPurpose || "natural, caring",
+        premium_level: "premium",
+      },
+      image_notes: request.images.map((image, index) => ({
+        image_index: index + 1,
+        notes: `Stub notes for a ${image.width}x${image.height} image`,
+      })),
+    };
+  },
+};
+
+const providers: Record<VisionProviderName, VisionProvider> = {
+  gemini: geminiVisionProvider,
+  forge: forgeVisionProvider,
+  stub: stubVisionProvider,
+};
+
+export function isVisionProviderName(name: string): name is VisionProviderName {
+  return (VISION_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Resolve a provider by name, falling back to VISION_PROVIDER (default "gemini")
+ */
+export function getVisionProvider(name?: string | null): VisionProvider {
+  const resolved = name || ENV.visionProvider;
+  if (!isVisionProviderName(resolved)) {
+    throw new Error(`Unknown vision provider: ${resolved}`);
+  }
+  return providers[resolved];
+}
@@ -0,0 +1,31 @@
+/**
+ * Brand asset file types
+ * The server identifies uploads by their magic bytes (server/fileType.ts), never the
+ * client's mime type; only these types are accepted.
+ */
+
+export const ASSET_FILE_TYPES = {
+  "image/jpeg": { extension: "jpg", assetType: "photo" },
+  "image/png": { extension: "png", assetType: "photo" },
+  "image/gif": { extension: "gif", assetType: "photo" },
+  "image/webp": { extension: "webp", assetType: "photo" },
+  "image/avif": { extension: "avif", assetType: "photo" },
+  "image/heic": { extension: "heic", assetType: "photo" },
+  "video/mp4": { extension: "mp4", assetType: "video" },
+  "video/quicktime": { extension: "mov", assetType: "video" },
+  "video/webm": { extension: "webm", assetType: "video" },
+} as const;
+
+export type AssetMimeType = keyof typeof ASSET_FILE_TYPES;
+export type AssetType = (typeof ASSET_FILE_TYPES)[AssetMimeType]["assetType"];
+
+// Files go straight to storage on presigned URLs, so these are not bound by the API's body limit
+export const MAX_ASSET_BYTES: Record<AssetType, number> = {
+  photo: 15 * 1024 * 1024,
+  video: 35 * 1024 * 1024,
+};
+
+export const THUMBNAIL_MAX_EDGE = 320;
+
+// Files per upload request
+export const MAX_UPLOAD_FILES = 10;
@@ -0,0 +1,86 @@
+/**
+ * Brand vision analysis contract
+ * Mirrors BRAND_VISION_SCHEMA (server/geminiVision.ts); keep the two in step
+ * and bump BRAND_VISION_SCHEMA_VERSION whenever the shape changes.
+ * colors.palette is the exception: the server measures it from the pixels
+ * (server/colorPalette.ts), so models never return it.
+ */
+
+import { z } from "zod";
+
+export const BRAND_VISION_SCHEMA_VERSION = 2;
+
+export const PALETTE_ROLES = ["primary", "secondary", "accent"] as const;
+
+export const paletteColorSchema = z.object({
+  hex: z.string(), // e.g. "#2F5D50"
+  rgb: z.tuple([z.number(), z.number(), z.number()]), // 0-255
+  hsl: z.tuple([z.number(), z.number(), z.number()]), // Hue in degrees, saturation and lightness in %
+  coverage: z.number(), // % of the images' opaque pixels
+  name: z.string(), // Nearest named color
+  // Set when the model listed a color like it: under which role, and in what words
+  role: z.enum(PALETTE_ROLES).optional(),
+  label: z.string().optional(),
+});
+
+export type PaletteColor = z.infer<typeof paletteColorSchema>;
+
+export const brandVisionAnalysisSchema = z.object({
+  colors: z.object({
+    primary: z.array(z.string()),
+    secondary: z.array(z.string()),
+    accent: z.array(z.string()).optional(),
+    description: z.string(),
+    palette: z.array(paletteColorSchema).optional(), // Most coverage first
+  }),
+  visual_elements: z.object({
+    objects: z.array(z.string()),
+    shapes: z.array(z.string()),
+    text: z.string().optional(),
+    icons: z.array(z.string()).optional(),
+  }),
+  mood_and_tone: z.object({
+    mood: z.string(),
+    tone: z.string(),
+    energy_level: z.string().optional(),
+  }),
+  composition: z
+    .object({
+      layout: z.string(),
+      balance: z.string().optional(),
+      focal_point: z.string(),
+      negative_space: z.string().optional(),
+    })
+    .optional(),
+  brand_insights: z.object({
+    perceived_industry: z.string().optional(),
+    target_audience: z.string(),
+    brand_personality: z.string(),
+    premium_level: z.string().optional(),
+  }),
+  // Per-image observations for multi-image (brand kit) jobs
+  image_notes: z
+    .array(
+      z.object({
+        image_index: z.number().int().positive(), // 1-based, in request order
+        notes: z.string(),
+      })
+    )
+    .optional(),
+});
+
+export type BrandVisionAnalysis = z.infer<typeof brandVisionAnalysisSchema>;
+
+/**
+ * Parse a stored geminOutput string
+ * Returns null for missing, malformed or off-schema output instead of throwing
+ */
+export function parseBrandVisionAnalysis(raw: string | null | undefined): BrandVisionAnalysis | null {
+  if (!raw) return null;
+  try {
+    const result = brandVisionAnalysisSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Brand voice profile contract
+ * Stored as JSON on brands.voiceProfile and injected into every generation prompt
+ * for the brand, so copy stays consistent without retyping it into each brief.
+ */
+
+import { z } from "zod";
+
+// Each slider runs 0-100 from the first label to the second
+export const TONE_SLIDERS = {
+  formality: ["Casual", "Formal"],
+  energy: ["Calm", "Energetic"],
+  humor: ["Serious", "Playful"],
+  luxury: ["Everyday", "Premium"],
+} as const;
+export type ToneSlider = keyof typeof TONE_SLIDERS;
+
+const toneValue = z.number().int().min(0).max(100);
+const term = z.string().trim().min(1).max(100);
+
+export const brandVoiceProfileSchema = z.object({
+  tone: z.object({
+    formality: toneValue,
+    energy: toneValue,
+    humor: toneValue,
+    luxury: toneValue,
+  }),
+  mandarinBrandName: z.string().trim().max(100), // "" = not yet approved
+  productTerms: z.array(z.object({ source: term, mandarin: term })).max(50), // Approved translations
+  preferredTerms: z.array(term).max(50),
+  forbiddenTerms: z.array(term).max(50),
+  exampleCaptions: z.array(z.string().trim().min(1).max(1000)).max(10),
+  complianceNotes: z.string().trim().max(2000),
+});
+
+export type BrandVoiceProfile = z.infer<typeof brandVoiceProfileSchema>;
+
+export const DEFAULT_BRAND_VOICE_PROFILE: BrandVoiceProfile = {
+  tone: { formality: 50, energy: 50, humor: 50, luxury: 50 },
+  mandarinBrandName: "",
+  productTerms: [],
+  preferredTerms: [],
+  forbiddenTerms: [],
+  exampleCaptions: [],
+  complianceNotes: "",
+};
+
+/**
+ * Parse a stored brands.voiceProfile column
+ * Returns null when the brand has no profile (or it no longer validates)
+ */
+export function parseBrandVoiceProfile(raw: string | null | undefined): BrandVoiceProfile | null {
+  if (!raw) return null;
+  try {
+    const result = brandVoiceProfileSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forbidden terms that appear in a piece's copy
+ */
+export function findForbiddenTerms(profile: BrandVoiceProfile, texts: string[]): string[] {
+  const text = texts.join(" ").toLowerCase();
+  return profile.forbiddenTerms.filter((term) => text.includes(term.toLowerCase()));
+}
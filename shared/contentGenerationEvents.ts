@@ -0,0 +1,30 @@
+/**
+ * Streamed content generation events
+ * Sent over /api/content-generations/:inputId/events as SSE `data:` payloads.
+ */
+
+import type { BrandInput } from "../drizzle/schema";
+
+export const contentGenerationEventsPath = (inputId: number | string) =>
+  `/api/content-generations/${inputId}/events`;
+
+/** A piece was saved to generatedContent */
+export type ContentGenerationPieceEvent = {
+  type: "piece";
+  inputId: number;
+  contentId: number;
+  platform: string | null;
+  captionMandarin: string;
+};
+
+export type ContentGenerationStatusEvent = {
+  type: "status";
+  inputId: number;
+  status: BrandInput["generationStatus"];
+  pieceCount: number;
+  errorMessage?: string | null;
+};
+
+export type ContentGenerationEvent =
+  | ContentGenerationPieceEvent
+  | ContentGenerationStatusEvent;
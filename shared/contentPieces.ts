@@ -0,0 +1,87 @@
+/**
+ * Generated content piece contract
+ * Each piece targets one platform and carries a free-text storyboard summary plus
+ * a shot-by-shot storyboard that video editors can cut from directly.
+ */
+
+import { z } from "zod";
+import { CONTENT_PLATFORMS } from "./contentPlatforms";
+
+// Target length stated in the content system prompt
+export const STORYBOARD_MIN_SECONDS = 15;
+export const STORYBOARD_MAX_SECONDS = 30;
+
+export const storyboardShotSchema = z.object({
+  durationSeconds: z.number().positive(),
+  framing: z.string(), // e.g. close-up, medium, wide
+  cameraMotion: z.string(), // e.g. static, slow push-in, pan left
+  onScreenText: z.string(), // Mandarin; empty string when there is none
+  voiceover: z.string(), // Mandarin; empty string when there is none
+  musicCue: z.string(),
+});
+
+export type StoryboardShot = z.infer<typeof storyboardShotSchema>;
+
+export function storyboardDurationSeconds(shots: StoryboardShot[]): number {
+  return shots.reduce((total, shot) => total + shot.durationSeconds, 0);
+}
+
+export const storyboardSchema = z
+  .array(storyboardShotSchema)
+  .min(1)
+  .refine(
+    (shots) => {
+      const total = storyboardDurationSeconds(shots);
+      return total >= STORYBOARD_MIN_SECONDS && total <= STORYBOARD_MAX_SECONDS;
+    },
+    {
+      message: `Shot durations must add up to ${STORYBOARD_MIN_SECONDS}-${STORYBOARD_MAX_SECONDS} seconds`,
+    }
+  );
+
+export const generatedContentPieceSchema = z.object({
+  platform: z.enum(CONTENT_PLATFORMS),
+  storyboardMandarin: z.string(),
+  storyboardShots: storyboardSchema,
+  captionMandarin: z.string(), // Without hashtags
+  hashtags: z.array(z.string()),
+  coverText: z.string(), // "" on platforms without cover text
+  explanationEnglish: z.string(),
+});
+
+/**
+ * A validated piece plus the platform rules it breaks (see checkPlatformRules)
+ * and the repairs its JSON needed (see server/llmJson.ts)
+ * Violations are warnings for the editor, not generation failures
+ */
+export type GeneratedContentPiece = z.infer<typeof generatedContentPieceSchema> & {
+  ruleViolations: string[];
+  jsonRepairs: string[];
+};
+
+/**
+ * Parse a stored JSON string-array column (hashtags, ruleViolations, jsonRepairs)
+ */
+export function parseStringList(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const result = z.array(z.string()).safeParse(JSON.parse(raw));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse a stored storyboardShots column
+ * Returns null for pieces generated before storyboards were structured
+ */
+export function parseStoryboardShots(raw: string | null | undefined): StoryboardShot[] | null {
+  if (!raw) return null;
+  try {
+    const result = storyboardSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Target platforms for generated content and their publishing rules
+ * The same rules drive the generation prompt and the post-generation checks.
+ */
+
+export const CONTENT_PLATFORMS = ["wechat", "douyin", "xiaohongshu"] as const;
+export type ContentPlatform = (typeof CONTENT_PLATFORMS)[number];
+
+export interface PlatformRules {
+  label: string;
+  captionMinChars: number;
+  captionMaxChars: number;
+  minHashtags: number;
+  maxHashtags: number;
+  coverTextMaxChars: number; // 0 = the platform shows no cover text
+  tone: string;
+}
+
+export const PLATFORM_RULES: Record<ContentPlatform, PlatformRules> = {
+  wechat: {
+    label: "WeChat",
+    captionMinChars: 50,
+    captionMaxChars: 150,
+    minHashtags: 0,
+    maxHashtags: 3,
+    coverTextMaxChars: 0,
+    tone: "warm and trustworthy, written for friends and family sharing in Moments",
+  },
+  douyin: {
+    label: "Douyin",
+    captionMinChars: 15,
+    captionMaxChars: 55,
+    minHashtags: 2,
+    maxHashtags: 5,
+    coverTextMaxChars: 12,
+    tone: "punchy and energetic, hooking viewers in the first second",
+  },
+  xiaohongshu: {
+    label: "Xiaohongshu",
+    captionMinChars: 100,
+    captionMaxChars: 1000,
+    minHashtags: 3,
+    maxHashtags: 10,
+    coverTextMaxChars: 20,
+    tone: "personal, first-person lifestyle note with practical tips",
+  },
+};
+
+/**
+ * Absolute and medical claims banned in PRC advertising (Advertising Law art. 9 / 17)
+ */
+export const BANNED_WORDS = [
+  "最好",
+  "最佳",
+  "最强",
+  "第一",
+  "首选",
+  "国家级",
+  "顶级",
+  "极致",
+  "万能",
+  "根治",
+  "治愈",
+  "特效",
+  "无副作用",
+];
+
+// Chinese characters are one code point each; don't count UTF-16 units
+const charCount = (text: string) => Array.from(text).length;
+
+/**
+ * Check a piece against its platform's rules
+ * Returns human-readable violations; an empty list means the piece can be published as-is
+ */
+export function checkPlatformRules(piece: {
+  platform: ContentPlatform;
+  captionMandarin: string;
+  hashtags: string[];
+  coverText: string;
+}): string[] {
+  const rules = PLATFORM_RULES[piece.platform];
+  const violations: string[] = [];
+
+  const captionChars = charCount(piece.captionMandarin);
+  if (captionChars < rules.captionMinChars || captionChars > rules.captionMaxChars) {
+    violations.push(
+      `Caption is ${captionChars} characters; ${rules.label} needs ${rules.captionMinChars}-${rules.captionMaxChars}`
+    );
+  }
+
+  if (piece.hashtags.length < rules.minHashtags || piece.hashtags.length > rules.maxHashtags) {
+    violations.push(
+      `${piece.hashtags.length} hashtags; ${rules.label} needs ${rules.minHashtags}-${rules.maxHashtags}`
+    );
+  }
+
+  const coverChars = charCount(piece.coverText);
+  if (rules.coverTextMaxChars === 0 && coverChars > 0) {
+    violations.push(`${rules.label} posts have no cover text`);
+  } else if (rules.coverTextMaxChars > 0 && (coverChars === 0 || coverChars > rules.coverTextMaxChars)) {
+    violations.push(
+      `Cover text is ${coverChars} characters; ${rules.label} needs 1-${rules.coverTextMaxChars}`
+    );
+  }
+
+  const text = [piece.captionMandarin, piece.coverText, ...piece.hashtags].join(" ");
+  const banned = BANNED_WORDS.filter((word) => text.includes(word));
+  if (banned.length > 0) {
+    violations.push(`Banned advertising terms: ${banned.join(", ")}`);
+  }
+
+  return violations;
+}
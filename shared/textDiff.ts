@@ -0,0 +1,63 @@
+/**
+ * Character-level text diff for comparing content versions
+ * Mandarin has no word boundaries, so characters are the natural unit.
+ */
+
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Beyond this many LCS cells the texts are shown as a plain replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff two strings via longest common subsequence
+ * Adjacent segments of the same type are merged.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = Array.from(before);
+  const b = Array.from(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) segments.push({ type: "removed", text: before });
+    if (after) segments.push({ type: "added", text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+
+  return segments;
+}
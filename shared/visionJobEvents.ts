@@ -0,0 +1,44 @@
+/**
+ * Vision job progress events
+ * Sent over /api/vision-jobs/:id/events as SSE `data:` payloads.
+ */
+
+import type { VisionJob } from "../drizzle/schema";
+
+export const visionJobEventsPath = (jobId: number | string) =>
+  `/api/vision-jobs/${jobId}/events`;
+
+export type VisionJobStatusEvent = {
+  type: "status";
+  jobId: number;
+  status: VisionJob["status"];
+  progress: number;
+  errorMessage?: string | null;
+  errorStage?: string | null;
+  nextAttemptAt?: string | null; // ISO timestamp
+};
+
+/** Partial output published as soon as a stage checkpoints it */
+export type VisionJobStageOutputEvent = {
+  type: "stage_output";
+  jobId: number;
+  stage: "gemini" | "deepseek";
+  output: string;
+};
+
+/** The session reached its expiresAt; clients should reconnect */
+export type VisionJobExpiredEvent = {
+  type: "expired";
+  jobId: number;
+};
+
+export type VisionJobEvent =
+  | VisionJobStatusEvent
+  | VisionJobStageOutputEvent
+  | VisionJobExpiredEvent;
+
+export const TERMINAL_VISION_JOB_STATUSES: ReadonlyArray<VisionJob["status"]> = [
+  "complete",
+  "failed",
+  "cancelled",
+];
@@ -0,0 +1,24 @@
+/**
+ * Workspace roles
+ * Brands, briefs, vision jobs and conversations belong to a workspace; members act on
+ * them according to their role there. Platform admins (users.role) can act on any workspace.
+ */
+
+// Ordered from least to most access
+export const WORKSPACE_ROLES = ["viewer", "editor", "owner"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: "Viewer - can see the workspace's brands and content",
+  editor: "Editor - can also generate, refine and edit",
+  owner: "Owner - can also manage members and invitations",
+};
+
+export const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a role grants at least the access of another
+ */
+export function hasWorkspaceRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minimum);
+}